@@ -1,98 +1,464 @@
+import { z } from "zod";
 import type {
+  CaveatDefinition,
+  CaveatParameterType,
+  CheckContext,
+  CombiningAlgorithm,
+  ComputedUsersetRewrite,
+  ConditionDocument,
+  ConditionRegistry,
   ConditionsShape,
+  DenyRule,
+  DenyRulesShape,
+  ExclusionRewrite,
+  IntersectionRewrite,
   RelationshipFunction,
   ResourcesShape,
+  RoleCondition,
+  RoleConditionConfig,
+  RoleInheritanceShape,
+  ThisRewrite,
+  TupleCondition,
+  TupleToUsersetRewrite,
+  UnionRewrite,
+} from "./types";
+import type {
+  PolicyDocument,
+  Policies,
+  ResourceDocument,
+  ResourceRole,
 } from "./types";
-import type { Policies, ResourceRole } from "./types";
 import { hasRole as runtimeHasRole } from "./has";
+import { compileCaveat } from "./caveats";
 
 /**
- * Creates an access control builder for defining and checking permissions in a Zanzibar-based authorization system.
+ * Declares a role condition backed by the plugin's relationship store.
  *
- * This function implements the builder pattern to construct access control policies step by step:
- * 1. Define available resources and their actions
- * 2. Define roles that group actions for each resource
- * 3. Add conditions (business logic) for role evaluation
- * 4. Check permissions at runtime
+ * The role is granted when a tuple `resourceType:resourceId#relation@user:userId` exists.
  *
  * @example
  * ```typescript
- * const accessControl = createAccessControl({
- *   documents: ['read', 'write', 'delete'] as const,
- *   projects: ['view', 'edit', 'manage'] as const,
+ * .roleConditions({
+ *   documents: {
+ *     editor: relation('editor'),
+ *   },
  * })
- *   .resourceRoles({
- *     documents: [
- *       { name: 'viewer', actions: ['read'] },
- *       { name: 'editor', actions: ['read', 'write'] },
- *       { name: 'admin', actions: ['read', 'write', 'delete'] },
- *     ],
- *     projects: [
- *       { name: 'member', actions: ['view'] },
- *       { name: 'maintainer', actions: ['view', 'edit'] },
- *       { name: 'owner', actions: ['view', 'edit', 'manage'] },
- *     ],
- *   })
- *   .roleConditions({
- *     documents: {
- *       viewer: async (userId, documentId) => {
- *         // Check if user has read access to document
- *         return await hasDocumentAccess(userId, documentId, 'read');
- *       },
- *       editor: async (userId, documentId) => {
- *         // Check if user has write access to document
- *         return await hasDocumentAccess(userId, documentId, 'write');
- *       },
- *     },
- *   });
+ * ```
  *
- * // Check permissions at runtime
- * const canEdit = await accessControl.hasRole('documents', 'editor', userId, documentId);
+ * @param name - The relation the tuple must carry (usually the role name)
+ * @returns A tuple condition for use in `roleConditions`
+ */
+export function relation(name: string): TupleCondition {
+  return { type: "tuple", relation: name };
+}
+
+/**
+ * Zanzibar `_this`: the role is granted by tuples whose relation is the role's own name.
+ *
+ * @example
+ * ```typescript
+ * editor: union(thisRelation(), computedUserset('owner'))
  * ```
  *
- * @template TResources - Shape defining available resources and their actions
- * @param resources - Object mapping resource types to their available actions
- * @returns Object with `resourceRoles` method to define roles
+ * @returns A `this` rewrite for use in `roleConditions`
  */
-export function createAccessControl<TResources extends ResourcesShape>(
-  resources: TResources
+export function thisRelation(): ThisRewrite {
+  return { type: "this" };
+}
+
+/**
+ * Zanzibar `computed_userset`: holding another role on the same resource implies this role.
+ *
+ * @example
+ * ```typescript
+ * // Editors are implicitly viewers
+ * viewer: union(thisRelation(), computedUserset('editor'))
+ * ```
+ *
+ * @param role - The role on the same resource that implies the role being defined
+ * @returns A computed userset rewrite for use in `roleConditions`
+ */
+export function computedUserset(role: string): ComputedUsersetRewrite {
+  return { type: "computedUserset", role };
+}
+
+/**
+ * Zanzibar `tuple_to_userset`: the role is inherited from the resources reached through a relation.
+ *
+ * @example
+ * ```typescript
+ * // Folder viewers can view every document in the folder (documents:<id>#parent@folders:<folderId>)
+ * viewer: union(thisRelation(), tupleToUserset('parent', 'viewer'))
+ * ```
+ *
+ * @param tupleset - The relation on this resource pointing at parent resources
+ * @param role - The role evaluated on each parent resource
+ * @returns A tuple-to-userset rewrite for use in `roleConditions`
+ */
+export function tupleToUserset(
+  tupleset: string,
+  role: string
+): TupleToUsersetRewrite {
+  return { type: "tupleToUserset", tupleset, computedUserset: role };
+}
+
+/**
+ * Granted when any of the given conditions is satisfied.
+ *
+ * @param children - Conditions to combine
+ * @returns A union rewrite for use in `roleConditions`
+ */
+export function union(...children: RoleCondition[]): UnionRewrite {
+  return { type: "union", children };
+}
+
+/**
+ * Granted when every given condition is satisfied.
+ *
+ * @param children - Conditions to combine
+ * @returns An intersection rewrite for use in `roleConditions`
+ */
+export function intersection(
+  ...children: RoleCondition[]
+): IntersectionRewrite {
+  return { type: "intersection", children };
+}
+
+/**
+ * Granted when `base` is satisfied and `subtract` is not.
+ *
+ * @example
+ * ```typescript
+ * // Members who are not blocked
+ * viewer: exclusion(relation('member'), relation('blocked'))
+ * ```
+ *
+ * @param base - The condition that must hold
+ * @param subtract - The condition that must not hold
+ * @returns An exclusion rewrite for use in `roleConditions`
+ */
+export function exclusion(
+  base: RoleCondition,
+  subtract: RoleCondition
+): ExclusionRewrite {
+  return { type: "exclusion", base, subtract };
+}
+
+/**
+ * Marks a function condition as global: it depends on the user and the check context only,
+ * and is evaluated by checks made without a resource ID, receiving `undefined` as the
+ * resource ID. Other function conditions are only global when they take the user ID alone.
+ *
+ * @example
+ * ```typescript
+ * .roleConditions({
+ *   user: {
+ *     siteAdmin: globalCondition(async (userId, _resourceId, context) =>
+ *       (await isSiteAdmin(userId)) && context?.mfa === true
+ *     ),
+ *   },
+ * })
+ * ```
+ *
+ * @param condition - Evaluates the role from the user ID and the check context
+ * @returns The same function, for use in `roleConditions`
+ */
+export function globalCondition<TContext = CheckContext>(
+  condition: (
+    userId: string,
+    resourceId: undefined,
+    context: TContext | undefined
+  ) => Promise<boolean>
+): RelationshipFunction<TContext> {
+  globalConditions.add(condition as unknown as RelationshipFunction);
+  return condition as unknown as RelationshipFunction<TContext>;
+}
+
+/**
+ * Checks whether checks made without a resource ID evaluate a function condition: it is
+ * marked with `globalCondition`, or takes the user ID alone.
+ *
+ * @param condition - A function condition, as found in built policies
+ * @returns True if the condition is global
+ */
+export function isGlobalCondition(condition: RelationshipFunction): boolean {
+  const original = wrappedConditions.get(condition) ?? condition;
+  return globalConditions.has(original) || condition.length <= 1;
+}
+
+/**
+ * Deny rules and combining algorithm carried from `denyRules` to `roleConditions`.
+ */
+interface DenyConfig {
+  rules?: Partial<Record<string, readonly DenyRule[]>>;
+  combiningAlgorithm?: CombiningAlgorithm;
+}
+
+const COMBINING_ALGORITHMS: readonly CombiningAlgorithm[] = [
+  "deny-overrides",
+  "permit-overrides",
+  "first-applicable",
+];
+
+/**
+ * Normalizes a `roleConditions` entry to its object form.
+ */
+function toConditionConfig(
+  value: RoleCondition | RoleConditionConfig
+): RoleConditionConfig {
+  return typeof value === "object" && "condition" in value
+    ? value
+    : { condition: value };
+}
+
+/**
+ * Original function conditions of the wrappers created by `roleConditions`, `null` for roles
+ * declared without a condition. Lets `exportPolicies` find them in the condition registry.
+ */
+const wrappedConditions = new WeakMap<
+  RelationshipFunction,
+  RelationshipFunction | null
+>();
+
+/**
+ * Wrapper of each function condition, reused across builds so that rebuilding the same
+ * policies yields equal conditions (see `updatePolicies`).
+ */
+const conditionWrappers = new WeakMap<
+  RelationshipFunction,
+  RelationshipFunction
+>();
+
+/**
+ * Function conditions marked with `globalCondition`.
+ */
+const globalConditions = new WeakSet<RelationshipFunction>();
+
+/**
+ * Condition of the roles declared without one.
+ */
+const neverGranted: RelationshipFunction = async () => false;
+wrappedConditions.set(neverGranted, null);
+
+/**
+ * Wraps a role's function condition (or its absence, which never grants the role).
+ */
+function wrapCondition(
+  cond: RelationshipFunction | undefined
+): RelationshipFunction {
+  if (!cond) return neverGranted;
+  let wrapper = conditionWrappers.get(cond);
+  if (!wrapper) {
+    wrapper = async (
+      userId: string,
+      resourceId: string,
+      context: CheckContext | undefined
+    ) => cond(userId, resourceId, context);
+    // Checks without a resource ID tell global conditions apart by their arity
+    Object.defineProperty(wrapper, "length", { value: cond.length });
+    conditionWrappers.set(cond, wrapper);
+    wrappedConditions.set(wrapper, cond);
+  }
+  return wrapper;
+}
+
+/**
+ * Validates a rewrite tree and collects the roles it references through computed usersets.
+ */
+function validateRewrite(
+  condition: RoleCondition,
+  resource: string,
+  roleName: string,
+  definedRoles: ReadonlySet<string>,
+  allRoles: ReadonlySet<string>,
+  computed: Set<string>
+): void {
+  if (typeof condition === "function") return;
+  switch (condition.type) {
+    case "this":
+    case "tuple":
+      return;
+    case "computedUserset":
+      if (!definedRoles.has(condition.role)) {
+        throw new Error(
+          `Unknown role '${condition.role}' in computed userset of role '${roleName}' for resource '${resource}'`
+        );
+      }
+      computed.add(condition.role);
+      return;
+    case "tupleToUserset":
+      if (!allRoles.has(condition.computedUserset)) {
+        throw new Error(
+          `Unknown role '${condition.computedUserset}' in tuple-to-userset of role '${roleName}' for resource '${resource}'`
+        );
+      }
+      return;
+    case "union":
+    case "intersection":
+      for (const child of condition.children) {
+        validateRewrite(
+          child,
+          resource,
+          roleName,
+          definedRoles,
+          allRoles,
+          computed
+        );
+      }
+      return;
+    case "exclusion":
+      validateRewrite(
+        condition.base,
+        resource,
+        roleName,
+        definedRoles,
+        allRoles,
+        computed
+      );
+      validateRewrite(
+        condition.subtract,
+        resource,
+        roleName,
+        definedRoles,
+        allRoles,
+        computed
+      );
+      return;
+    default:
+      throw new Error(
+        `Unknown rewrite '${
+          (condition as { type?: string }).type
+        }' in role '${roleName}' for resource '${resource}'`
+      );
+  }
+}
+
+/**
+ * Throws if role references on a resource form a cycle (e.g. viewer -> editor -> viewer).
+ */
+function assertNoCycles(
+  resource: string,
+  edges: ReadonlyMap<string, ReadonlySet<string>>,
+  what: string
+): void {
+  const done = new Set<string>();
+  const visit = (role: string, path: string[]) => {
+    if (path.includes(role)) {
+      throw new Error(
+        `Cyclic ${what} '${[...path, role].join(
+          " -> "
+        )}' for resource '${resource}'`
+      );
+    }
+    if (done.has(role)) return;
+    for (const next of edges.get(role) ?? []) visit(next, [...path, role]);
+    done.add(role);
+  };
+  for (const role of edges.keys()) visit(role, []);
+}
+
+/**
+ * A role as declared with `resourceRoles`.
+ */
+interface BuilderRole {
+  name: string;
+  actions: readonly string[];
+  inherits?: readonly string[];
+}
+
+/**
+ * Maps each role of a resource to the roles directly inheriting it.
+ */
+function roleInheritors(
+  roles: ReadonlyArray<BuilderRole>
+): Map<string, string[]> {
+  const inheritors = new Map<string, string[]>();
+  for (const role of roles) {
+    for (const inherited of role.inherits ?? []) {
+      inheritors.set(inherited, [
+        ...(inheritors.get(inherited) ?? []),
+        role.name,
+      ]);
+    }
+  }
+  return inheritors;
+}
+
+/**
+ * A role's own actions followed by those of the roles it inherits, transitively.
+ */
+function inheritedActions(
+  role: BuilderRole,
+  roles: ReadonlyArray<BuilderRole>
+): string[] {
+  const actions = new Set(role.actions);
+  for (const inherited of role.inherits ?? []) {
+    const parent = roles.find((r) => r.name === inherited);
+    if (parent) {
+      for (const action of inheritedActions(parent, roles)) actions.add(action);
+    }
+  }
+  return [...actions];
+}
+
+/**
+ * Builds the access control steps for resources whose conditions receive a `TContext`,
+ * attaching the declared caveats to every resource definition.
+ */
+function accessControlBuilder<
+  TResources extends ResourcesShape,
+  TContext extends CheckContext
+>(
+  resources: TResources,
+  caveats: Readonly<Record<string, CaveatDefinition>> = {}
 ) {
   /**
    * Defines roles for each resource type, where each role groups together specific actions.
    *
+   * A role can `inherit` other roles of the same resource: it is granted their actions, and
+   * holding it implies holding them, so `hasRole('documents', 'viewer', ...)` is true for
+   * editors below. Inheritance is transitive.
+   *
    * This function validates that:
    * - All referenced resources exist in the original resources definition
    * - All actions in roles are valid actions for their respective resources
+   * - Inherited roles exist on the same resource and inheritance has no cycles
    *
    * @example
    * ```typescript
    * .resourceRoles({
    *   documents: [
    *     { name: 'viewer', actions: ['read'] },
-   *     { name: 'editor', actions: ['read', 'write'] },
+   *     { name: 'editor', actions: ['write'], inherits: ['viewer'] },
+   *     { name: 'admin', actions: ['delete'], inherits: ['editor'] },
    *   ]
    * })
    * ```
    *
    * @template TRoles - Shape defining roles for each resource type
    * @param roles - Object mapping resource types to arrays of role definitions
-   * @returns Object with `roleConditions` method to add business logic
+   * @returns Object with `denyRules` and `roleConditions` methods to add business logic
    */
   function resourceRoles<
-    TRoles extends {
+    const TRoles extends {
       readonly [K in keyof TResources]?: ReadonlyArray<{
         name: string;
         actions: ReadonlyArray<TResources[K][number]>;
+        inherits?: ReadonlyArray<string>;
       }>;
     }
-  >(roles: TRoles) {
-    // Runtime validation: resources and actions
+  >(roles: TRoles & RoleInheritanceShape<TRoles>) {
+    // Runtime validation: resources, actions and inherited roles
     for (const [resource, roleList] of Object.entries(roles)) {
       if (!(resource in resources)) {
         throw new Error(`Unknown resource '${resource}' in roles`);
       }
       const allowedActions = new Set(resources[resource as keyof TResources]);
-      for (const role of roleList ?? []) {
+      const definedRoles = new Set<string>(
+        (roleList ?? []).map((role: { name: string }) => role.name)
+      );
+      const edges = new Map<string, Set<string>>();
+      for (const role of (roleList ?? []) as ReadonlyArray<BuilderRole>) {
         for (const action of role.actions) {
           if (!allowedActions.has(action as string)) {
             throw new Error(
@@ -100,7 +466,16 @@ export function createAccessControl<TResources extends ResourcesShape>(
             );
           }
         }
+        for (const inherited of role.inherits ?? []) {
+          if (!definedRoles.has(inherited)) {
+            throw new Error(
+              `Unknown role '${inherited}' inherited by role '${role.name}' for resource '${resource}'`
+            );
+          }
+        }
+        edges.set(role.name, new Set(role.inherits));
       }
+      assertNoCycles(resource, edges, "role inheritance");
     }
 
     type RoleNameMap = {
@@ -115,12 +490,21 @@ export function createAccessControl<TResources extends ResourcesShape>(
      * Adds business logic conditions for role evaluation.
      *
      * Conditions are async functions that implement the actual permission logic.
-     * They receive the user ID and resource ID and return a boolean indicating
-     * whether the user should be granted the role for that specific resource.
+     * They receive the user ID, resource ID and the check's `context` (if any) and return
+     * a boolean indicating whether the user should be granted the role for that specific
+     * resource.
+     * Alternatively, a condition can be declared with `relation('name')`, in which case
+     * the role is granted when a matching tuple exists in the plugin's relationship store,
+     * or as a Zanzibar userset rewrite built from `thisRelation`, `computedUserset`,
+     * `tupleToUserset`, `union`, `intersection` and `exclusion`. Use the object form
+     * `{ condition, enumerate }` to let `lookupResources` list the resources a function
+     * condition grants, and `{ condition, batch }` to let `checkBulk` evaluate many
+     * resources with one query.
      *
      * This function validates that:
      * - All referenced resources exist
      * - All referenced roles have been defined in the previous step
+     * - Userset rewrites reference existing roles and computed usersets do not form cycles
      *
      * @example
      * ```typescript
@@ -130,15 +514,23 @@ export function createAccessControl<TResources extends ResourcesShape>(
      *       // Custom logic: check if user is owner or has been shared the document
      *       return await isDocumentOwner(userId, documentId) ||
      *              await isDocumentSharedWith(userId, documentId);
-     *     }
+     *     },
+     *     // Granted when the tuple documents:<id>#editor@user:<userId> exists
+     *     editor: relation('editor'),
+     *     // Direct admins, plus admins of the parent folder
+     *     admin: union(thisRelation(), tupleToUserset('parent', 'admin')),
      *   }
      * })
      * ```
      *
      * @param conditions - Object mapping resource types to role condition functions
+     * @param deny - Deny rules and combining algorithm, as declared with `denyRules`
      * @returns Complete policies object for use with ZanzibarPlugin
      */
-    function roleConditions(conditions: ConditionsShape<TResources, TRoles>) {
+    function roleConditions(
+      conditions: ConditionsShape<TResources, TRoles, TContext>,
+      deny: DenyConfig = {}
+    ) {
       // Runtime validation: referenced resources/roles exist
       for (const [resource, roleMap] of Object.entries(conditions)) {
         if (!(resource in resources)) {
@@ -156,26 +548,86 @@ export function createAccessControl<TResources extends ResourcesShape>(
         }
       }
 
+      // Runtime validation: userset rewrites reference existing roles without cycles
+      const allRoles = new Set<string>(
+        Object.values(roles).flatMap(
+          (roleList: any) => roleList?.map((r: any) => r.name) ?? []
+        )
+      );
+      for (const [resource, roleMap] of Object.entries(conditions)) {
+        const definedRoles = new Set<string>(
+          (roles as any)[resource]?.map((r: any) => r.name) ?? []
+        );
+        // Inherited roles are granted through computed usersets to the roles inheriting them
+        const inheritors = roleInheritors((roles as any)[resource] ?? []);
+        const edges = new Map<string, Set<string>>();
+        for (const [roleName, condition] of Object.entries(roleMap ?? {})) {
+          const computed = new Set<string>(inheritors.get(roleName));
+          validateRewrite(
+            toConditionConfig(condition as RoleCondition).condition,
+            resource,
+            roleName,
+            definedRoles,
+            allRoles,
+            computed
+          );
+          edges.set(roleName, computed);
+        }
+        for (const [roleName, names] of inheritors) {
+          if (!edges.has(roleName)) edges.set(roleName, new Set(names));
+        }
+        assertNoCycles(resource, edges, "computed userset");
+      }
+
       // Build Policies object for ZanzibarPlugin
       const policy = Object.keys(resources).reduce((acc, resourceType) => {
         const actions = [...(resources as any)[resourceType]] as string[];
-        const roleDefs = ((roles as any)[resourceType] ?? []) as ReadonlyArray<{
-          name: string;
-          actions: readonly string[];
-        }>;
+        const roleDefs = ((roles as any)[resourceType] ??
+          []) as ReadonlyArray<BuilderRole>;
         const resourceConditions = (conditions as any)[resourceType] ?? {};
-        const roleEntries: ResourceRole[] = roleDefs.map((role) => ({
-          name: role.name,
-          actions: [...role.actions],
-          condition: async (userId: string, resourceId: string) => {
-            const cond = resourceConditions[role.name] as
-              | RelationshipFunction
-              | undefined;
-            if (!cond) return false;
-            return cond(userId, resourceId);
-          },
-        }));
-        (acc as any)[resourceType] = { actions, roles: roleEntries };
+        const inheritors = roleInheritors(roleDefs);
+        const roleEntries: ResourceRole[] = roleDefs.map((role) => {
+          const entry = resourceConditions[role.name] as
+            | RoleCondition
+            | RoleConditionConfig
+            | undefined;
+          const config = entry ? toConditionConfig(entry) : undefined;
+          const cond = config?.condition;
+          const own =
+            cond && typeof cond !== "function"
+              ? cond
+              : wrapCondition(cond as RelationshipFunction | undefined);
+          const inheritedBy = (inheritors.get(role.name) ?? []).map(
+            computedUserset
+          );
+          return {
+            name: role.name,
+            actions: inheritedActions(role, roleDefs),
+            condition:
+              inheritedBy.length === 0
+                ? own
+                : own === neverGranted
+                ? union(...inheritedBy)
+                : union(own, ...inheritedBy),
+            ...(config?.enumerate && { enumerate: config.enumerate }),
+            ...(config?.batch && { batch: config.batch }),
+          };
+        });
+        const denyRuleEntries = deny.rules?.[resourceType];
+        (acc as any)[resourceType] = {
+          actions,
+          roles: roleEntries,
+          ...(denyRuleEntries && {
+            denyRules: denyRuleEntries.map((rule) => ({
+              ...rule,
+              actions: [...rule.actions],
+            })),
+          }),
+          ...(deny.combiningAlgorithm && {
+            combiningAlgorithm: deny.combiningAlgorithm,
+          }),
+          ...(Object.keys(caveats).length > 0 && { caveats }),
+        };
         return acc;
       }, {} as Policies);
 
@@ -204,6 +656,7 @@ export function createAccessControl<TResources extends ResourcesShape>(
      * @param roleName - The role to check for the user
      * @param userId - ID of the user to check permissions for
      * @param resourceId - ID of the specific resource instance
+     * @param context - Attributes forwarded to condition functions
      * @returns Promise resolving to true if user has the role, false otherwise
      * @throws Error if resource type or role name is not recognized
      */
@@ -214,7 +667,8 @@ export function createAccessControl<TResources extends ResourcesShape>(
       resourceType: K,
       roleName: R,
       userId: string,
-      resourceId: string
+      resourceId: string,
+      context?: TContext
     ): Promise<boolean> {
       if (!(resourceType in resources)) {
         throw new Error(`Unknown resource '${resourceType}'`);
@@ -233,12 +687,720 @@ export function createAccessControl<TResources extends ResourcesShape>(
         resourceType as string,
         roleName as string,
         userId,
-        resourceId
+        resourceId,
+        context && { context }
+      );
+    }
+
+    /**
+     * Declares rules denying actions whenever their condition holds, whatever roles the
+     * user has, and how they combine with roles.
+     *
+     * With the default `deny-overrides` algorithm a matching deny rule always wins;
+     * `permit-overrides` lets any granting role win, and `first-applicable` evaluates roles
+     * in declaration order with each deny rule placed just before its `before` role (or
+     * before every role). Deny rule conditions accept the same functions and userset
+     * rewrites as role conditions; `thisRelation()` reads tuples named after the rule.
+     *
+     * This function validates that:
+     * - All referenced resources exist and actions belong to them
+     * - `before` names a role of the resource
+     * - Rule names are unique per resource and rewrites reference existing roles
+     *
+     * @example
+     * ```typescript
+     * .denyRules({
+     *   documents: [
+     *     // Suspended users may never delete, whatever role they hold
+     *     { name: 'suspended', actions: ['delete'], condition: async (userId) => isSuspended(userId) },
+     *   ],
+     * })
+     * .roleConditions({ ... })
+     * ```
+     *
+     * @param rules - Object mapping resource types to their deny rules
+     * @param options - The combining algorithm applied to every resource (default: the engine's)
+     * @returns Object with `roleConditions` method to add business logic
+     */
+    function denyRules(
+      rules: DenyRulesShape<TResources, TContext>,
+      options: { combiningAlgorithm?: CombiningAlgorithm } = {}
+    ) {
+      if (
+        options.combiningAlgorithm !== undefined &&
+        !COMBINING_ALGORITHMS.includes(options.combiningAlgorithm)
+      ) {
+        throw new Error(
+          `Unknown combining algorithm '${options.combiningAlgorithm}'`
+        );
+      }
+      const allRoles = new Set<string>(
+        Object.values(roles).flatMap(
+          (roleList: any) => roleList?.map((r: any) => r.name) ?? []
+        )
       );
+      for (const [resource, ruleList] of Object.entries(rules)) {
+        if (!(resource in resources)) {
+          throw new Error(`Unknown resource '${resource}' in deny rules`);
+        }
+        const allowedActions = new Set(resources[resource as keyof TResources]);
+        const definedRoles = new Set<string>(
+          (roles as any)[resource]?.map((r: any) => r.name) ?? []
+        );
+        const names = new Set<string>();
+        for (const rule of (ruleList ?? []) as readonly DenyRule[]) {
+          if (names.has(rule.name)) {
+            throw new Error(
+              `Duplicate deny rule '${rule.name}' for resource '${resource}'`
+            );
+          }
+          names.add(rule.name);
+          for (const action of rule.actions) {
+            if (!allowedActions.has(action)) {
+              throw new Error(
+                `Unknown action '${action}' in deny rule '${rule.name}' for resource '${resource}'`
+              );
+            }
+          }
+          if (rule.before !== undefined && !definedRoles.has(rule.before)) {
+            throw new Error(
+              `Unknown role '${rule.before}' before deny rule '${rule.name}' for resource '${resource}'`
+            );
+          }
+          validateRewrite(
+            rule.condition,
+            resource,
+            rule.name,
+            definedRoles,
+            allRoles,
+            new Set()
+          );
+        }
+      }
+
+      const deny: DenyConfig = {
+        rules: rules as DenyConfig["rules"],
+        combiningAlgorithm: options.combiningAlgorithm,
+      };
+      return {
+        roleConditions: (
+          conditions: ConditionsShape<TResources, TRoles, TContext>
+        ) => roleConditions(conditions, deny),
+        hasRole,
+      } as const;
     }
 
-    return { roleConditions, hasRole } as const;
+    return { denyRules, roleConditions, hasRole } as const;
   }
 
   return { resourceRoles } as const;
 }
+
+/**
+ * Creates an access control builder for defining and checking permissions in a Zanzibar-based authorization system.
+ *
+ * This function implements the builder pattern to construct access control policies step by step:
+ * 1. Define available resources and their actions
+ * 2. Define roles that group actions for each resource
+ * 3. Add conditions (business logic) for role evaluation
+ * 4. Check permissions at runtime
+ *
+ * @example
+ * ```typescript
+ * const accessControl = createAccessControl({
+ *   documents: ['read', 'write', 'delete'] as const,
+ *   projects: ['view', 'edit', 'manage'] as const,
+ * })
+ *   .resourceRoles({
+ *     documents: [
+ *       { name: 'viewer', actions: ['read'] },
+ *       { name: 'editor', actions: ['read', 'write'] },
+ *       { name: 'admin', actions: ['read', 'write', 'delete'] },
+ *     ],
+ *     projects: [
+ *       { name: 'member', actions: ['view'] },
+ *       { name: 'maintainer', actions: ['view', 'edit'] },
+ *       { name: 'owner', actions: ['view', 'edit', 'manage'] },
+ *     ],
+ *   })
+ *   .roleConditions({
+ *     documents: {
+ *       viewer: async (userId, documentId) => {
+ *         // Check if user has read access to document
+ *         return await hasDocumentAccess(userId, documentId, 'read');
+ *       },
+ *       editor: async (userId, documentId) => {
+ *         // Check if user has write access to document
+ *         return await hasDocumentAccess(userId, documentId, 'write');
+ *       },
+ *     },
+ *   });
+ *
+ * // Check permissions at runtime
+ * const canEdit = await accessControl.hasRole('documents', 'editor', userId, documentId);
+ *
+ * // Type the check context passed to conditions
+ * createAccessControl(resources)
+ *   .withContext<{ ip: string }>()
+ *   .resourceRoles({ ... })
+ *   .roleConditions({
+ *     documents: { viewer: async (userId, documentId, context) => context?.ip === OFFICE_IP },
+ *   });
+ * ```
+ *
+ * @template TResources - Shape defining available resources and their actions
+ * @param resources - Object mapping resource types to their available actions
+ * @returns Object with `resourceRoles` method to define roles, `caveats` to declare caveats,
+ *   and `withContext` to type the check context conditions receive
+ */
+export function createAccessControl<TResources extends ResourcesShape>(
+  resources: TResources
+) {
+  return {
+    ...caveatsStep<TResources, CheckContext>(resources),
+    /**
+     * Declares the shape of the `context` passed to checks, typing the third argument of
+     * condition functions and the `context` argument of `hasRole`.
+     *
+     * @template TContext - The shape of the check context
+     * @returns Object with `caveats` and `resourceRoles` methods
+     */
+    withContext: <TContext extends CheckContext>() =>
+      caveatsStep<TResources, TContext>(resources),
+  } as const;
+}
+
+/**
+ * Adds the `caveats` step in front of `resourceRoles`.
+ */
+function caveatsStep<
+  TResources extends ResourcesShape,
+  TContext extends CheckContext
+>(resources: TResources) {
+  /**
+   * Declares caveats: named, parameterized expressions that relationship tuples can carry
+   * through `caveatName` and `caveatContext`. A caveated tuple only applies when its
+   * expression holds for the tuple's context merged over the check's `context`.
+   *
+   * This function validates that every expression parses and only reads declared
+   * parameters and built-in functions.
+   *
+   * @example
+   * ```typescript
+   * createAccessControl(resources)
+   *   .caveats({
+   *     not_expired: { parameters: { expires_at: 'timestamp' }, expression: 'now < expires_at' },
+   *     office_network: {
+   *       parameters: { ip: 'string', allowed_cidrs: 'list' },
+   *       expression: 'in_cidr(ip, allowed_cidrs)',
+   *     },
+   *   })
+   *   .resourceRoles({ ... })
+   * ```
+   *
+   * @param definitions - Object mapping caveat names to their parameters and expression
+   * @returns Object with `resourceRoles` method to define roles
+   * @throws Error if a caveat is invalid
+   */
+  function caveats(definitions: Readonly<Record<string, CaveatDefinition>>) {
+    for (const [name, definition] of Object.entries(definitions)) {
+      compileCaveat(name, definition);
+    }
+    return accessControlBuilder<TResources, TContext>(resources, definitions);
+  }
+
+  return {
+    ...accessControlBuilder<TResources, TContext>(resources),
+    caveats,
+  } as const;
+}
+
+/**
+ * Version of the policy document format read by `importPolicies` and written by `exportPolicies`.
+ */
+export const POLICY_DOCUMENT_VERSION = 1;
+
+/**
+ * Error thrown by `importPolicies` and `exportPolicies` when a policy document is malformed
+ * or cannot be mapped to or from policies, listing every problem found.
+ */
+export class PolicyDocumentError extends Error {
+  /** The problems found, each prefixed with its location in the document */
+  readonly issues: readonly string[];
+
+  constructor(message: string, issues: readonly string[] = []) {
+    super(
+      issues.length > 0 ? `${message}:\n- ${issues.join("\n- ")}` : message
+    );
+    this.name = "PolicyDocumentError";
+    this.issues = issues;
+  }
+}
+
+const nameSchema = z.string().min(1);
+
+const conditionDocumentSchema: z.ZodType<ConditionDocument> = z.lazy(() =>
+  z.discriminatedUnion("type", [
+    z.strictObject({ type: z.literal("tuple"), relation: nameSchema }),
+    z.strictObject({ type: z.literal("this") }),
+    z.strictObject({ type: z.literal("computedUserset"), role: nameSchema }),
+    z.strictObject({
+      type: z.literal("tupleToUserset"),
+      tupleset: nameSchema,
+      computedUserset: nameSchema,
+    }),
+    z.strictObject({
+      type: z.literal("union"),
+      children: z.array(conditionDocumentSchema),
+    }),
+    z.strictObject({
+      type: z.literal("intersection"),
+      children: z.array(conditionDocumentSchema),
+    }),
+    z.strictObject({
+      type: z.literal("exclusion"),
+      base: conditionDocumentSchema,
+      subtract: conditionDocumentSchema,
+    }),
+    z.strictObject({ type: z.literal("handler"), name: nameSchema }),
+  ])
+);
+
+/**
+ * Zod schema of policy documents. Unknown properties are rejected, so misspelled keys are
+ * reported instead of silently ignored; caveat parameter types are checked on import.
+ */
+export const policyDocumentSchema: z.ZodType<PolicyDocument> = z.strictObject({
+  version: z.literal(POLICY_DOCUMENT_VERSION),
+  resources: z.record(
+    nameSchema,
+    z.strictObject({
+      actions: z.array(nameSchema),
+      roles: z.array(
+        z.strictObject({
+          name: nameSchema,
+          actions: z.array(nameSchema),
+          condition: conditionDocumentSchema.optional(),
+          subjectTypes: z.array(nameSchema).optional(),
+        })
+      ),
+      denyRules: z
+        .array(
+          z.strictObject({
+            name: nameSchema,
+            actions: z.array(nameSchema),
+            condition: conditionDocumentSchema,
+            before: nameSchema.optional(),
+          })
+        )
+        .optional(),
+      combiningAlgorithm: z
+        .enum(
+          COMBINING_ALGORITHMS as [CombiningAlgorithm, ...CombiningAlgorithm[]]
+        )
+        .optional(),
+      caveats: z
+        .record(
+          nameSchema,
+          z.strictObject({
+            parameters: z.record(
+              nameSchema,
+              z.string() as z.ZodType<CaveatParameterType>
+            ),
+            expression: z.string(),
+          })
+        )
+        .optional(),
+    })
+  ),
+});
+
+/**
+ * Formats a document location the way it would be written in code (`resources.docs.roles[0]`).
+ */
+function formatPath(path: readonly PropertyKey[]): string {
+  return path
+    .map((key, index) =>
+      typeof key === "number"
+        ? `[${key}]`
+        : `${index > 0 ? "." : ""}${String(key)}`
+    )
+    .join("");
+}
+
+/**
+ * Serializes a role condition, naming function conditions after their registry entry.
+ * Returns `undefined` for the wrapper of a role declared without a condition.
+ */
+function toConditionDocument(
+  condition: RoleCondition,
+  location: string,
+  handlerNames: ReadonlyMap<RelationshipFunction, string>,
+  issues: string[]
+): ConditionDocument | undefined {
+  if (typeof condition === "function") {
+    const original = wrappedConditions.has(condition)
+      ? wrappedConditions.get(condition)
+      : condition;
+    if (!original) return undefined;
+    const name = handlerNames.get(original);
+    if (name === undefined) {
+      issues.push(
+        `${location}: function condition is not in the condition registry`
+      );
+    }
+    return { type: "handler", name: name ?? "" };
+  }
+  const child = (value: RoleCondition, path: string) =>
+    toConditionDocument(value, path, handlerNames, issues) as ConditionDocument;
+  switch (condition.type) {
+    case "tuple":
+      return { type: "tuple", relation: condition.relation };
+    case "this":
+      return { type: "this" };
+    case "computedUserset":
+      return { type: "computedUserset", role: condition.role };
+    case "tupleToUserset":
+      return {
+        type: "tupleToUserset",
+        tupleset: condition.tupleset,
+        computedUserset: condition.computedUserset,
+      };
+    case "union":
+    case "intersection":
+      return {
+        type: condition.type,
+        children: condition.children.map((value, index) =>
+          child(value, `${location}.children[${index}]`)
+        ),
+      };
+    case "exclusion":
+      return {
+        type: "exclusion",
+        base: child(condition.base, `${location}.base`),
+        subtract: child(condition.subtract, `${location}.subtract`),
+      };
+  }
+}
+
+/**
+ * Serializes policies to a JSON policy document.
+ *
+ * Userset rewrites, deny rules, subject types and caveats are written as they are. Function
+ * conditions cannot be serialized: each must be an entry of `conditionRegistry` and is
+ * written as a reference to its name, to be resolved by `importPolicies` against the same
+ * registry. A role's `enumerate` and `batch` functions are not written; they come back from
+ * the registry entry in object form.
+ *
+ * @example
+ * ```typescript
+ * const conditions = { isOrgMember: async (userId, orgId) => db.isMember(userId, orgId) };
+ * const document = exportPolicies(policies, conditions);
+ * await fs.writeFile('policies.json', JSON.stringify(document, null, 2));
+ * ```
+ *
+ * @param policies - The policies to serialize
+ * @param conditionRegistry - Named function conditions used by the policies
+ * @returns The policy document
+ * @throws PolicyDocumentError if a function condition is not in the registry
+ */
+export function exportPolicies(
+  policies: Policies,
+  conditionRegistry: ConditionRegistry = {}
+): PolicyDocument {
+  const handlerNames = new Map<RelationshipFunction, string>();
+  for (const [name, entry] of Object.entries(conditionRegistry)) {
+    const condition = toConditionConfig(entry).condition;
+    if (typeof condition === "function" && !handlerNames.has(condition)) {
+      handlerNames.set(condition, name);
+    }
+  }
+
+  const issues: string[] = [];
+  const resources: Record<string, ResourceDocument> = {};
+  for (const [resourceType, definition] of Object.entries(policies)) {
+    const location = `resources.${resourceType}`;
+    resources[resourceType] = {
+      actions: [...definition.actions],
+      roles: definition.roles.map((role, index) => {
+        const condition = toConditionDocument(
+          role.condition,
+          `${location}.roles[${index}].condition`,
+          handlerNames,
+          issues
+        );
+        return {
+          name: role.name,
+          actions: [...role.actions],
+          ...(condition && { condition }),
+          ...(role.subjectTypes && { subjectTypes: [...role.subjectTypes] }),
+        };
+      }),
+      ...(definition.denyRules && {
+        denyRules: definition.denyRules.map((rule, index) => ({
+          name: rule.name,
+          actions: [...rule.actions],
+          condition: toConditionDocument(
+            rule.condition,
+            `${location}.denyRules[${index}].condition`,
+            handlerNames,
+            issues
+          ) as ConditionDocument,
+          ...(rule.before !== undefined && { before: rule.before }),
+        })),
+      }),
+      ...(definition.combiningAlgorithm && {
+        combiningAlgorithm: definition.combiningAlgorithm,
+      }),
+      ...(definition.caveats && { caveats: { ...definition.caveats } }),
+    };
+  }
+  if (issues.length > 0) {
+    throw new PolicyDocumentError("Cannot export policies", issues);
+  }
+  return { version: POLICY_DOCUMENT_VERSION, resources };
+}
+
+/**
+ * Resolves the handler references of a serialized condition against the registry,
+ * collecting the names it does not contain.
+ */
+function fromConditionDocument(
+  condition: ConditionDocument,
+  location: string,
+  conditionRegistry: ConditionRegistry,
+  unknown: string[]
+): RoleCondition {
+  const child = (value: ConditionDocument, path: string) =>
+    fromConditionDocument(value, path, conditionRegistry, unknown);
+  switch (condition.type) {
+    case "handler": {
+      if (
+        !Object.prototype.hasOwnProperty.call(conditionRegistry, condition.name)
+      ) {
+        unknown.push(`${location}: unknown condition '${condition.name}'`);
+        return wrapCondition(undefined);
+      }
+      return toConditionConfig(conditionRegistry[condition.name]).condition;
+    }
+    case "union":
+      return union(
+        ...condition.children.map((value, index) =>
+          child(value, `${location}.children[${index}]`)
+        )
+      );
+    case "intersection":
+      return intersection(
+        ...condition.children.map((value, index) =>
+          child(value, `${location}.children[${index}]`)
+        )
+      );
+    case "exclusion":
+      return exclusion(
+        child(condition.base, `${location}.base`),
+        child(condition.subtract, `${location}.subtract`)
+      );
+    default:
+      return { ...condition };
+  }
+}
+
+/**
+ * Builds policies from a JSON policy document, such as one written by `exportPolicies`.
+ *
+ * The document is validated against `policyDocumentSchema`, then every `handler` condition
+ * is resolved against `conditionRegistry`; a role whose whole condition is a handler in
+ * object form also gets its `enumerate` and `batch` functions. Roles, actions, deny rules
+ * and caveats are then checked the same way as by `createAccessControl`.
+ *
+ * @example
+ * ```typescript
+ * const document = JSON.parse(await fs.readFile('policies.json', 'utf8'));
+ * const policies = importPolicies(document, {
+ *   isOrgMember: async (userId, orgId) => db.isMember(userId, orgId),
+ * });
+ * ```
+ *
+ * @param document - The parsed policy document
+ * @param conditionRegistry - Named function conditions the document may reference
+ * @returns The policies described by the document
+ * @throws PolicyDocumentError if the document is malformed, has an unsupported version or
+ * references conditions missing from the registry
+ * @throws Error if the document references unknown roles or actions
+ */
+export function importPolicies(
+  document: unknown,
+  conditionRegistry: ConditionRegistry = {}
+): Policies {
+  const version =
+    typeof document === "object" && document !== null
+      ? (document as { version?: unknown }).version
+      : undefined;
+  if (version !== undefined && version !== POLICY_DOCUMENT_VERSION) {
+    throw new PolicyDocumentError(
+      `Unsupported policy document version '${String(
+        version
+      )}' (expected ${POLICY_DOCUMENT_VERSION})`
+    );
+  }
+  const parsed = policyDocumentSchema.safeParse(document);
+  if (!parsed.success) {
+    throw new PolicyDocumentError(
+      "Invalid policy document",
+      parsed.error.issues.map(
+        (issue) => `${formatPath(issue.path) || "document"}: ${issue.message}`
+      )
+    );
+  }
+
+  const unknown: string[] = [];
+  const policies: Policies = {};
+  for (const [resourceType, definition] of Object.entries(
+    parsed.data.resources
+  )) {
+    const location = `resources.${resourceType}`;
+    const roles = definition.roles.map((role, index): ResourceRole => {
+      const path = `${location}.roles[${index}].condition`;
+      const entry =
+        role.condition?.type === "handler" &&
+        Object.prototype.hasOwnProperty.call(
+          conditionRegistry,
+          role.condition.name
+        )
+          ? toConditionConfig(conditionRegistry[role.condition.name])
+          : undefined;
+      return {
+        name: role.name,
+        actions: [...role.actions],
+        condition: role.condition
+          ? fromConditionDocument(
+              role.condition,
+              path,
+              conditionRegistry,
+              unknown
+            )
+          : wrapCondition(undefined),
+        ...(role.subjectTypes && { subjectTypes: [...role.subjectTypes] }),
+        ...(entry?.enumerate && { enumerate: entry.enumerate }),
+        ...(entry?.batch && { batch: entry.batch }),
+      };
+    });
+    const denyRules = definition.denyRules?.map(
+      (rule, index): DenyRule => ({
+        name: rule.name,
+        actions: [...rule.actions],
+        condition: fromConditionDocument(
+          rule.condition,
+          `${location}.denyRules[${index}].condition`,
+          conditionRegistry,
+          unknown
+        ),
+        ...(rule.before !== undefined && { before: rule.before }),
+      })
+    );
+    policies[resourceType] = {
+      actions: [...definition.actions],
+      roles,
+      ...(denyRules && { denyRules }),
+      ...(definition.combiningAlgorithm && {
+        combiningAlgorithm: definition.combiningAlgorithm,
+      }),
+      ...(definition.caveats && { caveats: { ...definition.caveats } }),
+    };
+  }
+  if (unknown.length > 0) {
+    throw new PolicyDocumentError(
+      "Policy document references unknown conditions",
+      unknown
+    );
+  }
+
+  validatePolicies(policies);
+  return policies;
+}
+
+/**
+ * Checks a policy set the way `createAccessControl` checks its inputs: role and deny rule
+ * actions must be declared by their resource, names must be unique, rewrites must reference
+ * existing roles without computed userset cycles, and caveats must compile.
+ *
+ * Policies built with `createAccessControl`, `parseSchema` or `importPolicies` already pass;
+ * use it for policies assembled by hand, or before handing them to `updatePolicies`.
+ *
+ * @param policies - The policies to check
+ * @throws Error describing the first problem found
+ */
+export function validatePolicies(policies: Policies): void {
+  const allRoles = new Set<string>(
+    Object.values(policies).flatMap((definition) =>
+      definition.roles.map((role) => role.name)
+    )
+  );
+  for (const [resource, definition] of Object.entries(policies)) {
+    const allowedActions = new Set(definition.actions);
+    const definedRoles = new Set<string>();
+    const edges = new Map<string, Set<string>>();
+    for (const role of definition.roles) {
+      if (definedRoles.has(role.name)) {
+        throw new Error(
+          `Duplicate role '${role.name}' for resource '${resource}'`
+        );
+      }
+      definedRoles.add(role.name);
+      for (const action of role.actions) {
+        if (!allowedActions.has(action)) {
+          throw new Error(
+            `Unknown action '${action}' for resource '${resource}'`
+          );
+        }
+      }
+    }
+    for (const role of definition.roles) {
+      const computed = new Set<string>();
+      validateRewrite(
+        role.condition,
+        resource,
+        role.name,
+        definedRoles,
+        allRoles,
+        computed
+      );
+      edges.set(role.name, computed);
+    }
+    assertNoCycles(resource, edges, "computed userset");
+
+    const names = new Set<string>();
+    for (const rule of definition.denyRules ?? []) {
+      if (names.has(rule.name)) {
+        throw new Error(
+          `Duplicate deny rule '${rule.name}' for resource '${resource}'`
+        );
+      }
+      names.add(rule.name);
+      for (const action of rule.actions) {
+        if (!allowedActions.has(action)) {
+          throw new Error(
+            `Unknown action '${action}' in deny rule '${rule.name}' for resource '${resource}'`
+          );
+        }
+      }
+      if (rule.before !== undefined && !definedRoles.has(rule.before)) {
+        throw new Error(
+          `Unknown role '${rule.before}' before deny rule '${rule.name}' for resource '${resource}'`
+        );
+      }
+      validateRewrite(
+        rule.condition,
+        resource,
+        rule.name,
+        definedRoles,
+        allRoles,
+        new Set()
+      );
+    }
+
+    for (const [name, caveat] of Object.entries(definition.caveats ?? {})) {
+      compileCaveat(name, caveat);
+    }
+  }
+}
@@ -0,0 +1,931 @@
+import type { CaveatDefinition, CaveatParameterType } from "./types";
+
+/**
+ * Outcome of evaluating a caveat: whether it holds, or the parameters that are missing
+ * from the context to decide.
+ */
+export type CaveatResult = boolean | { missing: string[] };
+
+/**
+ * A caveat whose expression has been parsed and checked against its parameters.
+ */
+export interface CompiledCaveat {
+  /** The caveat name */
+  name: string;
+  /** The definition the caveat was compiled from */
+  definition: CaveatDefinition;
+  /** Whether the expression reads the built-in `now` */
+  usesNow: boolean;
+  /**
+   * Evaluates the caveat.
+   *
+   * @param context - Parameter values; `now` defaults to the current time
+   * @returns True or false, or the missing parameters when the outcome depends on them
+   * @throws CaveatContextError if a context value has the wrong type for its parameter
+   * @throws Error if the expression fails at runtime
+   */
+  evaluate(context: Readonly<Record<string, unknown>>): CaveatResult;
+}
+
+/**
+ * Name of the built-in timestamp holding the time of the check.
+ */
+export const CAVEAT_NOW = "now";
+
+/**
+ * Error thrown when evaluating a caveat against a context value of the wrong type for its
+ * parameter. The context is at fault rather than the caveat, so check endpoints answer it
+ * with `400 BAD_REQUEST`.
+ */
+export class CaveatContextError extends Error {
+  /** The caveat being evaluated */
+  readonly caveat: string;
+  /** The parameter holding the invalid value */
+  readonly parameter: string;
+
+  constructor(caveat: string, parameter: string, message: string) {
+    super(message);
+    this.name = "CaveatContextError";
+    this.caveat = caveat;
+    this.parameter = parameter;
+  }
+}
+
+const PARAMETER_TYPES: readonly CaveatParameterType[] = [
+  "string",
+  "number",
+  "boolean",
+  "timestamp",
+  "duration",
+  "list",
+  "map",
+  "any",
+];
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+interface Token {
+  kind: "number" | "string" | "identifier" | "operator" | "end";
+  text: string;
+  value?: number | string;
+  position: number;
+}
+
+type BinaryOperator =
+  | "||"
+  | "&&"
+  | "=="
+  | "!="
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "in"
+  | "+"
+  | "-"
+  | "*"
+  | "/"
+  | "%";
+
+type ExpressionNode =
+  | { kind: "literal"; value: unknown }
+  | { kind: "identifier"; name: string }
+  | { kind: "list"; items: ExpressionNode[] }
+  | { kind: "unary"; operator: "!" | "-"; operand: ExpressionNode }
+  | {
+      kind: "binary";
+      operator: BinaryOperator;
+      left: ExpressionNode;
+      right: ExpressionNode;
+    }
+  | { kind: "member"; object: ExpressionNode; property: string }
+  | { kind: "index"; object: ExpressionNode; index: ExpressionNode }
+  | { kind: "call"; name: string; args: ExpressionNode[] };
+
+const OPERATORS = [
+  "||",
+  "&&",
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "<",
+  ">",
+  "!",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "(",
+  ")",
+  "[",
+  "]",
+  ",",
+  ".",
+];
+
+const RELATIONAL_OPERATORS = new Set(["==", "!=", "<", "<=", ">", ">=", "in"]);
+
+const ESCAPES: Record<string, string> = {
+  n: "\n",
+  t: "\t",
+  r: "\r",
+  "\\": "\\",
+  "'": "'",
+  '"': '"',
+};
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+  while (position < source.length) {
+    const char = source[position];
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+    const start = position;
+    if (/[0-9]/.test(char)) {
+      const match = /^[0-9]+(?:\.[0-9]+)?/.exec(source.slice(position))!;
+      position += match[0].length;
+      tokens.push({
+        kind: "number",
+        text: match[0],
+        value: Number(match[0]),
+        position: start,
+      });
+      continue;
+    }
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(position))!;
+      position += match[0].length;
+      tokens.push({ kind: "identifier", text: match[0], position: start });
+      continue;
+    }
+    if (char === "'" || char === '"') {
+      let value = "";
+      position++;
+      while (source[position] !== char) {
+        if (position >= source.length) {
+          throw new Error(`Unterminated string at position ${start}`);
+        }
+        if (source[position] === "\\") {
+          const escaped = ESCAPES[source[position + 1]];
+          if (escaped === undefined) {
+            throw new Error(`Invalid escape at position ${position}`);
+          }
+          value += escaped;
+          position += 2;
+        } else {
+          value += source[position++];
+        }
+      }
+      position++;
+      tokens.push({
+        kind: "string",
+        text: source.slice(start, position),
+        value,
+        position: start,
+      });
+      continue;
+    }
+    const operator = OPERATORS.find((op) => source.startsWith(op, position));
+    if (!operator) {
+      throw new Error(`Unexpected character '${char}' at position ${start}`);
+    }
+    position += operator.length;
+    tokens.push({ kind: "operator", text: operator, position: start });
+  }
+  tokens.push({ kind: "end", text: "end of expression", position });
+  return tokens;
+}
+
+/**
+ * Recursive descent parser. From lowest to highest precedence: `||`, `&&`, relations
+ * (`== != < <= > >= in`, not chainable), `+ -`, `* / %`, unary `! -`, then member
+ * access, indexing and calls.
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseOr();
+    this.expectEnd();
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private accept(text: string): boolean {
+    const token = this.peek();
+    if (
+      (token.kind === "operator" || token.kind === "identifier") &&
+      token.text === text
+    ) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(text: string): void {
+    if (!this.accept(text)) this.fail(`expected '${text}'`);
+  }
+
+  private expectEnd(): void {
+    if (this.peek().kind !== "end") this.fail("expected end of expression");
+  }
+
+  private fail(reason: string): never {
+    const token = this.peek();
+    throw new Error(
+      `Unexpected ${
+        token.kind === "end" ? token.text : `'${token.text}'`
+      } at position ${token.position}: ${reason}`
+    );
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.accept("||")) {
+      left = { kind: "binary", operator: "||", left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseRelation();
+    while (this.accept("&&")) {
+      left = {
+        kind: "binary",
+        operator: "&&",
+        left,
+        right: this.parseRelation(),
+      };
+    }
+    return left;
+  }
+
+  private parseRelation(): ExpressionNode {
+    const left = this.parseAdditive();
+    const token = this.peek();
+    if (
+      (token.kind === "operator" || token.kind === "identifier") &&
+      RELATIONAL_OPERATORS.has(token.text)
+    ) {
+      this.index++;
+      return {
+        kind: "binary",
+        operator: token.text as BinaryOperator,
+        left,
+        right: this.parseAdditive(),
+      };
+    }
+    return left;
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let left = this.parseMultiplicative();
+    for (;;) {
+      const operator = this.accept("+") ? "+" : this.accept("-") ? "-" : null;
+      if (!operator) return left;
+      left = {
+        kind: "binary",
+        operator,
+        left,
+        right: this.parseMultiplicative(),
+      };
+    }
+  }
+
+  private parseMultiplicative(): ExpressionNode {
+    let left = this.parseUnary();
+    for (;;) {
+      const operator = this.accept("*")
+        ? "*"
+        : this.accept("/")
+        ? "/"
+        : this.accept("%")
+        ? "%"
+        : null;
+      if (!operator) return left;
+      left = { kind: "binary", operator, left, right: this.parseUnary() };
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.accept("!")) {
+      return { kind: "unary", operator: "!", operand: this.parseUnary() };
+    }
+    if (this.accept("-")) {
+      return { kind: "unary", operator: "-", operand: this.parseUnary() };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let node = this.parsePrimary();
+    for (;;) {
+      if (this.accept(".")) {
+        const token = this.next();
+        if (token.kind !== "identifier") {
+          this.index--;
+          this.fail("expected a key name");
+        }
+        node = { kind: "member", object: node, property: token.text };
+      } else if (this.accept("[")) {
+        const index = this.parseOr();
+        this.expect("]");
+        node = { kind: "index", object: node, index };
+      } else if (
+        node.kind === "identifier" &&
+        this.peek().kind === "operator" &&
+        this.peek().text === "("
+      ) {
+        this.index++;
+        node = {
+          kind: "call",
+          name: node.name,
+          args: this.parseArguments(")"),
+        };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parseArguments(close: string): ExpressionNode[] {
+    const args: ExpressionNode[] = [];
+    if (this.accept(close)) return args;
+    do {
+      args.push(this.parseOr());
+    } while (this.accept(","));
+    this.expect(close);
+    return args;
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+    switch (token.kind) {
+      case "number":
+      case "string":
+        return { kind: "literal", value: token.value };
+      case "identifier":
+        if (token.text === "true") return { kind: "literal", value: true };
+        if (token.text === "false") return { kind: "literal", value: false };
+        if (token.text === "null") return { kind: "literal", value: null };
+        if (token.text === "in") break;
+        return { kind: "identifier", name: token.text };
+      case "operator":
+        if (token.text === "(") {
+          const node = this.parseOr();
+          this.expect(")");
+          return node;
+        }
+        if (token.text === "[") {
+          return { kind: "list", items: this.parseArguments("]") };
+        }
+        break;
+    }
+    this.index--;
+    return this.fail("expected a value");
+  }
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+
+function isMap(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function hasOwn(value: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(value, key);
+}
+
+function typeName(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "list";
+  return isMap(value) ? "map" : typeof value;
+}
+
+function toTimestamp(value: unknown): number {
+  const time =
+    value instanceof Date
+      ? value.getTime()
+      : typeof value === "string"
+      ? Date.parse(value)
+      : typeof value === "number"
+      ? value
+      : NaN;
+  if (!Number.isFinite(time)) {
+    throw new Error(`Invalid timestamp ${JSON.stringify(value)}`);
+  }
+  return time;
+}
+
+function toDuration(value: unknown): number {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (
+    typeof value === "string" &&
+    /^(?:\d+(?:\.\d+)?(?:ms|s|m|h|d))+$/.test(value)
+  ) {
+    let total = 0;
+    for (const [, amount, unit] of value.matchAll(
+      /(\d+(?:\.\d+)?)(ms|s|m|h|d)/g
+    )) {
+      total += Number(amount) * DURATION_UNITS[unit];
+    }
+    return total;
+  }
+  throw new Error(`Invalid duration ${JSON.stringify(value)}`);
+}
+
+function coerceParameter(
+  parameter: string,
+  type: CaveatParameterType,
+  value: unknown
+): unknown {
+  switch (type) {
+    case "string":
+    case "number":
+    case "boolean":
+      if (typeof value !== type) break;
+      return value;
+    case "timestamp":
+    case "duration":
+      try {
+        return type === "timestamp" ? toTimestamp(value) : toDuration(value);
+      } catch (error) {
+        throw new Error(
+          `parameter '${parameter}': ${(error as Error).message}`
+        );
+      }
+    case "list":
+      if (!Array.isArray(value)) break;
+      return value;
+    case "map":
+      if (!isMap(value)) break;
+      return value;
+    case "any":
+      return value;
+  }
+  throw new Error(
+    `parameter '${parameter}' expects a ${type}, got ${typeName(value)}`
+  );
+}
+
+function coerceContextValue(
+  caveat: string,
+  parameter: string,
+  type: CaveatParameterType,
+  value: unknown
+): unknown {
+  try {
+    return coerceParameter(parameter, type, value);
+  } catch (error) {
+    throw new CaveatContextError(
+      caveat,
+      parameter,
+      `Caveat '${caveat}' failed: ${(error as Error).message}`
+    );
+  }
+}
+
+function equals(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => equals(item, b[i]));
+  }
+  if (isMap(a) && isMap(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => hasOwn(b, key) && equals(a[key], b[key]))
+    );
+  }
+  return false;
+}
+
+/**
+ * Parses an IPv4 or IPv6 address; IPv4-mapped IPv6 addresses are returned as IPv4.
+ */
+function parseIp(text: string): { bits: 32 | 128; value: bigint } | undefined {
+  const ipv4 = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/.exec(text);
+  if (ipv4) {
+    const octets = ipv4.slice(1).map(Number);
+    if (octets.some((octet) => octet > 255)) return undefined;
+    return {
+      bits: 32,
+      value: octets.reduce((acc, octet) => (acc << 8n) | BigInt(octet), 0n),
+    };
+  }
+
+  const address = text.split("%")[0];
+  const halves = address.split("::");
+  if (halves.length > 2) return undefined;
+  const groups = halves.map((half) => (half === "" ? [] : half.split(":")));
+  const last = groups[groups.length - 1];
+  let embedded: bigint | undefined;
+  if (last.length > 0 && last[last.length - 1].includes(".")) {
+    const mapped = parseIp(last.pop()!);
+    if (!mapped || mapped.bits !== 32) return undefined;
+    embedded = mapped.value;
+  }
+  const count =
+    groups.reduce((sum, half) => sum + half.length, 0) +
+    (embedded === undefined ? 0 : 2);
+  if (halves.length === 1 ? count !== 8 : count > 7) return undefined;
+  const all = [
+    ...groups[0],
+    ...(halves.length === 2 ? Array(8 - count).fill("0") : []),
+    ...(halves.length === 2 ? groups[1] : []),
+  ];
+  let value = 0n;
+  for (const group of all) {
+    if (!/^[0-9a-fA-F]{1,4}$/.test(group)) return undefined;
+    value = (value << 16n) | BigInt(parseInt(group, 16));
+  }
+  if (embedded !== undefined) value = (value << 32n) | embedded;
+  if (value >> 32n === 0xffffn) {
+    return { bits: 32, value: value & 0xffffffffn };
+  }
+  return { bits: 128, value };
+}
+
+function inCidr(ip: unknown, cidrs: unknown): boolean {
+  const ranges = Array.isArray(cidrs) ? cidrs : [cidrs];
+  const address = typeof ip === "string" ? parseIp(ip) : undefined;
+  let contained = false;
+  for (const range of ranges) {
+    if (typeof range !== "string") {
+      throw new Error(`in_cidr() expects CIDR strings, got ${typeName(range)}`);
+    }
+    const [network, prefixText] = range.split("/");
+    const parsed = parseIp(network);
+    const prefix = prefixText === undefined ? parsed?.bits : Number(prefixText);
+    if (
+      !parsed ||
+      prefix === undefined ||
+      !Number.isInteger(prefix) ||
+      prefix < 0 ||
+      prefix > parsed.bits
+    ) {
+      throw new Error(`Invalid CIDR '${range}'`);
+    }
+    if (address?.bits !== parsed.bits) continue;
+    const shift = BigInt(parsed.bits - prefix);
+    if (address.value >> shift === parsed.value >> shift) contained = true;
+  }
+  return contained;
+}
+
+const FUNCTIONS: Record<
+  string,
+  { arity: number; call: (...args: unknown[]) => unknown }
+> = {
+  size: {
+    arity: 1,
+    call: (value) => {
+      if (typeof value === "string" || Array.isArray(value)) {
+        return value.length;
+      }
+      if (isMap(value)) return Object.keys(value).length;
+      throw new Error(`size() expects a string, list or map`);
+    },
+  },
+  timestamp: { arity: 1, call: toTimestamp },
+  duration: { arity: 1, call: toDuration },
+  in_cidr: { arity: 2, call: inCidr },
+};
+
+/**
+ * Value of a sub-expression that depends on parameters missing from the context.
+ */
+class Missing {
+  constructor(readonly names: ReadonlySet<string>) {}
+
+  static merge(...values: unknown[]): Missing | undefined {
+    const names = new Set<string>();
+    for (const value of values) {
+      if (value instanceof Missing) value.names.forEach((n) => names.add(n));
+    }
+    return names.size > 0 ? new Missing(names) : undefined;
+  }
+}
+
+function expectBoolean(value: unknown, operator: string): boolean | Missing {
+  if (value instanceof Missing || typeof value === "boolean") return value;
+  throw new Error(`'${operator}' expects booleans, got ${typeName(value)}`);
+}
+
+function expectNumber(value: unknown, operator: string): number {
+  if (typeof value === "number") return value;
+  throw new Error(`'${operator}' expects numbers, got ${typeName(value)}`);
+}
+
+/**
+ * Evaluates a logical operator with three-valued logic: a missing operand only makes the
+ * result missing when the other operand does not already decide it.
+ */
+function evaluateLogical(
+  node: Extract<ExpressionNode, { kind: "binary" }>,
+  scope: ReadonlyMap<string, unknown>
+): boolean | Missing {
+  const decisive = node.operator === "||";
+  const left = expectBoolean(evaluateNode(node.left, scope), node.operator);
+  if (left === decisive) return decisive;
+  const right = expectBoolean(evaluateNode(node.right, scope), node.operator);
+  if (right === decisive) return decisive;
+  return Missing.merge(left, right) ?? !decisive;
+}
+
+function evaluateNode(
+  node: ExpressionNode,
+  scope: ReadonlyMap<string, unknown>
+): unknown {
+  switch (node.kind) {
+    case "literal":
+      return node.value;
+    case "identifier":
+      return scope.get(node.name);
+    case "list": {
+      const items = node.items.map((item) => evaluateNode(item, scope));
+      return Missing.merge(...items) ?? items;
+    }
+    case "unary": {
+      const operand = evaluateNode(node.operand, scope);
+      if (operand instanceof Missing) return operand;
+      return node.operator === "!"
+        ? !expectBoolean(operand, "!")
+        : -expectNumber(operand, "-");
+    }
+    case "member": {
+      const object = evaluateNode(node.object, scope);
+      if (object instanceof Missing) return object;
+      if (!isMap(object) || !hasOwn(object, node.property)) {
+        throw new Error(`No key '${node.property}' in ${typeName(object)}`);
+      }
+      return object[node.property];
+    }
+    case "index": {
+      const object = evaluateNode(node.object, scope);
+      const index = evaluateNode(node.index, scope);
+      const missing = Missing.merge(object, index);
+      if (missing) return missing;
+      if (
+        Array.isArray(object) &&
+        typeof index === "number" &&
+        Number.isInteger(index) &&
+        index >= 0 &&
+        index < object.length
+      ) {
+        return object[index];
+      }
+      if (isMap(object) && typeof index === "string" && hasOwn(object, index)) {
+        return object[index];
+      }
+      throw new Error(
+        `No index ${JSON.stringify(index)} in ${typeName(object)}`
+      );
+    }
+    case "call": {
+      const args = node.args.map((arg) => evaluateNode(arg, scope));
+      return Missing.merge(...args) ?? FUNCTIONS[node.name].call(...args);
+    }
+    case "binary": {
+      if (node.operator === "&&" || node.operator === "||") {
+        return evaluateLogical(node, scope);
+      }
+      const left = evaluateNode(node.left, scope);
+      const right = evaluateNode(node.right, scope);
+      const missing = Missing.merge(left, right);
+      if (missing) return missing;
+      return evaluateBinary(node.operator, left, right);
+    }
+  }
+}
+
+function evaluateBinary(
+  operator: BinaryOperator,
+  left: unknown,
+  right: unknown
+): unknown {
+  switch (operator) {
+    case "==":
+      return equals(left, right);
+    case "!=":
+      return !equals(left, right);
+    case "<":
+    case "<=":
+    case ">":
+    case ">=": {
+      if (
+        !(
+          (typeof left === "number" && typeof right === "number") ||
+          (typeof left === "string" && typeof right === "string")
+        )
+      ) {
+        throw new Error(
+          `Cannot compare ${typeName(left)} and ${typeName(right)}`
+        );
+      }
+      if (operator === "<") return left < right;
+      if (operator === "<=") return left <= right;
+      if (operator === ">") return left > right;
+      return left >= right;
+    }
+    case "in":
+      if (Array.isArray(right)) return right.some((item) => equals(left, item));
+      if (isMap(right) && typeof left === "string") return hasOwn(right, left);
+      if (typeof right === "string" && typeof left === "string") {
+        return right.includes(left);
+      }
+      throw new Error(`Cannot test ${typeName(left)} in ${typeName(right)}`);
+    case "+":
+      if (typeof left === "string" && typeof right === "string") {
+        return left + right;
+      }
+      if (Array.isArray(left) && Array.isArray(right)) {
+        return [...left, ...right];
+      }
+      return expectNumber(left, "+") + expectNumber(right, "+");
+    case "-":
+      return expectNumber(left, "-") - expectNumber(right, "-");
+    case "*":
+      return expectNumber(left, "*") * expectNumber(right, "*");
+    case "/":
+      return expectNumber(left, "/") / expectNumber(right, "/");
+    case "%":
+      return expectNumber(left, "%") % expectNumber(right, "%");
+    case "&&":
+    case "||":
+      throw new Error(`Unexpected logical operator '${operator}'`);
+  }
+}
+
+/**
+ * Checks that every identifier is a declared parameter and every call a built-in function.
+ */
+function validateNode(
+  node: ExpressionNode,
+  parameters: ReadonlySet<string>,
+  used: Set<string>
+): void {
+  switch (node.kind) {
+    case "identifier":
+      if (!parameters.has(node.name) && node.name !== CAVEAT_NOW) {
+        throw new Error(`Undeclared parameter '${node.name}'`);
+      }
+      used.add(node.name);
+      return;
+    case "call": {
+      if (!hasOwn(FUNCTIONS, node.name)) {
+        throw new Error(`Unknown function '${node.name}'`);
+      }
+      const fn = FUNCTIONS[node.name];
+      if (node.args.length !== fn.arity) {
+        throw new Error(
+          `${node.name}() expects ${fn.arity} argument${
+            fn.arity === 1 ? "" : "s"
+          }`
+        );
+      }
+      node.args.forEach((arg) => validateNode(arg, parameters, used));
+      return;
+    }
+    case "list":
+      node.items.forEach((item) => validateNode(item, parameters, used));
+      return;
+    case "unary":
+      validateNode(node.operand, parameters, used);
+      return;
+    case "member":
+      validateNode(node.object, parameters, used);
+      return;
+    case "index":
+      validateNode(node.object, parameters, used);
+      validateNode(node.index, parameters, used);
+      return;
+    case "binary":
+      validateNode(node.left, parameters, used);
+      validateNode(node.right, parameters, used);
+      return;
+    case "literal":
+      return;
+  }
+}
+
+/**
+ * Compiles a caveat definition.
+ *
+ * Expressions use a small, side-effect free subset of CEL: literals (numbers, strings,
+ * `true`, `false`, `null`, `[lists]`), parameters, `.key` and `[index]` access, `!`, `&&`,
+ * `||`, `== != < <= > >= in`, `+ - * / %`, and the functions `size(x)`, `timestamp(x)`,
+ * `duration(x)` and `in_cidr(ip, cidrs)`. `now` holds the time of the check in epoch
+ * milliseconds, like every timestamp.
+ *
+ * Parameters absent from the context make the result missing rather than false, unless
+ * the rest of the expression decides it (`false && missing` is false).
+ *
+ * @example
+ * ```typescript
+ * const caveat = compileCaveat('office_network', {
+ *   parameters: { ip: 'string', allowed_cidrs: 'list' },
+ *   expression: 'in_cidr(ip, allowed_cidrs)',
+ * });
+ * caveat.evaluate({ ip: '10.0.0.7', allowed_cidrs: ['10.0.0.0/8'] }); // true
+ * caveat.evaluate({ allowed_cidrs: ['10.0.0.0/8'] });                 // { missing: ['ip'] }
+ * ```
+ *
+ * @param name - The caveat name
+ * @param definition - The parameters and expression
+ * @returns The compiled caveat
+ * @throws Error if the expression does not parse, reads undeclared parameters or calls
+ *   unknown functions, or a parameter has an invalid name or type
+ */
+export function compileCaveat(
+  name: string,
+  definition: CaveatDefinition
+): CompiledCaveat {
+  const parameters = Object.entries(definition.parameters);
+  for (const [parameter, type] of parameters) {
+    if (!IDENTIFIER_PATTERN.test(parameter) || parameter === CAVEAT_NOW) {
+      throw new Error(
+        `Invalid parameter name '${parameter}' in caveat '${name}'`
+      );
+    }
+    if (!PARAMETER_TYPES.includes(type)) {
+      throw new Error(
+        `Unknown type '${type}' for parameter '${parameter}' in caveat '${name}'`
+      );
+    }
+  }
+
+  const used = new Set<string>();
+  let root: ExpressionNode;
+  try {
+    root = new Parser(tokenize(definition.expression)).parse();
+    validateNode(root, new Set(parameters.map(([p]) => p)), used);
+  } catch (error) {
+    throw new Error(
+      `Invalid expression for caveat '${name}': ${(error as Error).message}`
+    );
+  }
+
+  return {
+    name,
+    definition,
+    usesNow: used.has(CAVEAT_NOW),
+    evaluate(context) {
+      const scope = new Map<string, unknown>();
+      scope.set(
+        CAVEAT_NOW,
+        context[CAVEAT_NOW] === undefined
+          ? Date.now()
+          : coerceContextValue(
+              name,
+              CAVEAT_NOW,
+              "timestamp",
+              context[CAVEAT_NOW]
+            )
+      );
+      for (const [parameter, type] of parameters) {
+        if (!used.has(parameter)) continue;
+        const value = hasOwn(context, parameter)
+          ? context[parameter]
+          : undefined;
+        scope.set(
+          parameter,
+          value === undefined
+            ? new Missing(new Set([parameter]))
+            : coerceContextValue(name, parameter, type, value)
+        );
+      }
+      try {
+        const result = evaluateNode(root, scope);
+        if (result instanceof Missing) return { missing: [...result.names] };
+        if (typeof result !== "boolean") {
+          throw new Error(`expression returned ${typeName(result)}`);
+        }
+        return result;
+      } catch (error) {
+        throw new Error(`Caveat '${name}' failed: ${(error as Error).message}`);
+      }
+    },
+  };
+}
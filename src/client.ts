@@ -46,6 +46,14 @@ import type { ZanzibarPlugin } from "./server";
  *     }
  *   }
  * );
+ *
+ * // Share a document (requires the manage permission on it)
+ * await authClient.zanzibar.grant({
+ *   resourceType: "documents",
+ *   resourceId: "doc-1",
+ *   role: "editor",
+ *   subject: "user:user-2"
+ * });
  * ```
  *
  * @returns A client plugin object that satisfies BetterAuthClientPlugin interface
@@ -0,0 +1,46 @@
+import type { ConsistencyToken } from "./types";
+
+const TOKEN_PREFIX = "zk1.";
+
+/**
+ * Pattern matched by every consistency token.
+ */
+export const CONSISTENCY_TOKEN_PATTERN = /^zk1\.[0-9a-z]+$/;
+
+/**
+ * Returns the revision following `previous`.
+ *
+ * Revisions are millisecond timestamps forced to increase strictly past `previous`, so
+ * tokens issued by different processes sharing a database remain comparable. Ordering is
+ * only strict within a process: see `RelationshipStore`.
+ *
+ * @param previous - The last revision issued or stored
+ * @returns The next revision
+ */
+export function nextRevision(previous: number): number {
+  return Math.max(Date.now(), previous + 1);
+}
+
+/**
+ * Encodes a revision as an opaque consistency token (a Zanzibar "zookie").
+ *
+ * @param revision - The revision to encode
+ * @returns The consistency token
+ */
+export function encodeConsistencyToken(revision: number): ConsistencyToken {
+  return `${TOKEN_PREFIX}${revision.toString(36)}`;
+}
+
+/**
+ * Decodes a consistency token back into its revision.
+ *
+ * @param token - The token to decode
+ * @returns The revision the token was issued at
+ * @throws Error if the token is malformed
+ */
+export function decodeConsistencyToken(token: ConsistencyToken): number {
+  if (!CONSISTENCY_TOKEN_PATTERN.test(token)) {
+    throw new Error(`Invalid consistency token '${token}'`);
+  }
+  return parseInt(token.slice(TOKEN_PREFIX.length), 36);
+}
@@ -0,0 +1,52 @@
+import NodeCache from "node-cache";
+import type { DecisionCache } from "./types";
+
+/**
+ * Options for the in-memory decision cache.
+ */
+export interface InMemoryDecisionCacheOptions {
+  /** Default time-to-live of entries stored without an explicit TTL, in seconds (default: 300) */
+  ttlSeconds?: number;
+  /** Interval between sweeps of expired entries, in seconds (default: 60) */
+  checkPeriodSeconds?: number;
+}
+
+/**
+ * Per-process decision cache backed by `node-cache`. This is the default backend.
+ *
+ * @example
+ * ```typescript
+ * const engine = new PolicyEngine(policies, true, {
+ *   cache: new InMemoryDecisionCache({ ttlSeconds: 60 }),
+ * });
+ * ```
+ */
+export class InMemoryDecisionCache implements DecisionCache {
+  private cache: NodeCache;
+
+  constructor(options: InMemoryDecisionCacheOptions = {}) {
+    this.cache = new NodeCache({
+      stdTTL: options.ttlSeconds ?? 300,
+      checkperiod: options.checkPeriodSeconds ?? 60,
+    });
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    return this.cache.get<T>(key);
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
+    if (ttlSeconds === undefined) this.cache.set(key, value);
+    else this.cache.set(key, value, ttlSeconds);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.cache.del(key);
+  }
+
+  async deleteByPrefix(prefix: string): Promise<number> {
+    return this.cache.del(
+      this.cache.keys().filter((key) => key.startsWith(prefix))
+    );
+  }
+}
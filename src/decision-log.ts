@@ -0,0 +1,82 @@
+import type { Adapter } from "better-auth";
+import type { BetterAuthPluginDBSchema } from "better-auth/db";
+import type { DecisionLogEntry, DecisionSink } from "./types";
+
+/**
+ * Model name of the decision log table registered by the plugin.
+ */
+export const DECISION_LOG_MODEL = "decisionLog";
+
+/**
+ * Database schema for the decision log, registered through the Better Auth plugin `schema`
+ * option when the plugin is created with `decisionLog` and no custom sink.
+ *
+ * The deciding rule is stored as `type:name` (e.g. `deny:suspended`); optional fields are
+ * left empty when they do not apply.
+ */
+export const decisionLogSchema = {
+  [DECISION_LOG_MODEL]: {
+    fields: {
+      subject: { type: "string", required: true },
+      role: { type: "string", required: false },
+      action: { type: "string", required: false },
+      resourceType: { type: "string", required: true },
+      resourceId: { type: "string", required: false },
+      allowed: { type: "boolean", required: true },
+      matchedRole: { type: "string", required: false },
+      decidingRule: { type: "string", required: false },
+      cacheHit: { type: "boolean", required: true },
+      requestId: { type: "string", required: false },
+      createdAt: {
+        type: "date",
+        required: true,
+        defaultValue: () => new Date(),
+      },
+    },
+  },
+} satisfies BetterAuthPluginDBSchema;
+
+/**
+ * Decision sink writing every entry to the plugin's decision log table.
+ *
+ * The Zanzibar plugin uses it when created with `decisionLog` and no `sink`. Each recorded
+ * decision costs one insert, so consider `sampleRate` or `filter` for busy applications.
+ *
+ * @example
+ * ```typescript
+ * const engine = new PolicyEngine(policies, true, {
+ *   decisionLog: { sink: new DatabaseDecisionSink(ctx.adapter), filter: (entry) => !entry.allowed },
+ * });
+ * ```
+ */
+export class DatabaseDecisionSink implements DecisionSink {
+  private adapter: Adapter;
+
+  /**
+   * @param adapter - The Better Auth database adapter (usually `ctx.adapter` or `ctx.context.adapter`)
+   */
+  constructor(adapter: Adapter) {
+    this.adapter = adapter;
+  }
+
+  async record(entry: DecisionLogEntry): Promise<void> {
+    await this.adapter.create({
+      model: DECISION_LOG_MODEL,
+      data: {
+        subject: entry.subject,
+        role: entry.role ?? null,
+        action: entry.action ?? null,
+        resourceType: entry.resourceType,
+        resourceId: entry.resourceId ?? null,
+        allowed: entry.allowed,
+        matchedRole: entry.matchedRole ?? null,
+        decidingRule: entry.decidingRule
+          ? `${entry.decidingRule.type}:${entry.decidingRule.name}`
+          : null,
+        cacheHit: entry.cacheHit,
+        requestId: entry.requestId ?? null,
+        createdAt: entry.timestamp,
+      },
+    });
+  }
+}
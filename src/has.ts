@@ -1,4 +1,32 @@
 import { policyEngineInstance } from "./policy-engine";
+import type {
+  CheckOptions,
+  CheckResult,
+  LookupResourcesOptions,
+  PermissionCheck,
+  PermissionsCheckResult,
+  Policies,
+  DeleteTuplesResult,
+  RelationTuple,
+  RelationTupleFilter,
+  RelationshipChange,
+  WatchOptions,
+  WriteRelationshipsRequest,
+  WriteRelationshipsResult,
+  WriteTuplesResult,
+} from "./types";
+
+/**
+ * Result of a `has.ts` check: a plain boolean, or the full result with its decision trace
+ * when the check is made with `explain: true`. When `explain` is only known at runtime
+ * (typed `boolean`), either may be returned, so narrow it before testing the result:
+ * a `CheckResult` is truthy even when the check is denied.
+ */
+export type CheckOutcome<O extends CheckOptions> = O extends { explain: true }
+  ? CheckResult
+  : O[keyof O & "explain"] extends false | undefined
+  ? boolean
+  : boolean | CheckResult;
 
 /**
  * Checks whether a user has a specific role for a given resource.
@@ -19,24 +47,26 @@ import { policyEngineInstance } from "./policy-engine";
  * @param roleName - The name of the role to check (e.g., 'editor', 'viewer', 'admin')
  * @param userId - The ID of the user to check permissions for
  * @param resourceId - The ID of the specific resource instance
+ * @param options - Check options; with `explain: true` the full result and its decision trace are returned
  * @returns Promise resolving to true if the user has the role, false otherwise
  * @throws Error if the policy engine is not initialized
  */
-export const hasRole = async (
+export const hasRole = async <O extends CheckOptions = {}>(
   resourceType: string,
   roleName: string,
   userId: string,
-  resourceId?: string
-): Promise<boolean> => {
+  resourceId?: string,
+  options?: O
+): Promise<CheckOutcome<O>> => {
   if (!policyEngineInstance) throw new Error("Policy engine not initialized");
-  return (
-    await policyEngineInstance.hasRole(
-      resourceType,
-      roleName,
-      userId,
-      resourceId
-    )
-  ).allowed;
+  const result = await policyEngineInstance.hasRole(
+    resourceType,
+    roleName,
+    userId,
+    resourceId,
+    options
+  );
+  return (options?.explain ? result : result.allowed) as CheckOutcome<O>;
 };
 
 /**
@@ -49,30 +79,41 @@ export const hasRole = async (
  *
  * // Check if user can delete a project
  * const canDelete = await hasPermission(userId, 'delete', 'projects', projectId);
+ *
+ * // Find out why access was granted
+ * const { allowed, trace } = await hasPermission(userId, 'read', 'documents', documentId, { explain: true });
+ * console.log(trace?.matchedRole);
+ *
+ * // Forward request attributes to condition functions
+ * const canDownload = await hasPermission(userId, 'read', 'documents', documentId, {
+ *   context: { ip: request.ip },
+ * });
  * ```
  *
  * @param userId - The ID of the user to check permissions for
  * @param action - The action to check (e.g., 'read', 'write', 'delete')
  * @param resourceType - The type of resource to check permissions for
  * @param resourceId - The ID of the specific resource instance
+ * @param options - Check options; with `explain: true` the full result and its decision trace are returned
  * @returns Promise resolving to true if the permission is granted, false otherwise
  * @throws Error if the policy engine is not initialized
  */
-export const hasPermission = async (
+export const hasPermission = async <O extends CheckOptions = {}>(
   userId: string,
   action: string,
   resourceType: string,
-  resourceId?: string
-): Promise<boolean> => {
+  resourceId?: string,
+  options?: O
+): Promise<CheckOutcome<O>> => {
   if (!policyEngineInstance) throw new Error("Policy engine not initialized");
-  return (
-    await policyEngineInstance.hasPermission(
-      userId,
-      action,
-      resourceType,
-      resourceId
-    )
-  ).allowed;
+  const result = await policyEngineInstance.hasPermission(
+    userId,
+    action,
+    resourceType,
+    resourceId,
+    options
+  );
+  return (options?.explain ? result : result.allowed) as CheckOutcome<O>;
 };
 
 /**
@@ -110,30 +151,274 @@ export const hasPermission = async (
  *
  * @param userId - The ID of the user to check permissions for
  * @param checks - Object with custom keys mapping to permission check definitions
+ * @param options - Check options; `explain: true` adds decision traces to each result
  * @returns Promise resolving to an object with results keyed by the custom names
  * @throws Error if the policy engine is not initialized
  */
 export const hasPermissions = async (
   userId: string,
-  checks: Record<
-    string,
-    {
-      resourceType: string;
-      action?: string;
-      actions?: string[];
-      resourceId?: string;
-    }
-  >
-): Promise<
-  Record<
-    string,
-    {
-      allowed: boolean;
-      message: string;
-      results?: Record<string, boolean>;
-    }
+  checks: Record<string, PermissionCheck>,
+  options?: CheckOptions
+): Promise<Record<string, PermissionsCheckResult>> => {
+  if (!policyEngineInstance) throw new Error("Policy engine not initialized");
+  return await policyEngineInstance.hasPermissions(userId, checks, options);
+};
+
+/**
+ * Checks whether a user can perform an action on many resources of the same type, using
+ * the batch form of role conditions where one is declared.
+ *
+ * @example
+ * ```typescript
+ * // Decide which rows of a document table to show
+ * const results = await checkBulk(userId, 'read', 'documents', documentIds);
+ * const visible = documents.filter((doc) => results[doc.id]);
+ * ```
+ *
+ * @param userId - The ID of the user to check permissions for
+ * @param action - The action to check (e.g., 'read', 'write', 'delete')
+ * @param resourceType - The type of the resources
+ * @param resourceIds - The IDs of the resources to check
+ * @param options - Consistency options and context applied to every check
+ * @returns Promise resolving to whether the action is allowed, keyed by resource ID
+ * @throws Error if the policy engine is not initialized
+ */
+export const checkBulk = async (
+  userId: string,
+  action: string,
+  resourceType: string,
+  resourceIds: readonly string[],
+  options?: Pick<
+    CheckOptions,
+    "atLeastAsFresh" | "fullyConsistent" | "context" | "requestId"
   >
-> => {
+): Promise<Record<string, boolean>> => {
+  if (!policyEngineInstance) throw new Error("Policy engine not initialized");
+  return await policyEngineInstance.checkBulk(
+    userId,
+    action,
+    resourceType,
+    resourceIds,
+    options
+  );
+};
+
+/**
+ * Lists the IDs of resources of a type on which a user can perform an action.
+ *
+ * @example
+ * ```typescript
+ * // Only render documents the user may edit
+ * const editable = await listResources(userId, 'write', 'documents');
+ * ```
+ *
+ * @param userId - The ID of the user to list resources for
+ * @param action - The action to check (e.g., 'read', 'write', 'delete')
+ * @param resourceType - The type of resource to list
+ * @param options - Check options applied to every candidate, and the page to return (`after`, `limit`)
+ * @returns Promise resolving to the sorted IDs of the resources the action is allowed on
+ * @throws Error if the policy engine is not initialized
+ */
+export const listResources = async (
+  userId: string,
+  action: string,
+  resourceType: string,
+  options?: LookupResourcesOptions
+): Promise<string[]> => {
+  if (!policyEngineInstance) throw new Error("Policy engine not initialized");
+  return await policyEngineInstance.lookupResources(
+    userId,
+    action,
+    resourceType,
+    options
+  );
+};
+
+/**
+ * Writes relationship tuples to the plugin's relationship store.
+ *
+ * Tuples that already exist are skipped, so writing the same tuple twice is safe. The
+ * returned token can be passed to later checks as `atLeastAsFresh` so that they see the write.
+ * Tuples may carry a caveat declared with `caveats` in the builder, and a `validFrom`/`validUntil`
+ * window outside which they grant nothing.
+ *
+ * @example
+ * ```typescript
+ * const { token } = await writeTuples([
+ *   { objectType: 'documents', objectId: 'doc-1', relation: 'editor', subjectType: 'user', subjectId: userId },
+ * ]);
+ * await hasPermission(userId, 'write', 'documents', 'doc-1', { atLeastAsFresh: token });
+ *
+ * // Editor until Friday
+ * await writeTuples([
+ *   {
+ *     objectType: 'documents', objectId: 'doc-1', relation: 'editor', subjectType: 'user', subjectId: contractorId,
+ *     validUntil: new Date('2026-10-23T18:00:00Z'),
+ *   },
+ * ]);
+ *
+ * // Access guarded by a caveat
+ * await writeTuples([
+ *   {
+ *     objectType: 'documents', objectId: 'doc-1', relation: 'viewer', subjectType: 'user', subjectId: guestId,
+ *     caveatName: 'not_expired', caveatContext: { expires_at: '2026-12-31T00:00:00Z' },
+ *   },
+ * ]);
+ * ```
+ *
+ * @param tuples - The tuples to write
+ * @returns Promise resolving to the newly created tuples and a consistency token
+ * @throws Error if the policy engine or relationship store is not initialized, or a tuple
+ *   references an unknown caveat or a subject its relation does not accept
+ */
+export const writeTuples = async (
+  tuples: RelationTuple[]
+): Promise<WriteTuplesResult> => {
+  if (!policyEngineInstance) throw new Error("Policy engine not initialized");
+  policyEngineInstance.validateTuples(tuples);
+  return await policyEngineInstance.relationships.write(tuples);
+};
+
+/**
+ * Applies a batch of relationship updates atomically.
+ *
+ * Every precondition is checked and every update applied in one transaction: if a
+ * precondition does not hold, or a `create` targets an existing tuple, nothing is written.
+ *
+ * @example
+ * ```typescript
+ * // Hand a document over to a new owner, unless someone else already took it
+ * const { token } = await writeRelationships({
+ *   updates: [
+ *     { op: 'delete', tuple: { objectType: 'documents', objectId: 'doc-1', relation: 'owner', subjectType: 'user', subjectId: userId } },
+ *     { op: 'touch', tuple: { objectType: 'documents', objectId: 'doc-1', relation: 'owner', subjectType: 'user', subjectId: newOwnerId } },
+ *   ],
+ *   preconditions: [
+ *     { op: 'must-exist', filter: { objectType: 'documents', objectId: 'doc-1', relation: 'owner', subjectType: 'user', subjectId: userId } },
+ *   ],
+ * });
+ * ```
+ *
+ * @param request - The updates and their preconditions
+ * @returns Promise resolving to the written tuples, the number of deleted ones and a consistency token
+ * @throws RelationshipWriteError if the batch is invalid, a precondition fails or a created tuple already exists
+ * @throws Error if the policy engine or relationship store is not initialized, or a tuple
+ *   references an unknown caveat or a subject its relation does not accept
+ */
+export const writeRelationships = async (
+  request: WriteRelationshipsRequest
+): Promise<WriteRelationshipsResult> => {
+  if (!policyEngineInstance) throw new Error("Policy engine not initialized");
+  policyEngineInstance.validateTuples(
+    request.updates.map((update) => update.tuple)
+  );
+  return await policyEngineInstance.relationships.writeRelationships(request);
+};
+
+/**
+ * Deletes every relationship tuple matching the filter.
+ *
+ * @example
+ * ```typescript
+ * // Remove all access to a deleted document
+ * const { deleted, token } = await deleteTuples({ objectType: 'documents', objectId: 'doc-1' });
+ * ```
+ *
+ * @param filter - Fields the tuples to delete must match (must not be empty)
+ * @returns Promise resolving to the number of deleted tuples and a consistency token
+ * @throws Error if the policy engine or relationship store is not initialized
+ */
+export const deleteTuples = async (
+  filter: RelationTupleFilter
+): Promise<DeleteTuplesResult> => {
+  if (!policyEngineInstance) throw new Error("Policy engine not initialized");
+  return await policyEngineInstance.relationships.delete(filter);
+};
+
+/**
+ * Deletes every relationship tuple whose `validUntil` has passed.
+ *
+ * @example
+ * ```typescript
+ * // Nightly cleanup job
+ * const { deleted } = await purgeExpiredTuples();
+ * ```
+ *
+ * @param now - The time to compare expiries against (default: the current time)
+ * @returns Promise resolving to the number of deleted tuples and a consistency token
+ * @throws Error if the policy engine or relationship store is not initialized
+ */
+export const purgeExpiredTuples = async (
+  now?: Date
+): Promise<DeleteTuplesResult> => {
+  if (!policyEngineInstance) throw new Error("Policy engine not initialized");
+  return await policyEngineInstance.relationships.purgeExpired(now);
+};
+
+/**
+ * Reads every relationship tuple matching the filter.
+ *
+ * @example
+ * ```typescript
+ * const editors = await readTuples({ objectType: 'documents', objectId: 'doc-1', relation: 'editor' });
+ * ```
+ *
+ * @param filter - Fields the tuples must match
+ * @returns Promise resolving to the matching tuples
+ * @throws Error if the policy engine or relationship store is not initialized
+ */
+export const readTuples = async (
+  filter: RelationTupleFilter
+): Promise<RelationTuple[]> => {
+  if (!policyEngineInstance) throw new Error("Policy engine not initialized");
+  return await policyEngineInstance.relationships.read(filter);
+};
+
+/**
+ * Streams the relationship change log, starting after a revision.
+ *
+ * Every write and delete made through the plugin is recorded with its revision. The iterator
+ * yields the recorded changes, then waits for new ones until the signal aborts.
+ *
+ * @example
+ * ```typescript
+ * // Keep a search index's access lists up to date
+ * for await (const change of watchChanges(await loadCheckpoint())) {
+ *   await searchIndex.reindex(change.tuple.objectType, change.tuple.objectId);
+ *   await saveCheckpoint(change.revision);
+ * }
+ * ```
+ *
+ * @param sinceRevision - Only changes with a later revision are yielded (0 yields the whole log)
+ * @param options - Abort signal and polling interval
+ * @returns An async iterator of changes
+ * @throws Error if the policy engine or relationship store is not initialized
+ */
+export const watchChanges = (
+  sinceRevision: number,
+  options?: WatchOptions
+): AsyncGenerator<RelationshipChange> => {
+  if (!policyEngineInstance) throw new Error("Policy engine not initialized");
+  return policyEngineInstance.watch(sinceRevision, options);
+};
+
+/**
+ * Replaces the policies of the global policy engine without restarting it.
+ *
+ * The new policies are validated first and only swapped in if they pass; cached decisions
+ * are invalidated for the resource types whose definitions changed.
+ *
+ * @example
+ * ```typescript
+ * // After an administrator edits the schema
+ * await updatePolicies(parseSchema(await loadSchemaText()));
+ * ```
+ *
+ * @param policies - The new policies
+ * @returns Promise resolving to the resource types whose definitions changed
+ * @throws Error if the policy engine is not initialized or the new policies are invalid
+ */
+export const updatePolicies = async (policies: Policies): Promise<string[]> => {
   if (!policyEngineInstance) throw new Error("Policy engine not initialized");
-  return await policyEngineInstance.hasPermissions(userId, checks);
+  return await policyEngineInstance.updatePolicies(policies);
 };
@@ -4,3 +4,12 @@ export * from "./client";
 export * from "./types";
 export * from "./has";
 export * from "./builder";
+export * from "./relationship-store";
+export * from "./subject";
+export * from "./consistency";
+export * from "./decision-cache";
+export * from "./redis-decision-cache";
+export * from "./decision-log";
+export * from "./caveats";
+export * from "./schema";
+export * from "./policy-source";
@@ -1,5 +1,235 @@
-import type { Policies, RelationshipFunction } from "./types";
-import NodeCache from "node-cache";
+import type {
+  CheckContext,
+  CheckOptions,
+  CheckResult,
+  CombiningAlgorithm,
+  DecisionCache,
+  DecisionLogEntry,
+  DecisionLogOptions,
+  DecisionSink,
+  DecisionTrace,
+  DenyRule,
+  ExpandNode,
+  LookupResourcesOptions,
+  PermissionCheck,
+  PermissionsCheckResult,
+  Policies,
+  PolicyEvent,
+  PolicySource,
+  PolicyWatchOptions,
+  RelationshipChange,
+  RelationshipFunction,
+  RelationTuple,
+  ResourceRole,
+  RoleCondition,
+  Subject,
+  SubjectGrant,
+  TraceStep,
+  WatchOptions,
+} from "./types";
+import {
+  CHANGE_POLL_INTERVAL_MS,
+  type RelationshipStore,
+} from "./relationship-store";
+import {
+  ANONYMOUS_SUBJECT,
+  ANONYMOUS_SUBJECT_TYPE,
+  formatSubject,
+  parseSubject,
+  USER_SUBJECT_TYPE,
+  WILDCARD_SUBJECT_ID,
+} from "./subject";
+import { decodeConsistencyToken } from "./consistency";
+import { InMemoryDecisionCache } from "./decision-cache";
+import { CAVEAT_NOW, compileCaveat, type CompiledCaveat } from "./caveats";
+import { isGlobalCondition, validatePolicies } from "./builder";
+
+/**
+ * Default maximum depth of nested role evaluations (rewrites and inherited roles).
+ */
+export const DEFAULT_MAX_DEPTH = 25;
+
+/**
+ * Options controlling how the policy engine evaluates role conditions.
+ */
+export interface PolicyEngineOptions {
+  /**
+   * Maximum depth of nested role evaluations through computed usersets and
+   * tuple-to-userset rewrites before the check fails (default: 25)
+   */
+  maxDepth?: number;
+  /** Backend of the decision cache (default: a per-process `InMemoryDecisionCache`) */
+  cache?: DecisionCache;
+  /** Time-to-live of cached decisions in seconds (default: 300) */
+  cacheTtlSeconds?: number;
+  /**
+   * How deny rules and roles are combined for resources that do not set their own
+   * algorithm (default: `deny-overrides`)
+   */
+  combiningAlgorithm?: CombiningAlgorithm;
+  /** Records every `hasRole`, `hasPermission` and `hasPermissions` decision (default: disabled) */
+  decisionLog?: DecisionLogOptions;
+}
+
+/**
+ * Default time between loads of `watchPolicies`, in milliseconds.
+ */
+export const POLICY_POLL_INTERVAL_MS = 5000;
+
+/**
+ * Key prefix of the invalidation marks stored in the decision cache.
+ */
+const INVALIDATION_PREFIX = "invalidated:";
+
+/**
+ * State threaded through a single top-level evaluation.
+ */
+interface EvaluationState {
+  /** Current nesting depth */
+  depth: number;
+  /** Role evaluations on the current path, used to detect cycles */
+  path: ReadonlySet<string>;
+  /** Collected trace data, present when the check was made with `explain: true` */
+  trace?: { rolesConsidered: string[]; steps: TraceStep[] };
+  /** Resources (`type:id`) consulted by the evaluation, recorded for cache invalidation */
+  resources?: Set<string>;
+  /** Leaf evaluations shared with the other checks of the same call */
+  memo?: EvaluationMemo;
+  /** Attributes forwarded to condition functions */
+  context?: CheckContext;
+  /**
+   * Whether the current condition counts against access (the subtracted side of an
+   * exclusion, or a deny rule). Caveats missing context are assumed to hold there, and not
+   * to hold elsewhere, so that an allowed decision never depends on missing context.
+   */
+  negated?: boolean;
+  /** What the tuples consulted by a top-level check depended on */
+  outcome?: EvaluationOutcome;
+}
+
+/**
+ * What the tuples consulted during a check depended on, beyond the tuples themselves.
+ */
+interface EvaluationOutcome {
+  /** Caveat parameters missing from the context */
+  missing: Set<string>;
+  /** Whether a caveat read the current time, making the decision unsuitable for caching */
+  volatile: boolean;
+  /** Earliest time (epoch milliseconds) a consulted grant becomes valid or expires */
+  changesAt?: number;
+}
+
+/**
+ * Condition function results and tuple reads memoized for the duration of a single engine
+ * call, so that a batch of checks runs each distinct query once. Only leaf evaluations are
+ * shared, as they never wait on other evaluations and so cannot deadlock.
+ */
+interface EvaluationMemo {
+  /** Results of condition functions, keyed by function and then by subject and resource */
+  conditions: Map<RelationshipFunction, Map<string, Promise<boolean>>>;
+  /** Tuple reads keyed by `type:id#relation` */
+  tuples: Map<string, Promise<RelationTuple[]>>;
+  /** Role outcomes computed by batch conditions, keyed by `type:id#role@subject` */
+  batched: Map<string, boolean>;
+}
+
+function createMemo(): EvaluationMemo {
+  return { conditions: new Map(), tuples: new Map(), batched: new Map() };
+}
+
+/**
+ * Marks a denied decision as conditional when caveats lacked context to decide.
+ */
+function withMissingContext(
+  decision: Decision,
+  outcome: EvaluationOutcome
+): Decision {
+  if (decision.result.allowed || outcome.missing.size === 0) return decision;
+  const missingContext = [...outcome.missing].sort();
+  return {
+    ...decision,
+    result: {
+      ...decision.result,
+      message: `${
+        decision.result.message
+      }; conditional on missing context: ${missingContext.join(", ")}`,
+      missingContext,
+    },
+  };
+}
+
+/**
+ * Serializes a check context with sorted keys, so that equal contexts yield the same
+ * cache key. Returns an empty string when there is no context.
+ */
+function contextKey(context: CheckContext | undefined): string {
+  if (!context || Object.keys(context).length === 0) return "";
+  return `:${JSON.stringify(context, (_key, value: unknown) =>
+    value && typeof value === "object" && !Array.isArray(value)
+      ? Object.fromEntries(
+          Object.entries(value as Record<string, unknown>).sort(([a], [b]) =>
+            a < b ? -1 : a > b ? 1 : 0
+          )
+        )
+      : value
+  )}`;
+}
+
+/**
+ * Outcome of a check before tracing is applied.
+ */
+interface Decision {
+  result: CheckResult;
+  /** The role that granted access, if any */
+  matchedRole?: string;
+}
+
+/**
+ * The checked role or action and resource of a decision recorded in the decision log.
+ */
+type LoggedCheck = Pick<
+  DecisionLogEntry,
+  "role" | "action" | "resourceType" | "resourceId"
+>;
+
+/**
+ * A decision being evaluated, shared with identical checks made while it is in flight.
+ */
+interface InFlightDecision {
+  /** Time the evaluation started */
+  evaluatedAt: number;
+  decision: Promise<Decision>;
+}
+
+/**
+ * A decision as stored in the decision cache.
+ */
+interface CachedDecision extends Decision {
+  /** Time the evaluation started, compared against `atLeastAsFresh` revisions */
+  evaluatedAt: number;
+  /** The checked subject */
+  subject: string;
+  /** Every resource (`type:id`, `type:*` for resource-less checks) the decision depends on */
+  resources: string[];
+}
+
+/**
+ * State of one pass of a reverse lookup.
+ *
+ * Candidate sets are computed iteratively: when a role is reached again through a cycle
+ * (e.g. nested folders), the approximation from the previous pass is used, and passes are
+ * repeated until no set grows any more.
+ */
+interface LookupState {
+  /** Candidate resource IDs per `resourceType#role` found so far */
+  approximations: Map<string, Set<string>>;
+  /** Role lookups completed during this pass */
+  completed: Map<string, Set<string>>;
+  /** Role lookups on the current path */
+  visiting: Set<string>;
+  /** Whether any approximation grew during this pass */
+  changed: boolean;
+}
 
 /**
  * Global policy engine instance shared across the application.
@@ -45,13 +275,15 @@ export let policyEngineInstance: PolicyEngine | null = null;
  *
  * @param policies - The authorization policies object containing resources, roles, and conditions
  * @param cachingEnabled - Whether to enable response caching (default: true)
+ * @param options - Additional options such as the maximum rewrite depth and the cache backend
  * @returns The initialized PolicyEngine instance
  */
 export function initializePolicyEngine(
   policies: Policies,
-  cachingEnabled: boolean = true
+  cachingEnabled: boolean = true,
+  options: PolicyEngineOptions = {}
 ): PolicyEngine {
-  policyEngineInstance = new PolicyEngine(policies, cachingEnabled);
+  policyEngineInstance = new PolicyEngine(policies, cachingEnabled, options);
 
   return policyEngineInstance;
 }
@@ -78,335 +310,2468 @@ export function initializePolicyEngine(
  */
 export class PolicyEngine {
   private policies: Policies;
-  private cache: NodeCache;
+  private caveats: Map<string, CompiledCaveat>;
+  private cache: DecisionCache;
+  private cacheTtlSeconds: number;
   private cachingEnabled: boolean;
+  private maxDepth: number;
+  private combiningAlgorithm: CombiningAlgorithm;
+  private store: RelationshipStore | null = null;
+  private decisionLog: DecisionLogOptions | undefined;
+  private decisionSink: DecisionSink | null;
+  private inFlight = new Map<string, InFlightDecision>();
+  private policyListeners = new Set<(event: PolicyEvent) => void>();
 
   /**
    * Creates a new PolicyEngine instance with the specified policies and caching configuration.
    *
    * @param policies - The authorization policies containing resource definitions, roles, and conditions
    * @param cachingEnabled - Whether to enable response caching for improved performance (default: true)
+   * @param options - Additional options such as the maximum rewrite depth and the cache backend
    *
    * @example
    * ```typescript
    * const engine = new PolicyEngine(policies, true); // With caching
    * const engineNoCache = new PolicyEngine(policies, false); // Without caching
+   * const shallowEngine = new PolicyEngine(policies, true, { maxDepth: 10 });
    * ```
    */
-  constructor(policies: Policies, cachingEnabled: boolean = true) {
+  constructor(
+    policies: Policies,
+    cachingEnabled: boolean = true,
+    options: PolicyEngineOptions = {}
+  ) {
     this.policies = policies;
-    this.cache = new NodeCache({ stdTTL: 300, checkperiod: 60 }); // 5 minutes TTL
+    this.cache = options.cache ?? new InMemoryDecisionCache();
+    this.cacheTtlSeconds = options.cacheTtlSeconds ?? 300; // 5 minutes TTL
     this.cachingEnabled = cachingEnabled;
+    this.maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+    this.combiningAlgorithm = options.combiningAlgorithm ?? "deny-overrides";
+    this.decisionLog = options.decisionLog;
+    this.decisionSink = options.decisionLog?.sink ?? null;
+    this.caveats = compileCaveats(policies);
   }
 
-  private async evaluateCondition(
-    condition: RelationshipFunction,
-    userId: string,
-    resourceId?: string
-  ): Promise<boolean> {
-    if (resourceId !== undefined) {
-      // If a resourceId is provided, prefer calling with it; extra args are ignored by 1-arg functions
-      return await (
-        condition as unknown as (u: string, r?: string) => Promise<boolean>
-      )(userId, resourceId);
-    }
-    // No resourceId: only global conditions should pass
-    if ((condition as unknown as { length: number }).length >= 2) {
-      return false;
+  /**
+   * The policies currently in use, which change when `updatePolicies` succeeds.
+   */
+  getPolicies(): Policies {
+    return this.policies;
+  }
+
+  /**
+   * Replaces the policies without restarting the engine.
+   *
+   * The new policies are checked with `validatePolicies` and their caveats compiled before
+   * anything changes, so a rejected update leaves the current policies in use. Checks started
+   * after the swap use the new policies. Cached decisions are only invalidated for the
+   * resource types whose definitions changed, and for decisions that consulted them (a
+   * document inheriting access from a changed folder type, for example). Function conditions
+   * are compared by identity.
+   *
+   * @param policies - The new policies
+   * @returns The resource types whose definitions changed
+   * @throws Error if the new policies are invalid; a `failed` event is emitted as well
+   *
+   * @example
+   * ```typescript
+   * const changed = await engine.updatePolicies(parseSchema(newSchema));
+   * console.log(`Reloaded policies, ${changed.length} resource types changed`);
+   * ```
+   */
+  async updatePolicies(policies: Policies): Promise<string[]> {
+    let caveats: Map<string, CompiledCaveat>;
+    try {
+      validatePolicies(policies);
+      caveats = compileCaveats(policies);
+    } catch (error) {
+      this.emitPolicyEvent({ type: "failed", error: error as Error });
+      throw error;
     }
-    return await (condition as unknown as (u: string) => Promise<boolean>)(
-      userId
+    const changed = changedResourceTypes(this.policies, policies);
+    this.policies = policies;
+    this.caveats = caveats;
+    // Checks in flight were evaluated against the old policies; don't share them
+    this.inFlight.clear();
+    await Promise.all(
+      changed.map((resourceType) => this.invalidateResourceType(resourceType))
     );
+    this.emitPolicyEvent({ type: "updated", changedResourceTypes: changed });
+    return changed;
   }
 
   /**
-   * Checks whether a user has a specific role for a given resource.
+   * Registers a listener called after every policy update and every failed reload.
+   *
+   * @param listener - Receives the policy event
+   * @returns A function removing the listener
+   */
+  onPolicyEvent(listener: (event: PolicyEvent) => void): () => void {
+    this.policyListeners.add(listener);
+    return () => {
+      this.policyListeners.delete(listener);
+    };
+  }
+
+  private emitPolicyEvent(event: PolicyEvent): void {
+    for (const listener of this.policyListeners) listener(event);
+  }
+
+  /**
+   * Reloads policies from a source periodically, applying them with `updatePolicies`.
+   *
+   * The source is loaded right away and then `intervalMs` after each load completes. Sources
+   * return `null` while nothing changed. Load errors and rejected policies are reported as
+   * `failed` events and the current policies stay in use; the watch carries on either way.
    *
-   * This method evaluates the role condition function associated with the specified role
-   * to determine if the user should be granted that role for the particular resource instance.
+   * @param source - Where to load the policies from
+   * @param options - Polling interval and abort signal
+   * @returns A function stopping the watch
    *
    * @example
    * ```typescript
-   * // Check if user has editor role for a document
-   * const result = await engine.hasRole('documents', 'editor', userId, documentId);
-   * if (result.allowed) {
-   *   console.log('User can edit this document');
-   * } else {
-   *   console.log('User cannot edit this document');
-   * }
+   * engine.onPolicyEvent((event) => {
+   *   if (event.type === 'failed') logger.error('Policy reload failed', event.error);
+   * });
+   * const stop = engine.watchPolicies(
+   *   textPolicySource(() => readFile('authorization.zed', 'utf8'))
+   * );
    * ```
-   *
-   * @param resourceType - The type of resource to check permissions for (e.g., 'documents', 'projects')
-   * @param roleName - The name of the role to check (e.g., 'editor', 'viewer', 'admin')
-   * @param userId - The ID of the user to check permissions for
-   * @param resourceId - The ID of the specific resource instance
-   * @returns Promise resolving to an object with `allowed` boolean and descriptive `message`
    */
-  async hasRole(
-    resourceType: string,
-    roleName: string,
-    userId: string,
-    resourceId?: string
-  ): Promise<{ allowed: boolean; message: string }> {
-    const cacheKey = `hasRole:${resourceType}:${roleName}:${userId}:${
-      resourceId ?? "*"
-    }`;
+  watchPolicies(
+    source: PolicySource,
+    options: PolicyWatchOptions = {}
+  ): () => void {
+    const { signal, intervalMs = POLICY_POLL_INTERVAL_MS } = options;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+    const stop = () => {
+      stopped = true;
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", stop);
+    };
+    const poll = async () => {
+      try {
+        const policies = await source.load();
+        if (policies && !stopped) {
+          // Rejected policies are reported by updatePolicies itself
+          await this.updatePolicies(policies).catch(() => {});
+        }
+      } catch (error) {
+        if (!stopped) {
+          this.emitPolicyEvent({ type: "failed", error: error as Error });
+        }
+      }
+      if (stopped) return;
+      timer = setTimeout(poll, intervalMs);
+      // Don't keep a Node.js process alive just to poll
+      (timer as { unref?: () => void }).unref?.();
+    };
+    signal?.addEventListener("abort", stop);
+    if (signal?.aborted) stop();
+    else void poll();
+    return stop;
+  }
 
-    if (this.cachingEnabled) {
-      const cached = this.cache.get(cacheKey);
-      if (cached) {
-        return cached as { allowed: boolean; message: string };
+  /**
+   * Checks tuples against the policies before they are written: every caveat they reference
+   * must be declared, a caveat context needs a caveat to apply to, and roles declaring `subjectTypes` only accept those subjects (wildcard
+   * subjects such as `user:*` must be listed as such). Wildcards cannot name a relation.
+   *
+   * @param tuples - The tuples about to be written
+   * @throws Error if a tuple references an unknown caveat, has a caveat context without a
+   *   caveat, names a subject its role does not accept or a malformed wildcard
+   */
+  validateTuples(tuples: readonly RelationTuple[]): void {
+    for (const tuple of tuples) {
+      if (tuple.caveatName && !this.caveats.has(tuple.caveatName)) {
+        throw new Error(`Unknown caveat '${tuple.caveatName}'`);
+      }
+      if (tuple.caveatContext !== undefined && !tuple.caveatName) {
+        throw new Error("caveatContext requires a caveatName");
+      }
+      const wildcard = tuple.subjectId === WILDCARD_SUBJECT_ID;
+      if (wildcard && tuple.subjectRelation) {
+        throw new Error(
+          `Wildcard subject '${tuple.subjectType}:*' cannot have a relation`
+        );
+      }
+      if (tuple.subjectType === ANONYMOUS_SUBJECT_TYPE && !wildcard) {
+        throw new Error(
+          `The anonymous subject must be written as '${ANONYMOUS_SUBJECT}'`
+        );
+      }
+      const subjectTypes = this.policies[tuple.objectType]?.roles.find(
+        (role) => role.name === tuple.relation
+      )?.subjectTypes;
+      const subjectType = tuple.subjectRelation
+        ? `${tuple.subjectType}#${tuple.subjectRelation}`
+        : wildcard
+        ? `${tuple.subjectType}:*`
+        : tuple.subjectType;
+      if (subjectTypes && !subjectTypes.includes(subjectType)) {
+        throw new Error(
+          `Relation '${tuple.objectType}#${tuple.relation}' does not accept subjects of type '${subjectType}'`
+        );
       }
     }
+  }
 
-    const resource = this.policies[resourceType];
-    if (!resource) {
-      const result = {
-        allowed: false,
-        message: `Unknown resource type '${resourceType}'`,
-      };
-      if (this.cachingEnabled) this.cache.set(cacheKey, result);
-      return result;
-    }
-    const role = resource.roles.find((r) => r.name === roleName);
-    if (!role) {
-      const result = {
-        allowed: false,
-        message: `Unknown role '${roleName}' for resource '${resourceType}'`,
-      };
-      if (this.cachingEnabled) this.cache.set(cacheKey, result);
-      return result;
-    }
-    const allowed = await this.evaluateCondition(
-      role.condition,
-      userId,
-      resourceId
-    );
-    const result = {
-      allowed,
-      message: allowed
-        ? `Role '${roleName}' allowed on ${resourceType}`
-        : `Role '${roleName}' denied on ${resourceType}`,
-    };
-    if (this.cachingEnabled) this.cache.set(cacheKey, result);
-    return result;
+  /**
+   * Attaches the relationship store used to evaluate tuple-based role conditions.
+   *
+   * The Zanzibar plugin calls this during Better Auth initialization with a store backed by
+   * the configured database adapter.
+   *
+   * @param store - The relationship store to read tuples from
+   */
+  setRelationshipStore(store: RelationshipStore): void {
+    this.store = store;
   }
 
   /**
-   * Checks whether a user can perform a specific action on a resource.
+   * Sets where the decision log is recorded, unless the engine was created with a sink.
    *
-   * This method iterates through all roles defined for the resource type and checks
-   * if any role that includes the specified action has a condition that allows the user
-   * to perform that action on the particular resource instance.
+   * The Zanzibar plugin calls this during Better Auth initialization with a sink writing to
+   * the Better Auth database. Decisions are only recorded when the engine was created with
+   * the `decisionLog` option.
+   *
+   * @param sink - The decision sink
+   */
+  setDecisionSink(sink: DecisionSink): void {
+    this.decisionSink = this.decisionLog?.sink ?? sink;
+  }
+
+  /**
+   * The relationship store attached to this engine.
+   *
+   * @throws Error if no relationship store has been attached yet
+   */
+  get relationships(): RelationshipStore {
+    if (!this.store) throw new Error("Relationship store not initialized");
+    return this.store;
+  }
+
+  /**
+   * Streams the relationship change log, starting after a revision.
+   *
+   * The iterator first yields the changes already recorded after `sinceRevision`, then waits
+   * for new ones until the signal aborts. Resume a watch by passing the `revision` of the last
+   * change received.
+   *
+   * @param sinceRevision - Only changes with a later revision are yielded (0 yields the whole log)
+   * @param options - Abort signal and polling interval
+   * @throws Error if no relationship store has been attached yet
    *
    * @example
    * ```typescript
-   * // Check if user can write to a document
-   * const result = await engine.hasPermission(userId, 'write', 'documents', documentId);
-   * if (result.allowed) {
-   *   console.log('User can write to this document');
-   * } else {
-   *   console.log('User cannot write to this document');
+   * const controller = new AbortController();
+   * for await (const change of engine.watch(lastRevision, { signal: controller.signal })) {
+   *   await searchIndex.reindex(change.tuple.objectType, change.tuple.objectId);
+   *   lastRevision = change.revision;
    * }
-   *
-   * // Check if user can delete a project
-   * const deleteResult = await engine.hasPermission(userId, 'delete', 'projects', projectId);
    * ```
+   */
+  async *watch(
+    sinceRevision: number,
+    options: WatchOptions = {}
+  ): AsyncGenerator<RelationshipChange> {
+    const store = this.relationships;
+    const { signal, pollIntervalMs = CHANGE_POLL_INTERVAL_MS } = options;
+    let cursor = sinceRevision;
+    while (!signal?.aborted) {
+      const changes = await store.readChanges(cursor);
+      for (const change of changes) {
+        if (signal?.aborted) return;
+        yield change;
+        cursor = change.revision;
+      }
+      if (changes.length === 0) {
+        await store.waitForChange(pollIntervalMs, signal);
+      }
+    }
+  }
+
+  /**
+   * Invalidates every cached decision about a user.
    *
-   * @param userId - The ID of the user to check permissions for
-   * @param action - The specific action to check (e.g., 'read', 'write', 'delete', 'view', 'edit')
-   * @param resourceType - The type of resource to check permissions for (e.g., 'documents', 'projects')
-   * @param resourceId - The ID of the specific resource instance
-   * @returns Promise resolving to an object with `allowed` boolean and descriptive `message`
+   * Call this when something outside the relationship store changes what a user may do,
+   * such as membership in your own tables read by condition functions.
+   *
+   * @param userId - The user ID, or a subject string such as `team:eng#member`
    */
-  async hasPermission(
-    userId: string,
-    action: string,
+  async invalidateUser(userId: string): Promise<void> {
+    await this.markInvalidated(`user:${this.normalizeSubject(userId)}`);
+  }
+
+  /**
+   * Invalidates every cached decision that consulted a resource, including decisions about
+   * other resources reached through it (parent folders, group memberships and so on).
+   *
+   * @param resourceType - The type of the resource
+   * @param resourceId - The ID of the resource
+   */
+  async invalidateResource(
     resourceType: string,
-    resourceId?: string
-  ): Promise<{ allowed: boolean; message: string }> {
-    const cacheKey = `hasPermission:${userId}:${action}:${resourceType}:${
-      resourceId ?? "*"
-    }`;
+    resourceId: string
+  ): Promise<void> {
+    await this.markInvalidated(`resource:${resourceType}:${resourceId}`);
+  }
+
+  /**
+   * Invalidates every cached decision that consulted any resource of a type.
+   *
+   * @param resourceType - The resource type
+   */
+  async invalidateResourceType(resourceType: string): Promise<void> {
+    await this.markInvalidated(`type:${resourceType}`);
+  }
+
+  /**
+   * Removes every entry from the decision cache.
+   *
+   * @returns The number of removed entries
+   */
+  async clearCache(): Promise<number> {
+    return await this.cache.deleteByPrefix("");
+  }
+
+  /**
+   * Records the time a scope was invalidated. Invalidations are stored in the decision
+   * cache itself so that they reach every instance sharing it, and expire with the
+   * decisions they apply to.
+   */
+  private async markInvalidated(scope: string): Promise<void> {
+    await this.cache.set(
+      `${INVALIDATION_PREFIX}${scope}`,
+      Date.now(),
+      this.cacheTtlSeconds
+    );
+  }
+
+  /**
+   * Checks whether a cached decision was evaluated no later than an invalidation of its
+   * subject, of a resource it consulted or of one of their types.
+   */
+  private async isInvalidated(decision: CachedDecision): Promise<boolean> {
+    const types = new Set(
+      decision.resources.map((resource) => resource.split(":")[0])
+    );
+    const scopes = [
+      `user:${decision.subject}`,
+      ...decision.resources.map((resource) => `resource:${resource}`),
+      ...[...types].map((type) => `type:${type}`),
+    ];
+    const marks = await Promise.all(
+      scopes.map((scope) =>
+        this.cache.get<number>(`${INVALIDATION_PREFIX}${scope}`)
+      )
+    );
+    return marks.some(
+      (mark) => mark !== undefined && mark >= decision.evaluatedAt
+    );
+  }
 
+  private initialState(options: CheckOptions = {}): EvaluationState {
+    return {
+      depth: 0,
+      path: new Set(),
+      ...(options.explain && { trace: { rolesConsidered: [], steps: [] } }),
+      ...(options.context && { context: options.context }),
+    };
+  }
+
+  /**
+   * Runs a check through the decision cache, honouring the consistency options.
+   *
+   * Cached decisions are skipped for `fullyConsistent` checks and re-evaluated when they
+   * started no later than the `atLeastAsFresh` revision or an invalidation that applies to
+   * them; the fresh decision replaces them. Concurrent identical checks share one evaluation,
+   * whether or not caching is enabled.
+   */
+  private async check(
+    cacheKey: string,
+    subject: string,
+    options: CheckOptions,
+    memo: EvaluationMemo,
+    decide: (state: EvaluationState) => Promise<Decision>,
+    logged?: LoggedCheck
+  ): Promise<CheckResult> {
+    const startedAt = performance.now();
+    const evaluatedAt = Date.now();
+    const minRevision =
+      options.atLeastAsFresh === undefined
+        ? undefined
+        : decodeConsistencyToken(options.atLeastAsFresh);
+
+    let cacheStatus: DecisionTrace["cache"] = "disabled";
     if (this.cachingEnabled) {
-      const cached = this.cache.get(cacheKey);
-      if (cached) {
-        return cached as { allowed: boolean; message: string };
+      const cached = options.fullyConsistent
+        ? undefined
+        : await this.cache.get<CachedDecision>(cacheKey);
+      if (options.fullyConsistent) {
+        cacheStatus = "bypassed";
+      } else if (!cached) {
+        cacheStatus = "miss";
+      } else if (
+        (minRevision !== undefined && cached.evaluatedAt <= minRevision) ||
+        (await this.isInvalidated(cached))
+      ) {
+        cacheStatus = "stale";
+      } else {
+        await this.logDecision(logged, subject, options, cached, true);
+        return this.explained(cached, options, startedAt, "hit");
       }
     }
 
-    const resource = this.policies[resourceType];
-    if (!resource) {
-      const result = {
-        allowed: false,
-        message: `Unknown resource type '${resourceType}'`,
-      };
-      if (this.cachingEnabled) this.cache.set(cacheKey, result);
-      return result;
+    // Join an identical evaluation already in flight, unless this check needs its own trace
+    // or data fresher than the evaluation started with
+    const shared = this.inFlight.get(cacheKey);
+    if (
+      shared &&
+      !options.explain &&
+      !options.fullyConsistent &&
+      (minRevision === undefined || shared.evaluatedAt > minRevision)
+    ) {
+      const decision = await shared.decision;
+      await this.logDecision(logged, subject, options, decision, false);
+      return decision.result;
     }
-    if (!resource.actions.includes(action)) {
-      const result = {
-        allowed: false,
-        message: `Unknown action '${action}' for resource '${resourceType}'`,
-      };
-      if (this.cachingEnabled) this.cache.set(cacheKey, result);
-      return result;
+
+    const outcome: EvaluationOutcome = { missing: new Set(), volatile: false };
+    const state = {
+      ...this.initialState(options),
+      resources: new Set<string>(),
+      memo,
+      outcome,
+    };
+    const pending = decide(state).then((decision) =>
+      withMissingContext(decision, outcome)
+    );
+    this.inFlight.set(cacheKey, { evaluatedAt, decision: pending });
+    let decision: Decision;
+    try {
+      decision = await pending;
+    } finally {
+      if (this.inFlight.get(cacheKey)?.decision === pending) {
+        this.inFlight.delete(cacheKey);
+      }
     }
-    for (const role of resource.roles) {
-      if (!role.actions.includes(action)) continue;
-      const allowed = await this.evaluateCondition(
-        role.condition,
-        userId,
-        resourceId
+    // Never keep a decision past the next validity change of a grant it consulted
+    const ttlSeconds =
+      outcome.changesAt === undefined
+        ? this.cacheTtlSeconds
+        : Math.min(
+            this.cacheTtlSeconds,
+            Math.floor((outcome.changesAt - Date.now()) / 1000)
+          );
+    if (this.cachingEnabled && !outcome.volatile && ttlSeconds > 0) {
+      await this.cache.set<CachedDecision>(
+        cacheKey,
+        {
+          ...decision,
+          evaluatedAt,
+          subject,
+          resources: [...state.resources],
+        },
+        ttlSeconds
       );
-      if (allowed) {
-        const result = {
-          allowed: true,
-          message: `Action '${action}' allowed on ${resourceType}`,
-        };
-        if (this.cachingEnabled) this.cache.set(cacheKey, result);
-        return result;
-      }
     }
-    const result = {
-      allowed: false,
-      message: `Action '${action}' denied on ${resourceType}`,
+    await this.logDecision(logged, subject, options, decision, false);
+    return this.explained(decision, options, startedAt, cacheStatus, state);
+  }
+
+  /**
+   * Records a top-level decision in the decision log, subject to its filter and sampling.
+   */
+  private async logDecision(
+    logged: LoggedCheck | undefined,
+    subject: string,
+    options: CheckOptions,
+    decision: Decision,
+    cacheHit: boolean
+  ): Promise<void> {
+    if (!logged || !this.decisionLog || !this.decisionSink) return;
+    const entry: DecisionLogEntry = {
+      timestamp: new Date(),
+      subject,
+      ...logged,
+      allowed: decision.result.allowed,
+      ...(decision.matchedRole && { matchedRole: decision.matchedRole }),
+      ...(decision.result.decidingRule && {
+        decidingRule: decision.result.decidingRule,
+      }),
+      cacheHit,
+      ...(options.requestId && { requestId: options.requestId }),
     };
-    if (this.cachingEnabled) this.cache.set(cacheKey, result);
-    return result;
+    if (this.decisionLog.filter && !this.decisionLog.filter(entry)) return;
+    const sampleRate = this.decisionLog.sampleRate ?? 1;
+    if (sampleRate < 1 && Math.random() >= sampleRate) return;
+    await this.decisionSink.record(entry);
   }
 
   /**
-   * Checks multiple permission checks, each targeting potentially different resources.
+   * Attaches a decision trace to a result when the check was made with `explain: true`.
+   */
+  private explained(
+    decision: Decision,
+    options: CheckOptions,
+    startedAt: number,
+    cache: DecisionTrace["cache"],
+    state?: EvaluationState
+  ): CheckResult {
+    if (!options.explain) return decision.result;
+    return {
+      ...decision.result,
+      trace: {
+        cache,
+        rolesConsidered: state?.trace?.rolesConsidered ?? [],
+        ...(decision.matchedRole && { matchedRole: decision.matchedRole }),
+        steps: state?.trace?.steps ?? [],
+        durationMs: performance.now() - startedAt,
+      },
+    };
+  }
+
+  /**
+   * Normalizes a subject string so that `user:alice` and `alice` share cache entries and
+   * condition functions keep receiving plain user IDs.
+   */
+  private normalizeSubject(userId: string): string {
+    const subject = parseSubject(userId);
+    return subject.type === USER_SUBJECT_TYPE && !subject.relation
+      ? subject.id
+      : userId;
+  }
+
+  /**
+   * Evaluates a role on a resource instance, following rewrites recursively.
+   *
+   * Re-entering a role evaluation already on the current path is treated as not granted,
+   * which breaks cycles such as `folder#viewer -> parent -> folder#viewer`. Relations on
+   * types without a matching role (e.g. plain `team#member` groups) fall back to their
+   * direct tuples.
+   */
+  private async checkRole(
+    resourceType: string,
+    roleName: string,
+    userId: string,
+    resourceId: string | undefined,
+    state: EvaluationState
+  ): Promise<boolean> {
+    const role = this.policies[resourceType]?.roles.find(
+      (r) => r.name === roleName
+    );
+
+    const key = `${resourceType}:${resourceId ?? "*"}#${roleName}`;
+    state.resources?.add(`${resourceType}:${resourceId ?? "*"}`);
+    if (state.path.has(key)) return false;
+    if (state.depth >= this.maxDepth) {
+      throw new Error(
+        `Maximum evaluation depth (${this.maxDepth}) exceeded while checking '${key}'`
+      );
+    }
+    const next = {
+      ...state,
+      depth: state.depth + 1,
+      path: new Set(state.path).add(key),
+    };
+    const batched = state.memo?.batched.get(`${key}@${userId}`);
+    const step: TraceStep | undefined = state.trace && {
+      role: key,
+      condition:
+        batched !== undefined
+          ? "batch"
+          : !role
+          ? "this"
+          : typeof role.condition === "function"
+          ? "function"
+          : role.condition.type,
+      depth: state.depth,
+      allowed: false,
+      durationMs: 0,
+    };
+    if (step) state.trace!.steps.push(step);
+    const startedAt = performance.now();
+
+    let allowed: boolean;
+    if (batched !== undefined) {
+      allowed = batched;
+    } else if (!role) {
+      allowed =
+        resourceId !== undefined &&
+        (await this.checkDirect(
+          resourceType,
+          resourceId,
+          roleName,
+          userId,
+          next
+        ));
+    } else {
+      allowed = await this.evaluateCondition(
+        role.condition,
+        resourceType,
+        roleName,
+        userId,
+        resourceId,
+        next
+      );
+    }
+
+    if (step) {
+      step.allowed = allowed;
+      step.durationMs = performance.now() - startedAt;
+    }
+    return allowed;
+  }
+
+  /**
+   * Checks the tuples stored for `objectType:objectId#relation`.
+   *
+   * A tuple grants the relation when its subject is the checked subject, or when it is a
+   * userset (e.g. `team:eng#member`) the checked subject belongs to, which is resolved
+   * recursively so that nested groups are expanded.
+   */
+  private async checkDirect(
+    objectType: string,
+    objectId: string,
+    relation: string,
+    userId: string,
+    state: EvaluationState
+  ): Promise<boolean> {
+    const subject = parseSubject(userId);
+    const tuples = await this.readRelation(
+      objectType,
+      objectId,
+      relation,
+      state
+    );
+    const usersets = [];
+    for (const tuple of tuples) {
+      if (!matchesSubject(tuple, subject) && !tuple.subjectRelation) continue;
+      if (!this.tupleApplies(tuple, state)) continue;
+      if (matchesSubject(tuple, subject)) return true;
+      usersets.push(tuple);
+    }
+    for (const tuple of usersets) {
+      const allowed = await this.checkRole(
+        tuple.subjectType,
+        tuple.subjectRelation!,
+        userId,
+        tuple.subjectId,
+        state
+      );
+      if (allowed) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Checks whether a tuple applies: the current time is within its validity window and its
+   * caveat, if any, holds.
+   *
+   * The next validity change is recorded on the check to bound how long it is cached.
+   * Caveats are evaluated against the tuple's context merged over the check context;
+   * missing parameters are recorded on the check, and the caveat is assumed not to hold
+   * (or to hold, in negated positions) so that missing context never grants access.
+   */
+  private tupleApplies(tuple: RelationTuple, state: EvaluationState): boolean {
+    const now = Date.now();
+    const validFrom = tuple.validFrom?.getTime();
+    const validUntil = tuple.validUntil?.getTime();
+    if (validUntil !== undefined && validUntil <= now) return false;
+    const changesAt =
+      validFrom !== undefined && validFrom > now ? validFrom : validUntil;
+    if (changesAt !== undefined && state.outcome) {
+      state.outcome.changesAt = Math.min(
+        state.outcome.changesAt ?? Infinity,
+        changesAt
+      );
+    }
+    if (validFrom !== undefined && validFrom > now) return false;
+
+    if (!tuple.caveatName) return true;
+    const caveat = this.caveats.get(tuple.caveatName);
+    if (!caveat) throw new Error(`Unknown caveat '${tuple.caveatName}'`);
+    if (caveat.usesNow && state.context?.[CAVEAT_NOW] === undefined) {
+      if (state.outcome) state.outcome.volatile = true;
+    }
+    const result = caveat.evaluate({
+      ...state.context,
+      ...tuple.caveatContext,
+    });
+    if (typeof result === "boolean") return result;
+    for (const parameter of result.missing) {
+      state.outcome?.missing.add(parameter);
+    }
+    return state.negated === true;
+  }
+
+  private async evaluateCondition(
+    condition: RoleCondition,
+    resourceType: string,
+    roleName: string,
+    userId: string,
+    resourceId: string | undefined,
+    state: EvaluationState
+  ): Promise<boolean> {
+    if (typeof condition === "function") {
+      // Public access only comes from tuples: function conditions are not evaluated for the
+      // anonymous subject, and are assumed not to grant (or, in negated positions, to hold)
+      if (userId === ANONYMOUS_SUBJECT) return state.negated === true;
+      return await this.memoizedFunction(condition, userId, resourceId, state);
+    }
+
+    switch (condition.type) {
+      case "this":
+      case "tuple": {
+        // Tuple lookups always target a specific resource instance
+        if (resourceId === undefined) return false;
+        return await this.checkDirect(
+          resourceType,
+          resourceId,
+          condition.type === "this" ? roleName : condition.relation,
+          userId,
+          state
+        );
+      }
+      case "computedUserset":
+        return await this.checkRole(
+          resourceType,
+          condition.role,
+          userId,
+          resourceId,
+          state
+        );
+      case "tupleToUserset": {
+        if (resourceId === undefined) return false;
+        const parents = await this.readRelation(
+          resourceType,
+          resourceId,
+          condition.tupleset,
+          state
+        );
+        for (const parent of parents) {
+          if (!this.tupleApplies(parent, state)) continue;
+          const allowed = await this.checkRole(
+            parent.subjectType,
+            condition.computedUserset,
+            userId,
+            parent.subjectId,
+            state
+          );
+          if (allowed) return true;
+        }
+        return false;
+      }
+      case "union":
+        for (const child of condition.children) {
+          const allowed = await this.evaluateCondition(
+            child,
+            resourceType,
+            roleName,
+            userId,
+            resourceId,
+            state
+          );
+          if (allowed) return true;
+        }
+        return false;
+      case "intersection":
+        if (condition.children.length === 0) return false;
+        for (const child of condition.children) {
+          const allowed = await this.evaluateCondition(
+            child,
+            resourceType,
+            roleName,
+            userId,
+            resourceId,
+            state
+          );
+          if (!allowed) return false;
+        }
+        return true;
+      case "exclusion":
+        return (
+          (await this.evaluateCondition(
+            condition.base,
+            resourceType,
+            roleName,
+            userId,
+            resourceId,
+            state
+          )) &&
+          !(await this.evaluateCondition(
+            condition.subtract,
+            resourceType,
+            roleName,
+            userId,
+            resourceId,
+            { ...state, negated: !state.negated }
+          ))
+        );
+    }
+  }
+
+  /**
+   * Reads the tuples stored for `objectType:objectId#relation`, sharing the read with the
+   * other checks of the same call.
+   */
+  private readRelation(
+    objectType: string,
+    objectId: string,
+    relation: string,
+    state: EvaluationState
+  ): Promise<RelationTuple[]> {
+    const read = () =>
+      this.relationships.read({ objectType, objectId, relation });
+    if (!state.memo) return read();
+    const key = `${objectType}:${objectId}#${relation}`;
+    let tuples = state.memo.tuples.get(key);
+    if (!tuples) {
+      tuples = read();
+      state.memo.tuples.set(key, tuples);
+    }
+    return tuples;
+  }
+
+  /**
+   * Evaluates a condition function, sharing the result with the other checks of the same call.
+   */
+  private memoizedFunction(
+    condition: RelationshipFunction,
+    userId: string,
+    resourceId: string | undefined,
+    state: EvaluationState
+  ): Promise<boolean> {
+    if (!state.memo) {
+      return this.evaluateFunction(
+        condition,
+        userId,
+        resourceId,
+        state.context
+      );
+    }
+    let results = state.memo.conditions.get(condition);
+    if (!results) {
+      results = new Map();
+      state.memo.conditions.set(condition, results);
+    }
+    const key = `${userId}\u0000${resourceId ?? "*"}`;
+    let result = results.get(key);
+    if (!result) {
+      result = this.evaluateFunction(
+        condition,
+        userId,
+        resourceId,
+        state.context
+      );
+      results.set(key, result);
+    }
+    return result;
+  }
+
+  private async evaluateFunction(
+    condition: RelationshipFunction,
+    userId: string,
+    resourceId?: string,
+    context?: CheckContext
+  ): Promise<boolean> {
+    // No resourceId: only global conditions apply; they still receive the context
+    if (resourceId === undefined && !isGlobalCondition(condition)) {
+      return false;
+    }
+    // Extra arguments are ignored by 1-arg functions
+    return await (
+      condition as unknown as (
+        u: string,
+        r: string | undefined,
+        c: CheckContext | undefined
+      ) => Promise<boolean>
+    )(userId, resourceId, context);
+  }
+
+  /**
+   * Checks whether a user belongs to a subject, expanding nested usersets.
+   *
+   * @example
+   * ```typescript
+   * await engine.isSubjectMember(userId, 'team:eng#member'); // true if userId is (transitively) an eng member
+   * ```
+   *
+   * @param userId - The ID of the user to check
+   * @param subject - A subject string such as `team:eng#member` or `user:alice`
+   * @returns Promise resolving to true if the user is the subject or a member of the userset;
+   *   every user belongs to `user:*` and `anonymous:*`
+   */
+  async isSubjectMember(userId: string, subject: string): Promise<boolean> {
+    const parsed = parseSubject(subject);
+    if (parsed.id === WILDCARD_SUBJECT_ID && !parsed.relation) {
+      return (
+        parsed.type === USER_SUBJECT_TYPE ||
+        parsed.type === ANONYMOUS_SUBJECT_TYPE
+      );
+    }
+    if (!parsed.relation) {
+      return (
+        parsed.type === USER_SUBJECT_TYPE &&
+        parsed.id === this.normalizeSubject(userId)
+      );
+    }
+    return await this.checkRole(
+      parsed.type,
+      parsed.relation,
+      this.normalizeSubject(userId),
+      parsed.id,
+      this.initialState()
+    );
+  }
+
+  /**
+   * Checks whether a user has a specific role for a given resource.
+   *
+   * This method evaluates the role condition associated with the specified role, following
+   * userset rewrites (computed usersets, tuple-to-userset inheritance, union, intersection
+   * and exclusion), to determine if the user should be granted that role for the particular
+   * resource instance.
+   *
+   * @example
+   * ```typescript
+   * // Check if user has editor role for a document
+   * const result = await engine.hasRole('documents', 'editor', userId, documentId);
+   * if (result.allowed) {
+   *   console.log('User can edit this document');
+   * } else {
+   *   console.log('User cannot edit this document');
+   * }
+   *
+   * // Check whether every member of a team is an editor
+   * await engine.hasRole('documents', 'editor', 'team:eng#member', documentId);
+   * ```
+   *
+   * @param resourceType - The type of resource to check permissions for (e.g., 'documents', 'projects')
+   * @param roleName - The name of the role to check (e.g., 'editor', 'viewer', 'admin')
+   * @param userId - The ID of the user, or a userset subject such as `team:eng#member`, to check permissions for
+   * @param resourceId - The ID of the specific resource instance
+   * @param options - Check options: `explain` adds a decision `trace` to the result, and
+   *   `atLeastAsFresh`/`fullyConsistent` control how stale a cached decision may be, and
+   *   `context` is forwarded to condition functions
+   * @returns Promise resolving to an object with `allowed` boolean and descriptive `message`
+   */
+  async hasRole(
+    resourceType: string,
+    roleName: string,
+    userId: string,
+    resourceId?: string,
+    options: CheckOptions = {}
+  ): Promise<CheckResult> {
+    return await this.roleCheck(
+      resourceType,
+      roleName,
+      userId,
+      resourceId,
+      options,
+      createMemo(),
+      true
+    );
+  }
+
+  private async roleCheck(
+    resourceType: string,
+    roleName: string,
+    userId: string,
+    resourceId: string | undefined,
+    options: CheckOptions,
+    memo: EvaluationMemo,
+    logged = false
+  ): Promise<CheckResult> {
+    userId = this.normalizeSubject(userId);
+    const cacheKey = `hasRole:${resourceType}:${roleName}:${userId}:${
+      resourceId ?? "*"
+    }${contextKey(options.context)}`;
+    return await this.check(
+      cacheKey,
+      userId,
+      options,
+      memo,
+      (state) =>
+        this.decideRole(resourceType, roleName, userId, resourceId, state),
+      logged
+        ? { role: roleName, resourceType, ...(resourceId && { resourceId }) }
+        : undefined
+    );
+  }
+
+  private async decideRole(
+    resourceType: string,
+    roleName: string,
+    userId: string,
+    resourceId: string | undefined,
+    state: EvaluationState
+  ): Promise<Decision> {
+    const resource = this.policies[resourceType];
+    if (!resource) {
+      return {
+        result: {
+          allowed: false,
+          message: `Unknown resource type '${resourceType}'`,
+        },
+      };
+    }
+    const role = resource.roles.find((r) => r.name === roleName);
+    if (!role) {
+      return {
+        result: {
+          allowed: false,
+          message: `Unknown role '${roleName}' for resource '${resourceType}'`,
+        },
+      };
+    }
+    state.trace?.rolesConsidered.push(roleName);
+    const allowed = await this.checkRole(
+      resourceType,
+      roleName,
+      userId,
+      resourceId,
+      state
+    );
+    return {
+      result: {
+        allowed,
+        message: allowed
+          ? `Role '${roleName}' allowed on ${resourceType}`
+          : `Role '${roleName}' denied on ${resourceType}`,
+      },
+      ...(allowed && { matchedRole: roleName }),
+    };
+  }
+
+  /**
+   * Checks whether a user can perform a specific action on a resource.
+   *
+   * This method iterates through all roles defined for the resource type and checks
+   * if any role that includes the specified action has a condition that allows the user
+   * to perform that action on the particular resource instance.
+   *
+   * @example
+   * ```typescript
+   * // Check if user can write to a document
+   * const result = await engine.hasPermission(userId, 'write', 'documents', documentId);
+   * if (result.allowed) {
+   *   console.log('User can write to this document');
+   * } else {
+   *   console.log('User cannot write to this document');
+   * }
+   *
+   * // Check if user can delete a project
+   * const deleteResult = await engine.hasPermission(userId, 'delete', 'projects', projectId);
+   * ```
+   *
+   * @param userId - The ID of the user, or a userset subject such as `team:eng#member`, to check permissions for
+   * @param action - The specific action to check (e.g., 'read', 'write', 'delete', 'view', 'edit')
+   * @param resourceType - The type of resource to check permissions for (e.g., 'documents', 'projects')
+   * @param resourceId - The ID of the specific resource instance
+   * @param options - Check options: `explain` adds a decision `trace` to the result, and
+   *   `atLeastAsFresh`/`fullyConsistent` control how stale a cached decision may be, and
+   *   `context` is forwarded to condition functions
+   * @returns Promise resolving to an object with `allowed` boolean and descriptive `message`
+   */
+  async hasPermission(
+    userId: string,
+    action: string,
+    resourceType: string,
+    resourceId?: string,
+    options: CheckOptions = {}
+  ): Promise<CheckResult> {
+    return await this.permissionCheck(
+      userId,
+      action,
+      resourceType,
+      resourceId,
+      options,
+      createMemo(),
+      true
+    );
+  }
+
+  private async permissionCheck(
+    userId: string,
+    action: string,
+    resourceType: string,
+    resourceId: string | undefined,
+    options: CheckOptions,
+    memo: EvaluationMemo,
+    logged = false
+  ): Promise<CheckResult> {
+    userId = this.normalizeSubject(userId);
+    const cacheKey = `hasPermission:${userId}:${action}:${resourceType}:${
+      resourceId ?? "*"
+    }${contextKey(options.context)}`;
+    return await this.check(
+      cacheKey,
+      userId,
+      options,
+      memo,
+      (state) =>
+        this.decidePermission(userId, action, resourceType, resourceId, state),
+      logged
+        ? { action, resourceType, ...(resourceId && { resourceId }) }
+        : undefined
+    );
+  }
+
+  private async decidePermission(
+    userId: string,
+    action: string,
+    resourceType: string,
+    resourceId: string | undefined,
+    state: EvaluationState
+  ): Promise<Decision> {
+    const resource = this.policies[resourceType];
+    if (!resource) {
+      return {
+        result: {
+          allowed: false,
+          message: `Unknown resource type '${resourceType}'`,
+        },
+      };
+    }
+    if (!resource.actions.includes(action)) {
+      return {
+        result: {
+          allowed: false,
+          message: `Unknown action '${action}' for resource '${resourceType}'`,
+        },
+      };
+    }
+    for (const rule of this.combiningOrder(resourceType, action)) {
+      if (rule.type === "deny") {
+        const denied = await this.evaluateDenyRule(
+          rule.rule,
+          resourceType,
+          userId,
+          resourceId,
+          state
+        );
+        if (denied) {
+          return {
+            result: {
+              allowed: false,
+              message: `Action '${action}' denied on ${resourceType} by rule '${rule.rule.name}'`,
+              decidingRule: { type: "deny", name: rule.rule.name },
+            },
+          };
+        }
+        continue;
+      }
+      const role = rule.role;
+      state.trace?.rolesConsidered.push(role.name);
+      const allowed = await this.checkRole(
+        resourceType,
+        role.name,
+        userId,
+        resourceId,
+        state
+      );
+      if (allowed) {
+        return {
+          result: {
+            allowed: true,
+            message: `Action '${action}' allowed on ${resourceType}`,
+            decidingRule: { type: "role", name: role.name },
+          },
+          matchedRole: role.name,
+        };
+      }
+    }
+    return {
+      result: {
+        allowed: false,
+        message: `Action '${action}' denied on ${resourceType}`,
+      },
+    };
+  }
+  /**
+   * Orders the deny rules and roles applying to an action so that the first one matching
+   * decides, which implements every combining algorithm.
+   */
+  private combiningOrder(
+    resourceType: string,
+    action: string
+  ): Array<
+    { type: "deny"; rule: DenyRule } | { type: "role"; role: ResourceRole }
+  > {
+    const resource = this.policies[resourceType];
+    const algorithm = resource.combiningAlgorithm ?? this.combiningAlgorithm;
+    const denyRules = (resource.denyRules ?? [])
+      .filter((rule) => rule.actions.includes(action))
+      .map((rule) => ({ type: "deny" as const, rule }));
+    const roles = resource.roles.map((role) => ({
+      type: "role" as const,
+      role,
+    }));
+    const granting = roles.filter(({ role }) => role.actions.includes(action));
+
+    switch (algorithm) {
+      case "deny-overrides":
+        return [...denyRules, ...granting];
+      case "permit-overrides":
+        return [...granting, ...denyRules];
+      case "first-applicable":
+        return [
+          ...denyRules.filter(({ rule }) => rule.before === undefined),
+          ...roles.flatMap((entry) => [
+            ...denyRules.filter(({ rule }) => rule.before === entry.role.name),
+            ...(entry.role.actions.includes(action) ? [entry] : []),
+          ]),
+        ];
+    }
+  }
+
+  /**
+   * Evaluates whether a deny rule matches, recording it in the trace like a role.
+   */
+  private async evaluateDenyRule(
+    rule: DenyRule,
+    resourceType: string,
+    userId: string,
+    resourceId: string | undefined,
+    state: EvaluationState
+  ): Promise<boolean> {
+    state.resources?.add(`${resourceType}:${resourceId ?? "*"}`);
+    const step: TraceStep | undefined = state.trace && {
+      role: `${resourceType}:${resourceId ?? "*"}#${rule.name}`,
+      condition:
+        typeof rule.condition === "function" ? "function" : rule.condition.type,
+      depth: state.depth,
+      allowed: false,
+      durationMs: 0,
+      denyRule: true,
+    };
+    if (step) state.trace!.steps.push(step);
+    const startedAt = performance.now();
+    const matched = await this.evaluateCondition(
+      rule.condition,
+      resourceType,
+      rule.name,
+      userId,
+      resourceId,
+      { ...state, depth: state.depth + 1, negated: !state.negated }
+    );
+    if (step) {
+      step.allowed = matched;
+      step.durationMs = performance.now() - startedAt;
+    }
+    return matched;
+  }
+
+  /**
+   * Checks multiple permission checks, each targeting potentially different resources.
    *
    * This method allows you to perform multiple permission checks with custom names,
    * where each check can target different resource types, actions, and resource IDs.
    *
    * @example
    * ```typescript
-   * // Check various permissions with custom names
-   * const result = await engine.hasPermissions(userId, {
-   *   projectEdit: {
-   *     resourceType: 'project',
-   *     actions: ['update', 'delete'],
-   *     resourceId: 'project-123'
-   *   },
-   *   folderCreate: {
-   *     resourceType: 'folder',
-   *     action: 'create',
-   *     resourceId: 'folder-456'
-   *   }
-   * });
-   * console.log(result.projectEdit.allowed); // boolean
-   * console.log(result.folderCreate.allowed); // boolean
+   * // Check various permissions with custom names
+   * const result = await engine.hasPermissions(userId, {
+   *   projectEdit: {
+   *     resourceType: 'project',
+   *     actions: ['update', 'delete'],
+   *     resourceId: 'project-123'
+   *   },
+   *   folderCreate: {
+   *     resourceType: 'folder',
+   *     action: 'create',
+   *     resourceId: 'folder-456'
+   *   }
+   * });
+   * console.log(result.projectEdit.allowed); // boolean
+   * console.log(result.folderCreate.allowed); // boolean
+   * ```
+   *
+   * @param userId - The ID of the user, or a userset subject such as `team:eng#member`, to check permissions for
+   * @param checks - Object with custom keys mapping to permission check definitions
+   * @param options - Check options applied to every check; `explain: true` adds decision traces to each result
+   * @returns Promise resolving to an object with results keyed by the custom names
+   */
+  async hasPermissions(
+    userId: string,
+    checks: Record<string, PermissionCheck>,
+    options: CheckOptions = {}
+  ): Promise<Record<string, PermissionsCheckResult>> {
+    const memo = createMemo();
+    const promises = Object.entries(checks).map(async ([key, check]) => {
+      const { resourceType, action, actions, resourceId } = check;
+
+      // Determine if this is a single or multiple permission check
+      if (action) {
+        // Single permission check
+        const result = await this.permissionCheck(
+          userId,
+          action,
+          resourceType,
+          resourceId,
+          options,
+          memo,
+          true
+        );
+        return {
+          key,
+          result: {
+            allowed: result.allowed,
+            message: result.message,
+            ...(result.decidingRule && { decidingRule: result.decidingRule }),
+            ...(result.trace && { trace: result.trace }),
+          },
+        };
+      } else if (actions && actions.length > 0) {
+        // Multiple permissions check for this resource
+        const permissionResults: Record<string, boolean> = {};
+        const traces: Record<string, DecisionTrace> = {};
+        const permChecks = actions.map((act) =>
+          this.permissionCheck(
+            userId,
+            act,
+            resourceType,
+            resourceId,
+            options,
+            memo,
+            true
+          ).then((res) => ({
+            action: act,
+            allowed: res.allowed,
+            trace: res.trace,
+          }))
+        );
+
+        const results = await Promise.all(permChecks);
+        let allAllowed = true;
+        const deniedActions: string[] = [];
+
+        for (const { action: act, allowed, trace } of results) {
+          permissionResults[act] = allowed;
+          if (trace) traces[act] = trace;
+          if (!allowed) {
+            allAllowed = false;
+            deniedActions.push(act);
+          }
+        }
+
+        return {
+          key,
+          result: {
+            allowed: allAllowed,
+            message: allAllowed
+              ? `All permissions granted for ${resourceType}`
+              : `Some permissions denied for ${resourceType}: ${deniedActions.join(
+                  ", "
+                )}`,
+            results: permissionResults,
+            ...(options.explain && { traces }),
+          },
+        };
+      } else {
+        return {
+          key,
+          result: {
+            allowed: false,
+            message: "No action or actions specified",
+          },
+        };
+      }
+    });
+
+    const results = await Promise.all(promises);
+    const finalResult: Record<string, PermissionsCheckResult> = {};
+
+    for (const { key, result } of results) {
+      finalResult[key] = result;
+    }
+
+    return finalResult;
+  }
+
+  /**
+   * Checks whether a user can perform an action on many resources of the same type.
+   *
+   * Roles declaring a batch condition (`{ condition, batch }` in `roleConditions`) are
+   * evaluated once for all resources, including roles they reference through computed
+   * usersets; every other condition falls back to one evaluation per resource.
+   * Each resource's decision is recorded in the decision log like a `hasPermission` check.
+   *
+   * @example
+   * ```typescript
+   * const results = await engine.checkBulk(userId, 'read', 'documents', documentIds);
+   * const readable = documentIds.filter((id) => results[id]);
+   * ```
+   *
+   * @param userId - The ID of the user, or a userset subject such as `team:eng#member`, to check
+   * @param action - The action to check (e.g., 'read', 'write', 'delete')
+   * @param resourceType - The type of the resources
+   * @param resourceIds - The IDs of the resources to check
+   * @param options - Consistency options and context applied to every check
+   * @returns Promise resolving to whether the action is allowed, keyed by resource ID
+   */
+  async checkBulk(
+    userId: string,
+    action: string,
+    resourceType: string,
+    resourceIds: readonly string[],
+    options: Pick<
+      CheckOptions,
+      "atLeastAsFresh" | "fullyConsistent" | "context" | "requestId"
+    > = {}
+  ): Promise<Record<string, boolean>> {
+    const subject = this.normalizeSubject(userId);
+    const ids = [...new Set(resourceIds)];
+    const memo = createMemo();
+
+    const resource = this.policies[resourceType];
+    if (
+      resource?.actions.includes(action) &&
+      ids.length > 0 &&
+      subject !== ANONYMOUS_SUBJECT
+    ) {
+      const roleNames = this.reachableRoles(
+        resourceType,
+        resource.roles.filter((r) => r.actions.includes(action))
+      );
+      for (const role of resource.roles) {
+        if (!role.batch || !roleNames.has(role.name)) continue;
+        const granted = await role.batch(subject, ids, options.context);
+        const own = unionFunction(role.condition);
+        if (!own) {
+          for (const id of ids) {
+            memo.batched.set(
+              `${resourceType}:${id}#${role.name}@${subject}`,
+              granted.has(id)
+            );
+          }
+        } else {
+          // Only the role's own function is batched; inheriting roles are still checked
+          const results = new Map<string, Promise<boolean>>();
+          for (const id of ids) {
+            results.set(
+              `${subject}\u0000${id}`,
+              Promise.resolve(granted.has(id))
+            );
+          }
+          memo.conditions.set(own, results);
+        }
+      }
+    }
+
+    const decisions = await Promise.all(
+      ids.map((id) =>
+        this.permissionCheck(
+          subject,
+          action,
+          resourceType,
+          id,
+          options,
+          memo,
+          true
+        )
+      )
+    );
+    const results: Record<string, boolean> = {};
+    ids.forEach((id, index) => {
+      results[id] = decisions[index].allowed;
+    });
+    return results;
+  }
+
+  /**
+   * Collects the names of the given roles and of every role of the same resource type they
+   * reference through computed usersets.
+   */
+  private reachableRoles(
+    resourceType: string,
+    roles: readonly ResourceRole[]
+  ): Set<string> {
+    const names = new Set<string>();
+    const pending = [...roles];
+    while (pending.length > 0) {
+      const role = pending.pop()!;
+      if (names.has(role.name)) continue;
+      names.add(role.name);
+      for (const name of computedRoles(role.condition)) {
+        const referenced = this.policies[resourceType].roles.find(
+          (r) => r.name === name
+        );
+        if (referenced) pending.push(referenced);
+      }
+    }
+    return names;
+  }
+
+  /**
+   * Lists the IDs of resources of a type on which a user can perform an action.
+   *
+   * Candidates are collected from relationship tuples (following userset rewrites and group
+   * subjects) and from the enumerators registered for function conditions, then each candidate
+   * is verified with `hasPermission`, so the result always agrees with individual checks.
+   * Roles whose function conditions have no enumerator cannot contribute resources, and
+   * enumerators are not called for the anonymous subject.
+   *
+   * With `after` and `limit`, only the candidates of the requested page are verified, which
+   * is what makes paging cheap; collecting the candidates still reads every tuple that
+   * could grant the action.
+   *
+   * @example
+   * ```typescript
+   * const writable = await engine.lookupResources(userId, 'write', 'documents');
+   * // ['doc-1', 'doc-7']
+   *
+   * const nextPage = await engine.lookupResources(userId, 'write', 'documents', {
+   *   after: 'doc-7',
+   *   limit: 50,
+   * });
+   * ```
+   *
+   * @param userId - The ID of the user, or a userset subject such as `team:eng#member`
+   * @param action - The action to check (e.g., 'read', 'write')
+   * @param resourceType - The type of resource to list
+   * @param options - Check options applied to every candidate, and the page to return
+   * @returns Promise resolving to the sorted IDs of the resources the action is allowed on
+   */
+  async lookupResources(
+    userId: string,
+    action: string,
+    resourceType: string,
+    options: LookupResourcesOptions = {}
+  ): Promise<string[]> {
+    userId = this.normalizeSubject(userId);
+    const resource = this.policies[resourceType];
+    if (!resource || !resource.actions.includes(action)) return [];
+
+    const roleNames = resource.roles
+      .filter((role) => role.actions.includes(action))
+      .map((role) => role.name);
+    const approximations = new Map<string, Set<string>>();
+    let candidates = new Set<string>();
+    for (let pass = 0; pass < this.maxDepth; pass++) {
+      const state: LookupState = {
+        approximations,
+        completed: new Map(),
+        visiting: new Set(),
+        changed: false,
+      };
+      candidates = new Set();
+      for (const roleName of roleNames) {
+        const ids = await this.lookupRole(
+          resourceType,
+          roleName,
+          userId,
+          state
+        );
+        for (const id of ids) candidates.add(id);
+      }
+      if (!state.changed) break;
+    }
+
+    const { after, limit = Infinity, ...checkOptions } = options;
+    const allowed: string[] = [];
+    const memo = createMemo();
+    for (const resourceId of [...candidates].sort()) {
+      if (allowed.length >= limit) break;
+      if (after !== undefined && resourceId <= after) continue;
+      const result = await this.permissionCheck(
+        userId,
+        action,
+        resourceType,
+        resourceId,
+        checkOptions,
+        memo
+      );
+      if (result.allowed) allowed.push(resourceId);
+    }
+    return allowed;
+  }
+
+  private async lookupRole(
+    resourceType: string,
+    roleName: string,
+    userId: string,
+    state: LookupState
+  ): Promise<Set<string>> {
+    const key = `${resourceType}#${roleName}`;
+    const completed = state.completed.get(key);
+    if (completed) return completed;
+    if (state.visiting.has(key)) {
+      return state.approximations.get(key) ?? new Set();
+    }
+
+    state.visiting.add(key);
+    const role = this.policies[resourceType]?.roles.find(
+      (r) => r.name === roleName
+    );
+    const ids = role
+      ? await this.lookupCondition(
+          role.condition,
+          resourceType,
+          roleName,
+          userId,
+          state
+        )
+      : await this.lookupDirect(resourceType, roleName, userId, state);
+    if (role?.enumerate && userId !== ANONYMOUS_SUBJECT) {
+      for (const id of await role.enumerate(userId)) ids.add(id);
+    }
+    state.visiting.delete(key);
+
+    const previous = state.approximations.get(key) ?? new Set<string>();
+    for (const id of ids) {
+      if (!previous.has(id)) state.changed = true;
+    }
+    const merged = new Set([...previous, ...ids]);
+    state.approximations.set(key, merged);
+    state.completed.set(key, merged);
+    return merged;
+  }
+
+  private async lookupCondition(
+    condition: RoleCondition,
+    resourceType: string,
+    roleName: string,
+    userId: string,
+    state: LookupState
+  ): Promise<Set<string>> {
+    if (typeof condition === "function") {
+      // Opaque; covered by the role's enumerator if one is registered
+      return new Set();
+    }
+
+    switch (condition.type) {
+      case "this":
+      case "tuple":
+        return await this.lookupDirect(
+          resourceType,
+          condition.type === "this" ? roleName : condition.relation,
+          userId,
+          state
+        );
+      case "computedUserset":
+        return new Set(
+          await this.lookupRole(resourceType, condition.role, userId, state)
+        );
+      case "tupleToUserset": {
+        const links = await this.relationships.read({
+          objectType: resourceType,
+          relation: condition.tupleset,
+        });
+        const ids = new Set<string>();
+        const parentIds = new Map<string, Set<string>>();
+        for (const link of links) {
+          let allowedParents = parentIds.get(link.subjectType);
+          if (!allowedParents) {
+            allowedParents = await this.lookupRole(
+              link.subjectType,
+              condition.computedUserset,
+              userId,
+              state
+            );
+            parentIds.set(link.subjectType, allowedParents);
+          }
+          if (allowedParents.has(link.subjectId)) ids.add(link.objectId);
+        }
+        return ids;
+      }
+      case "union": {
+        const ids = new Set<string>();
+        for (const child of condition.children) {
+          const childIds = await this.lookupCondition(
+            child,
+            resourceType,
+            roleName,
+            userId,
+            state
+          );
+          for (const id of childIds) ids.add(id);
+        }
+        return ids;
+      }
+      case "intersection": {
+        const childIds: Set<string>[] = [];
+        for (const child of condition.children) {
+          childIds.push(
+            await this.lookupCondition(
+              child,
+              resourceType,
+              roleName,
+              userId,
+              state
+            )
+          );
+        }
+        const [first, ...rest] = childIds;
+        if (!first) return new Set();
+        return new Set(
+          [...first].filter((id) => rest.every((ids) => ids.has(id)))
+        );
+      }
+      case "exclusion":
+        // Candidates only; excluded resources are filtered out by the final verification
+        return await this.lookupCondition(
+          condition.base,
+          resourceType,
+          roleName,
+          userId,
+          state
+        );
+    }
+  }
+
+  private async lookupDirect(
+    objectType: string,
+    relation: string,
+    userId: string,
+    state: LookupState
+  ): Promise<Set<string>> {
+    const subject = parseSubject(userId);
+    const tuples = await this.relationships.read({ objectType, relation });
+    const ids = new Set<string>();
+    const groupIds = new Map<string, Set<string>>();
+    for (const tuple of tuples) {
+      if (matchesSubject(tuple, subject)) {
+        ids.add(tuple.objectId);
+        continue;
+      }
+      if (!tuple.subjectRelation) continue;
+      const groupKey = `${tuple.subjectType}#${tuple.subjectRelation}`;
+      let memberOf = groupIds.get(groupKey);
+      if (!memberOf) {
+        memberOf = await this.lookupRole(
+          tuple.subjectType,
+          tuple.subjectRelation,
+          userId,
+          state
+        );
+        groupIds.set(groupKey, memberOf);
+      }
+      if (memberOf.has(tuple.subjectId)) ids.add(tuple.objectId);
+    }
+    return ids;
+  }
+
+  /**
+   * Lists the subjects holding a role, or able to perform an action, on a resource.
+   *
+   * Subjects are collected from relationship tuples, following userset rewrites and
+   * expanding group subjects; a group is reported itself (e.g. `team:eng#member`) as well as
+   * through its members. Each subject is verified with `hasRole`/`hasPermission` and reported
+   * once, with the shortest path by which it was granted. Function conditions are opaque and
+   * cannot contribute subjects.
+   *
+   * @example
+   * ```typescript
+   * const editors = await engine.lookupSubjects('documents', 'doc-123', 'write');
+   * // [
+   * //   { subject: 'user:alice', path: ['documents:doc-123#editor'], direct: true },
+   * //   { subject: 'team:eng#member', path: ['documents:doc-123#owner'], direct: false },
+   * //   { subject: 'user:bob', path: ['documents:doc-123#owner', 'team:eng#member'], direct: false },
+   * // ]
    * ```
    *
-   * @param userId - The ID of the user to check permissions for
-   * @param checks - Object with custom keys mapping to permission check definitions
-   * @returns Promise resolving to an object with results keyed by the custom names
+   * @param resourceType - The type of the resource (e.g., 'documents')
+   * @param resourceId - The ID of the resource instance
+   * @param roleOrAction - A role name, or an action granted by one or more roles
+   * @returns Promise resolving to the subjects with the path by which each was granted
    */
-  async hasPermissions(
-    userId: string,
-    checks: Record<
-      string,
-      {
-        resourceType: string;
-        action?: string;
-        actions?: string[];
-        resourceId?: string;
-      }
-    >
-  ): Promise<
-    Record<
-      string,
-      {
-        allowed: boolean;
-        message: string;
-        results?: Record<string, boolean>;
+  async lookupSubjects(
+    resourceType: string,
+    resourceId: string,
+    roleOrAction: string
+  ): Promise<SubjectGrant[]> {
+    const resource = this.policies[resourceType];
+    if (!resource) return [];
+    const isRole = resource.roles.some((role) => role.name === roleOrAction);
+    const roleNames = isRole
+      ? [roleOrAction]
+      : resource.actions.includes(roleOrAction)
+      ? resource.roles
+          .filter((role) => role.actions.includes(roleOrAction))
+          .map((role) => role.name)
+      : [];
+
+    const candidates = new Map<string, string[]>();
+    for (const roleName of roleNames) {
+      const found = await this.expandSubjects(
+        resourceType,
+        roleName,
+        resourceId,
+        [],
+        this.initialState()
+      );
+      mergeSubjects(candidates, found);
+    }
+
+    const grants: SubjectGrant[] = [];
+    const memo = createMemo();
+    for (const [subject, path] of candidates) {
+      const result = isRole
+        ? await this.roleCheck(
+            resourceType,
+            roleOrAction,
+            subject,
+            resourceId,
+            {},
+            memo
+          )
+        : await this.permissionCheck(
+            subject,
+            roleOrAction,
+            resourceType,
+            resourceId,
+            {},
+            memo
+          );
+      if (result.allowed) {
+        grants.push({ subject, path, direct: path.length === 1 });
       }
-    >
-  > {
-    const promises = Object.entries(checks).map(async ([key, check]) => {
-      const { resourceType, action, actions, resourceId } = check;
+    }
+    return grants.sort(
+      (a, b) =>
+        a.path.length - b.path.length || a.subject.localeCompare(b.subject)
+    );
+  }
 
-      // Determine if this is a single or multiple permission check
-      if (action) {
-        // Single permission check
-        const result = await this.hasPermission(
-          userId,
-          action,
+  /**
+   * Collects candidate subjects for a role on a resource, keyed by formatted subject,
+   * with the path by which each was reached.
+   */
+  private async expandSubjects(
+    resourceType: string,
+    roleName: string,
+    resourceId: string,
+    path: readonly string[],
+    state: EvaluationState
+  ): Promise<Map<string, string[]>> {
+    const key = `${resourceType}:${resourceId}#${roleName}`;
+    if (state.path.has(key)) return new Map();
+    if (state.depth >= this.maxDepth) {
+      throw new Error(
+        `Maximum evaluation depth (${this.maxDepth}) exceeded while expanding '${key}'`
+      );
+    }
+    const next = {
+      ...state,
+      depth: state.depth + 1,
+      path: new Set(state.path).add(key),
+    };
+    const role = this.policies[resourceType]?.roles.find(
+      (r) => r.name === roleName
+    );
+    if (!role) {
+      return await this.expandDirect(
+        resourceType,
+        resourceId,
+        roleName,
+        [...path, key],
+        next
+      );
+    }
+    return await this.expandCondition(
+      role.condition,
+      resourceType,
+      roleName,
+      resourceId,
+      [...path, key],
+      next
+    );
+  }
+
+  private async expandCondition(
+    condition: RoleCondition,
+    resourceType: string,
+    roleName: string,
+    resourceId: string,
+    path: readonly string[],
+    state: EvaluationState
+  ): Promise<Map<string, string[]>> {
+    if (typeof condition === "function") return new Map();
+
+    switch (condition.type) {
+      case "this":
+      case "tuple": {
+        const relation =
+          condition.type === "this" ? roleName : condition.relation;
+        // Tuples on a different relation are a separate node in the path
+        const relationPath =
+          relation === roleName
+            ? path
+            : [...path, `${resourceType}:${resourceId}#${relation}`];
+        return await this.expandDirect(
           resourceType,
-          resourceId
+          resourceId,
+          relation,
+          relationPath,
+          state
         );
-        return {
-          key,
-          result: {
-            allowed: result.allowed,
-            message: result.message,
-          },
-        };
-      } else if (actions && actions.length > 0) {
-        // Multiple permissions check for this resource
-        const permissionResults: Record<string, boolean> = {};
-        const permChecks = actions.map((act) =>
-          this.hasPermission(userId, act, resourceType, resourceId).then(
-            (res) => ({
-              action: act,
-              allowed: res.allowed,
-            })
+      }
+      case "computedUserset":
+        return await this.expandSubjects(
+          resourceType,
+          condition.role,
+          resourceId,
+          path,
+          state
+        );
+      case "tupleToUserset": {
+        const parents = await this.relationships.read({
+          objectType: resourceType,
+          objectId: resourceId,
+          relation: condition.tupleset,
+        });
+        const subjects = new Map<string, string[]>();
+        for (const parent of parents) {
+          const found = await this.expandSubjects(
+            parent.subjectType,
+            condition.computedUserset,
+            parent.subjectId,
+            path,
+            state
+          );
+          mergeSubjects(subjects, found);
+        }
+        return subjects;
+      }
+      case "union": {
+        const subjects = new Map<string, string[]>();
+        for (const child of condition.children) {
+          const found = await this.expandCondition(
+            child,
+            resourceType,
+            roleName,
+            resourceId,
+            path,
+            state
+          );
+          mergeSubjects(subjects, found);
+        }
+        return subjects;
+      }
+      case "intersection": {
+        const childSubjects: Map<string, string[]>[] = [];
+        for (const child of condition.children) {
+          childSubjects.push(
+            await this.expandCondition(
+              child,
+              resourceType,
+              roleName,
+              resourceId,
+              path,
+              state
+            )
+          );
+        }
+        const [first, ...rest] = childSubjects;
+        if (!first) return new Map();
+        return new Map(
+          [...first].filter(([subject]) =>
+            rest.every((found) => found.has(subject))
           )
         );
+      }
+      case "exclusion":
+        // Candidates only; excluded subjects are filtered out by the final verification
+        return await this.expandCondition(
+          condition.base,
+          resourceType,
+          roleName,
+          resourceId,
+          path,
+          state
+        );
+    }
+  }
 
-        const results = await Promise.all(permChecks);
-        let allAllowed = true;
-        const deniedActions: string[] = [];
+  private async expandDirect(
+    objectType: string,
+    objectId: string,
+    relation: string,
+    path: readonly string[],
+    state: EvaluationState
+  ): Promise<Map<string, string[]>> {
+    const tuples = await this.relationships.read({
+      objectType,
+      objectId,
+      relation,
+    });
+    const subjects = new Map<string, string[]>();
+    for (const tuple of tuples) {
+      const subject = formatSubject({
+        type: tuple.subjectType,
+        id: tuple.subjectId,
+        relation: tuple.subjectRelation,
+      });
+      mergeSubjects(subjects, new Map([[subject, [...path]]]));
+      if (tuple.subjectRelation) {
+        const members = await this.expandSubjects(
+          tuple.subjectType,
+          tuple.subjectRelation,
+          tuple.subjectId,
+          path,
+          state
+        );
+        mergeSubjects(subjects, members);
+      }
+    }
+    return subjects;
+  }
 
-        for (const { action: act, allowed } of results) {
-          permissionResults[act] = allowed;
-          if (!allowed) {
-            allAllowed = false;
-            deniedActions.push(act);
+  /**
+   * Expands the userset tree behind a role or action on a resource, modelled on Zanzibar's Expand.
+   *
+   * The tree shows which roles grant the action, which rewrites and conditions they consult,
+   * and the subjects named by tuples at each leaf. When `userId` is given, every node also
+   * reports whether it grants access to that user, evaluated as permission checks evaluate
+   * it, which makes denied checks explainable.
+   *
+   * @example
+   * ```typescript
+   * const tree = await engine.expand('documents', 'doc-123', 'write', userId);
+   * // {
+   * //   type: 'action', allowed: false, children: [
+   * //     { type: 'role', userset: 'documents:doc-123#editor', allowed: false, children: [
+   * //       { type: 'this', userset: 'documents:doc-123#editor', subjects: ['user:alice'], allowed: false, children: [] },
+   * //     ] },
+   * //   ],
+   * // }
+   * ```
+   *
+   * @param resourceType - The type of the resource (e.g., 'documents')
+   * @param resourceId - The ID of the resource instance
+   * @param roleOrAction - A role name, or an action granted by one or more roles
+   * @param userId - Optional user (or userset subject) to evaluate each node for
+   * @param options - The `context` passed to condition functions and caveats, as in checks
+   * @returns Promise resolving to the root node of the userset tree
+   */
+  async expand(
+    resourceType: string,
+    resourceId: string,
+    roleOrAction: string,
+    userId?: string,
+    options: Pick<CheckOptions, "context"> = {}
+  ): Promise<ExpandNode> {
+    const subject =
+      userId === undefined ? undefined : this.normalizeSubject(userId);
+    const resource = this.policies[resourceType];
+    if (resource?.roles.some((role) => role.name === roleOrAction)) {
+      return await this.expandRole(
+        resourceType,
+        roleOrAction,
+        resourceId,
+        subject,
+        this.initialState(options)
+      );
+    }
+
+    const children: ExpandNode[] = [];
+    const rules = resource
+      ? this.combiningOrder(resourceType, roleOrAction)
+      : [];
+    for (const rule of rules) {
+      if (rule.type === "role") {
+        children.push(
+          await this.expandRole(
+            resourceType,
+            rule.role.name,
+            resourceId,
+            subject,
+            this.initialState(options)
+          )
+        );
+        continue;
+      }
+      const child = await this.expandNode(
+        rule.rule.condition,
+        resourceType,
+        rule.rule.name,
+        resourceId,
+        subject,
+        this.initialState(options)
+      );
+      children.push(
+        withResult(
+          {
+            type: "deny",
+            userset: `${resourceType}:${resourceId}#${rule.rule.name}`,
+            description: `Deny rule '${rule.rule.name}'`,
+            children: [child],
+          },
+          subject,
+          child.allowed === true
+        )
+      );
+    }
+    // The first matching child decides, as in permission checks
+    const decidingChild = children.find((child) => child.allowed);
+    return withResult(
+      {
+        type: "action",
+        description: `Action '${roleOrAction}' on ${resourceType}:${resourceId}`,
+        children,
+      },
+      subject,
+      decidingChild?.type === "role"
+    );
+  }
+
+  private async expandRole(
+    resourceType: string,
+    roleName: string,
+    resourceId: string,
+    subject: string | undefined,
+    state: EvaluationState
+  ): Promise<ExpandNode> {
+    const key = `${resourceType}:${resourceId}#${roleName}`;
+    if (state.path.has(key)) {
+      return withResult(
+        { type: "cycle", userset: key, children: [] },
+        subject,
+        false
+      );
+    }
+    if (state.depth >= this.maxDepth) {
+      throw new Error(
+        `Maximum evaluation depth (${this.maxDepth}) exceeded while expanding '${key}'`
+      );
+    }
+    const next = {
+      ...state,
+      depth: state.depth + 1,
+      path: new Set(state.path).add(key),
+    };
+    const role = this.policies[resourceType]?.roles.find(
+      (r) => r.name === roleName
+    );
+    const child = role
+      ? await this.expandNode(
+          role.condition,
+          resourceType,
+          roleName,
+          resourceId,
+          subject,
+          next
+        )
+      : await this.expandNode(
+          { type: "this" },
+          resourceType,
+          roleName,
+          resourceId,
+          subject,
+          next
+        );
+    return withResult(
+      {
+        type: "role",
+        userset: key,
+        ...(!role && { description: "No role defined; direct tuples only" }),
+        children: [child],
+      },
+      subject,
+      child.allowed === true
+    );
+  }
+
+  private async expandNode(
+    condition: RoleCondition,
+    resourceType: string,
+    roleName: string,
+    resourceId: string,
+    subject: string | undefined,
+    state: EvaluationState
+  ): Promise<ExpandNode> {
+    if (typeof condition === "function") {
+      return withResult(
+        {
+          type: "function",
+          description: "Relationship function",
+          children: [],
+        },
+        subject,
+        subject !== undefined &&
+          (await this.evaluateCondition(
+            condition,
+            resourceType,
+            roleName,
+            subject,
+            resourceId,
+            state
+          ))
+      );
+    }
+
+    switch (condition.type) {
+      case "this":
+      case "tuple": {
+        const relation =
+          condition.type === "this" ? roleName : condition.relation;
+        const tuples = await this.relationships.read({
+          objectType: resourceType,
+          objectId: resourceId,
+          relation,
+        });
+        const children: ExpandNode[] = [];
+        for (const tuple of tuples) {
+          if (!tuple.subjectRelation || !this.tupleApplies(tuple, state)) {
+            continue;
           }
+          children.push(
+            await this.expandRole(
+              tuple.subjectType,
+              tuple.subjectRelation,
+              tuple.subjectId,
+              subject,
+              state
+            )
+          );
         }
-
-        return {
-          key,
-          result: {
-            allowed: allAllowed,
-            message: allAllowed
-              ? `All permissions granted for ${resourceType}`
-              : `Some permissions denied for ${resourceType}: ${deniedActions.join(
-                  ", "
-                )}`,
-            results: permissionResults,
+        const parsed = subject === undefined ? null : parseSubject(subject);
+        return withResult(
+          {
+            type: condition.type,
+            userset: `${resourceType}:${resourceId}#${relation}`,
+            subjects: tuples.map(
+              (tuple) =>
+                formatSubject({
+                  type: tuple.subjectType,
+                  id: tuple.subjectId,
+                  relation: tuple.subjectRelation,
+                }) + (tuple.caveatName ? `[${tuple.caveatName}]` : "")
+            ),
+            children,
           },
-        };
-      } else {
-        return {
-          key,
-          result: {
-            allowed: false,
-            message: "No action or actions specified",
+          subject,
+          (parsed !== null &&
+            tuples.some(
+              (tuple) =>
+                matchesSubject(tuple, parsed) && this.tupleApplies(tuple, state)
+            )) ||
+            children.some((child) => child.allowed)
+        );
+      }
+      case "computedUserset": {
+        const child = await this.expandRole(
+          resourceType,
+          condition.role,
+          resourceId,
+          subject,
+          state
+        );
+        return withResult(
+          { type: condition.type, children: [child] },
+          subject,
+          child.allowed === true
+        );
+      }
+      case "tupleToUserset": {
+        const parents = await this.relationships.read({
+          objectType: resourceType,
+          objectId: resourceId,
+          relation: condition.tupleset,
+        });
+        const children: ExpandNode[] = [];
+        for (const parent of parents) {
+          if (!this.tupleApplies(parent, state)) continue;
+          children.push(
+            await this.expandRole(
+              parent.subjectType,
+              condition.computedUserset,
+              parent.subjectId,
+              subject,
+              state
+            )
+          );
+        }
+        return withResult(
+          {
+            type: condition.type,
+            userset: `${resourceType}:${resourceId}#${condition.tupleset}`,
+            description: `${condition.tupleset} -> ${condition.computedUserset}`,
+            children,
           },
-        };
+          subject,
+          children.some((child) => child.allowed)
+        );
       }
-    });
-
-    const results = await Promise.all(promises);
-    const finalResult: Record<
-      string,
-      {
-        allowed: boolean;
-        message: string;
-        results?: Record<string, boolean>;
+      case "union":
+      case "intersection": {
+        const children: ExpandNode[] = [];
+        for (const child of condition.children) {
+          children.push(
+            await this.expandNode(
+              child,
+              resourceType,
+              roleName,
+              resourceId,
+              subject,
+              state
+            )
+          );
+        }
+        return withResult(
+          { type: condition.type, children },
+          subject,
+          condition.type === "union"
+            ? children.some((child) => child.allowed)
+            : children.length > 0 && children.every((child) => child.allowed)
+        );
+      }
+      case "exclusion": {
+        const base = await this.expandNode(
+          condition.base,
+          resourceType,
+          roleName,
+          resourceId,
+          subject,
+          state
+        );
+        const subtract = await this.expandNode(
+          condition.subtract,
+          resourceType,
+          roleName,
+          resourceId,
+          subject,
+          { ...state, negated: !state.negated }
+        );
+        return withResult(
+          { type: condition.type, children: [base, subtract] },
+          subject,
+          base.allowed === true && subtract.allowed !== true
+        );
       }
-    > = {};
+    }
+  }
+}
 
-    for (const { key, result } of results) {
-      finalResult[key] = result;
+/**
+ * The only function in a union condition, which a role's `batch` stands for instead of the
+ * whole condition (inherited roles are granted by their own function or an inheriting role).
+ */
+function unionFunction(
+  condition: RoleCondition
+): RelationshipFunction | undefined {
+  if (typeof condition === "function" || condition.type !== "union") {
+    return undefined;
+  }
+  const functions = condition.children.filter(
+    (child): child is RelationshipFunction => typeof child === "function"
+  );
+  return functions.length === 1 ? functions[0] : undefined;
+}
+
+/**
+ * Compiles the caveats declared across policies, keyed by name; the first declaration of a
+ * name wins.
+ */
+function compileCaveats(policies: Policies): Map<string, CompiledCaveat> {
+  const caveats = new Map<string, CompiledCaveat>();
+  for (const resource of Object.values(policies)) {
+    for (const [name, definition] of Object.entries(resource.caveats ?? {})) {
+      if (!caveats.has(name)) {
+        caveats.set(name, compileCaveat(name, definition));
+      }
     }
+  }
+  return caveats;
+}
 
-    return finalResult;
+/**
+ * Compares policy values structurally, functions by identity.
+ */
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || !a || !b) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const aKeys = Object.keys(a).filter(
+    (key) => (a as Record<string, unknown>)[key] !== undefined
+  );
+  const bKeys = Object.keys(b).filter(
+    (key) => (b as Record<string, unknown>)[key] !== undefined
+  );
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every((key) =>
+      sameValue(
+        (a as Record<string, unknown>)[key],
+        (b as Record<string, unknown>)[key]
+      )
+    )
+  );
+}
+
+/**
+ * Lists the resource types added, removed or redefined between two policy sets.
+ */
+function changedResourceTypes(before: Policies, after: Policies): string[] {
+  const types = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...types].filter(
+    (resourceType) => !sameValue(before[resourceType], after[resourceType])
+  );
+}
+
+/**
+ * Lists the roles a condition references through computed usersets.
+ */
+function computedRoles(condition: RoleCondition): string[] {
+  if (typeof condition === "function") return [];
+  switch (condition.type) {
+    case "computedUserset":
+      return [condition.role];
+    case "union":
+    case "intersection":
+      return condition.children.flatMap(computedRoles);
+    case "exclusion":
+      return [
+        ...computedRoles(condition.base),
+        ...computedRoles(condition.subtract),
+      ];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Merges subjects found by a lookup into an accumulator, keeping the shortest path per subject.
+ */
+function mergeSubjects(
+  into: Map<string, string[]>,
+  found: ReadonlyMap<string, string[]>
+): void {
+  for (const [subject, path] of found) {
+    const known = into.get(subject);
+    if (!known || path.length < known.length) into.set(subject, path);
+  }
+}
+
+/**
+ * Checks whether a tuple grants the given subject directly: it names exactly that subject,
+ * is a wildcard over the subject's type (`user:*`), or is a public grant (`anonymous:*`).
+ */
+function matchesSubject(tuple: RelationTuple, subject: Subject): boolean {
+  if (tuple.subjectId === WILDCARD_SUBJECT_ID && !tuple.subjectRelation) {
+    if (tuple.subjectType === ANONYMOUS_SUBJECT_TYPE) return true;
+    if (tuple.subjectType === subject.type && !subject.relation) return true;
   }
+  return (
+    tuple.subjectType === subject.type &&
+    tuple.subjectId === subject.id &&
+    tuple.subjectRelation === subject.relation
+  );
+}
+
+/**
+ * Records a node's outcome when the tree is expanded for a specific subject.
+ */
+function withResult(
+  node: ExpandNode,
+  subject: string | undefined,
+  allowed: boolean
+): ExpandNode {
+  return subject === undefined ? node : { ...node, allowed };
 }
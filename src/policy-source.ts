@@ -0,0 +1,102 @@
+import type { Adapter } from "better-auth";
+import { importPolicies } from "./builder";
+import { parseSchema } from "./schema";
+import type { ConditionRegistry, Policies, PolicySource } from "./types";
+
+/**
+ * Options for `textPolicySource` and `databasePolicySource`.
+ */
+export interface TextPolicySourceOptions {
+  /**
+   * How the text is written: a JSON policy document or the schema language. When omitted,
+   * text starting with `{` is read as JSON and anything else as a schema
+   */
+  format?: "json" | "schema";
+  /** Named function conditions JSON documents may reference */
+  conditionRegistry?: ConditionRegistry;
+}
+
+/**
+ * Policy source reading policies as text, such as the contents of a file or an HTTP
+ * response. The text is only parsed when it differs from the previous load.
+ *
+ * @example
+ * ```typescript
+ * import { readFile } from 'node:fs/promises';
+ *
+ * engine.watchPolicies(
+ *   textPolicySource(() => readFile('policies.json', 'utf8'), { conditionRegistry })
+ * );
+ * ```
+ *
+ * @param read - Returns the current text
+ * @param options - The text format and the condition registry for JSON documents
+ * @returns A source for `watchPolicies`
+ */
+export function textPolicySource(
+  read: () => Promise<string>,
+  options: TextPolicySourceOptions = {}
+): PolicySource {
+  let last: string | undefined;
+  return {
+    async load(): Promise<Policies | null> {
+      const text = await read();
+      if (text === last) return null;
+      // Remembered before parsing, so that a malformed text is reported once, not every load
+      last = text;
+      const format =
+        options.format ??
+        (text.trimStart().startsWith("{") ? "json" : "schema");
+      return format === "json"
+        ? importPolicies(JSON.parse(text), options.conditionRegistry)
+        : parseSchema(text);
+    },
+  };
+}
+
+/**
+ * Options for `databasePolicySource`.
+ */
+export interface DatabasePolicySourceOptions extends TextPolicySourceOptions {
+  /** The model of the table holding the policies, declared in your Better Auth schema */
+  model: string;
+  /** The ID of the row holding the policies */
+  id: string;
+  /** The field holding the policy text or JSON document (default: `document`) */
+  field?: string;
+}
+
+/**
+ * Policy source reading policies from a row of your own table through the Better Auth
+ * adapter. The field may hold schema text, JSON text or a JSON column.
+ *
+ * @example
+ * ```typescript
+ * ZanzibarPlugin(policies, true, {
+ *   policyWatch: {
+ *     source: (adapter) =>
+ *       databasePolicySource(adapter, { model: 'authorizationPolicy', id: 'default' }),
+ *   },
+ * });
+ * ```
+ *
+ * @param adapter - The Better Auth database adapter (usually `ctx.adapter` or `ctx.context.adapter`)
+ * @param options - The row to read and how its contents are written
+ * @returns A source for `watchPolicies`
+ * @throws Error from `load` if the row does not exist
+ */
+export function databasePolicySource(
+  adapter: Adapter,
+  options: DatabasePolicySourceOptions
+): PolicySource {
+  const { model, id, field = "document", ...textOptions } = options;
+  return textPolicySource(async () => {
+    const row = await adapter.findOne<Record<string, unknown>>({
+      model,
+      where: [{ field: "id", value: id }],
+    });
+    if (!row) throw new Error(`Policy row '${model}:${id}' not found`);
+    const value = row[field];
+    return typeof value === "string" ? value : JSON.stringify(value);
+  }, textOptions);
+}
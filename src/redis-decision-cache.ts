@@ -0,0 +1,115 @@
+import type { DecisionCache } from "./types";
+
+/**
+ * The subset of a Redis client used by `RedisDecisionCache`.
+ *
+ * Matches the command signatures of `ioredis`; other clients, or an in-memory stand-in for
+ * tests, can be adapted with a thin wrapper.
+ */
+export interface RedisClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<unknown>;
+  set(
+    key: string,
+    value: string,
+    mode: "EX",
+    seconds: number
+  ): Promise<unknown>;
+  del(...keys: string[]): Promise<number>;
+  scan(
+    cursor: string | number,
+    matchOption: "MATCH",
+    pattern: string,
+    countOption: "COUNT",
+    count: number
+  ): Promise<[string, string[]]>;
+}
+
+/**
+ * Options for the Redis decision cache.
+ */
+export interface RedisDecisionCacheOptions {
+  /** Prefix of every key written by the cache (default: `zanzibar:`) */
+  keyPrefix?: string;
+  /** Default time-to-live of entries stored without an explicit TTL, in seconds (default: 300) */
+  ttlSeconds?: number;
+  /** Number of keys requested per `SCAN` call when deleting by prefix (default: 100) */
+  scanCount?: number;
+}
+
+/**
+ * Escapes the glob characters Redis interprets in `SCAN MATCH` patterns.
+ */
+function escapePattern(value: string): string {
+  return value.replace(/[*?[\]\\]/g, "\\$&");
+}
+
+/**
+ * Decision cache shared by every instance of an application through any server speaking
+ * the Redis protocol (Redis, Valkey, KeyDB, Dragonfly...).
+ *
+ * Because the cache and its invalidations are shared, invalidating a user or resource on one
+ * instance takes effect on all of them.
+ *
+ * @example
+ * ```typescript
+ * import Redis from 'ioredis';
+ *
+ * const zanzibar = ZanzibarPlugin(policies, true, {
+ *   cache: new RedisDecisionCache(new Redis(process.env.REDIS_URL)),
+ * });
+ * ```
+ */
+export class RedisDecisionCache implements DecisionCache {
+  private client: RedisClient;
+  private keyPrefix: string;
+  private ttlSeconds: number;
+  private scanCount: number;
+
+  /**
+   * @param client - A connected Redis client
+   * @param options - Key prefix, default TTL and scan batch size
+   */
+  constructor(client: RedisClient, options: RedisDecisionCacheOptions = {}) {
+    this.client = client;
+    this.keyPrefix = options.keyPrefix ?? "zanzibar:";
+    this.ttlSeconds = options.ttlSeconds ?? 300;
+    this.scanCount = options.scanCount ?? 100;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const value = await this.client.get(this.keyPrefix + key);
+    return value === null ? undefined : (JSON.parse(value) as T);
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
+    await this.client.set(
+      this.keyPrefix + key,
+      JSON.stringify(value),
+      "EX",
+      ttlSeconds ?? this.ttlSeconds
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(this.keyPrefix + key);
+  }
+
+  async deleteByPrefix(prefix: string): Promise<number> {
+    const pattern = `${escapePattern(this.keyPrefix + prefix)}*`;
+    let cursor = "0";
+    let deleted = 0;
+    do {
+      const [next, keys] = await this.client.scan(
+        cursor,
+        "MATCH",
+        pattern,
+        "COUNT",
+        this.scanCount
+      );
+      if (keys.length > 0) deleted += await this.client.del(...keys);
+      cursor = next;
+    } while (cursor !== "0");
+    return deleted;
+  }
+}
@@ -0,0 +1,751 @@
+import type { Adapter, TransactionAdapter, Where } from "better-auth";
+import type { BetterAuthPluginDBSchema } from "better-auth/db";
+import {
+  decodeConsistencyToken,
+  encodeConsistencyToken,
+  nextRevision,
+} from "./consistency";
+import type {
+  ConsistencyToken,
+  DeleteTuplesResult,
+  RelationshipChange,
+  RelationTuple,
+  RelationTupleFilter,
+  WriteRelationshipsRequest,
+  WriteRelationshipsResult,
+  WriteTuplesResult,
+} from "./types";
+
+/**
+ * Model name of the relationship tuple table registered by the plugin.
+ */
+export const RELATION_TUPLE_MODEL = "relationTuple";
+
+/**
+ * Model name of the relationship change log table registered by the plugin.
+ */
+export const RELATION_CHANGE_MODEL = "relationChange";
+
+/**
+ * Interval at which watchers poll the change log for changes made by other processes.
+ */
+export const CHANGE_POLL_INTERVAL_MS = 1000;
+
+/**
+ * Database schema for relationship tuples and their change log, registered through the
+ * Better Auth plugin `schema` option so that migrations and adapters pick up the tables
+ * automatically.
+ *
+ * Tuples without a subject relation store an empty string in `subjectRelation`, which keeps
+ * exact-match lookups portable across adapters that treat `null` differently. The same goes
+ * for `caveatName`; caveat contexts are stored as JSON strings. `validFrom` and `validUntil`
+ * bound time-limited grants and are left empty for permanent ones.
+ *
+ * Every change row copies the tuple it records, ordered by `revision` and then `sequence`.
+ */
+export const relationTupleSchema = {
+  [RELATION_TUPLE_MODEL]: {
+    fields: {
+      objectType: { type: "string", required: true },
+      objectId: { type: "string", required: true },
+      relation: { type: "string", required: true },
+      subjectType: { type: "string", required: true },
+      subjectId: { type: "string", required: true },
+      subjectRelation: { type: "string", required: false, defaultValue: "" },
+      caveatName: { type: "string", required: false, defaultValue: "" },
+      caveatContext: { type: "string", required: false },
+      validFrom: { type: "date", required: false },
+      validUntil: { type: "date", required: false },
+      createdAt: {
+        type: "date",
+        required: true,
+        defaultValue: () => new Date(),
+      },
+    },
+  },
+  [RELATION_CHANGE_MODEL]: {
+    fields: {
+      revision: { type: "number", required: true, bigint: true },
+      sequence: { type: "number", required: true },
+      operation: { type: "string", required: true },
+      objectType: { type: "string", required: true },
+      objectId: { type: "string", required: true },
+      relation: { type: "string", required: true },
+      subjectType: { type: "string", required: true },
+      subjectId: { type: "string", required: true },
+      subjectRelation: { type: "string", required: false, defaultValue: "" },
+      caveatName: { type: "string", required: false, defaultValue: "" },
+      caveatContext: { type: "string", required: false },
+      validFrom: { type: "date", required: false },
+      validUntil: { type: "date", required: false },
+      createdAt: {
+        type: "date",
+        required: true,
+        defaultValue: () => new Date(),
+      },
+    },
+  },
+} satisfies BetterAuthPluginDBSchema;
+
+type StoredRelationTuple = Omit<
+  RelationTuple,
+  | "subjectRelation"
+  | "caveatName"
+  | "caveatContext"
+  | "validFrom"
+  | "validUntil"
+> & {
+  id: string;
+  subjectRelation?: string | null;
+  caveatName?: string | null;
+  caveatContext?: string | null;
+  validFrom?: Date | string | null;
+  validUntil?: Date | string | null;
+  createdAt: Date;
+};
+
+type StoredRelationChange = StoredRelationTuple & {
+  revision: number | string;
+  sequence: number;
+  operation: RelationshipChange["operation"];
+};
+
+/**
+ * Number of records read per round when deleting tuples or reading the change log.
+ */
+const BATCH_SIZE = 100;
+
+/**
+ * Fields of a tuple that can change without it becoming a different relationship.
+ */
+interface TupleAttributes {
+  caveatName: string;
+  caveatContext: string | null;
+  validFrom: Date | null;
+  validUntil: Date | null;
+}
+
+/**
+ * Error thrown by `writeRelationships` when the batch cannot be applied. Nothing is written
+ * when it is thrown.
+ *
+ * - `precondition-failed`: a precondition did not hold
+ * - `already-exists`: a `create` update targets a tuple that is already stored
+ * - `invalid`: the batch itself is malformed (duplicate tuples, invalid validity window)
+ */
+export class RelationshipWriteError extends Error {
+  readonly code: "precondition-failed" | "already-exists" | "invalid";
+
+  constructor(code: RelationshipWriteError["code"], message: string) {
+    super(message);
+    this.name = "RelationshipWriteError";
+    this.code = code;
+  }
+}
+
+const FILTER_FIELDS = [
+  "objectType",
+  "objectId",
+  "relation",
+  "subjectType",
+  "subjectId",
+] as const;
+
+/**
+ * Relationship tuple storage backed by a Better Auth database adapter.
+ *
+ * Works with any adapter Better Auth supports, including the in-memory adapter, which
+ * makes it suitable for tests.
+ *
+ * Every write or delete that changes the stored tuples advances the store's revision and
+ * returns a consistency token for it, which checks accept through `atLeastAsFresh`.
+ * Writes through a store run one at a time, each taking its revision once the previous one
+ * has committed, so revisions follow commit order within a process: a token covers every
+ * change the process committed before it, and a watcher that has read a revision has seen
+ * all of them. Revisions also follow the latest one in the change log, so a process never
+ * issues a revision behind changes already committed by another; writes committed
+ * concurrently by different processes may still share a revision or commit out of order,
+ * so route writes through one process when watchers must see every change.
+ *
+ * @example
+ * ```typescript
+ * const store = new RelationshipStore(ctx.adapter);
+ *
+ * const { token } = await store.write([
+ *   { objectType: 'documents', objectId: 'doc-1', relation: 'editor', subjectType: 'user', subjectId: 'user-1' },
+ * ]);
+ *
+ * const editors = await store.read({ objectType: 'documents', objectId: 'doc-1', relation: 'editor' });
+ * await store.delete({ objectType: 'documents', objectId: 'doc-1' });
+ * ```
+ */
+export class RelationshipStore {
+  private adapter: Adapter | TransactionAdapter;
+  private lastRevision = 0;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private listeners = new Set<() => void>();
+
+  /**
+   * @param adapter - The Better Auth database adapter (usually `ctx.adapter` or `ctx.context.adapter`)
+   */
+  constructor(adapter: Adapter | TransactionAdapter) {
+    this.adapter = adapter;
+  }
+
+  /**
+   * The revision of the last change committed through this store (0 before any change).
+   */
+  get revision(): number {
+    return this.lastRevision;
+  }
+
+  /**
+   * A consistency token for the current revision.
+   */
+  get token(): ConsistencyToken {
+    return encodeConsistencyToken(this.lastRevision);
+  }
+
+  /**
+   * Runs `fn` in a transaction when the adapter supports one, after every earlier transaction
+   * of this store has settled. Once it has committed changes, advances the store's revision
+   * to theirs and notifies waiting watchers; a transaction that fails leaves the revision,
+   * and so the tokens handed out, untouched.
+   */
+  private async transaction<R extends { token: ConsistencyToken }>(
+    fn: (adapter: Adapter | TransactionAdapter) => Promise<R>
+  ): Promise<R> {
+    const previous = this.writeQueue;
+    let release!: () => void;
+    this.writeQueue = new Promise((resolve) => (release = resolve));
+    await previous;
+    try {
+      const result =
+        "transaction" in this.adapter
+          ? await this.adapter.transaction(fn)
+          : await fn(this.adapter);
+      const revision = decodeConsistencyToken(result.token);
+      if (revision > this.lastRevision) {
+        this.lastRevision = revision;
+        for (const listener of this.listeners) listener();
+      }
+      return result;
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Records changes in the change log under a new revision, following both the last
+   * revision this store committed and the latest one stored by any process. Transactions
+   * run one at a time, so no other change of this process can commit under a lower one.
+   *
+   * @returns A token for the new revision, or for the current one if there are no changes
+   */
+  private async commit(
+    adapter: Adapter | TransactionAdapter,
+    changes: readonly Pick<RelationshipChange, "operation" | "tuple">[]
+  ): Promise<ConsistencyToken> {
+    if (changes.length === 0) return this.token;
+    const [latest] = await adapter.findMany<StoredRelationChange>({
+      model: RELATION_CHANGE_MODEL,
+      sortBy: { field: "revision", direction: "desc" },
+      limit: 1,
+    });
+    const revision = nextRevision(
+      Math.max(this.lastRevision, Number(latest?.revision ?? 0))
+    );
+    for (const [sequence, { operation, tuple }] of changes.entries()) {
+      await adapter.create({
+        model: RELATION_CHANGE_MODEL,
+        data: {
+          revision,
+          sequence,
+          operation,
+          objectType: tuple.objectType,
+          objectId: tuple.objectId,
+          relation: tuple.relation,
+          subjectType: tuple.subjectType,
+          subjectId: tuple.subjectId,
+          subjectRelation: tuple.subjectRelation ?? "",
+          ...this.attributes(tuple),
+          createdAt: new Date(),
+        },
+      });
+    }
+    return encodeConsistencyToken(revision);
+  }
+
+  private toWhere(filter: RelationTupleFilter): Where[] {
+    const where: Where[] = [];
+    for (const field of FILTER_FIELDS) {
+      const value = filter[field];
+      if (value !== undefined) where.push({ field, value });
+    }
+    if (filter.subjectRelation !== undefined) {
+      where.push({
+        field: "subjectRelation",
+        value: filter.subjectRelation ?? "",
+      });
+    }
+    return where;
+  }
+
+  private toTuple(record: StoredRelationTuple): RelationTuple {
+    const tuple: RelationTuple = {
+      objectType: record.objectType,
+      objectId: record.objectId,
+      relation: record.relation,
+      subjectType: record.subjectType,
+      subjectId: record.subjectId,
+    };
+    if (record.subjectRelation) tuple.subjectRelation = record.subjectRelation;
+    if (record.caveatName) {
+      tuple.caveatName = record.caveatName;
+      if (record.caveatContext) {
+        tuple.caveatContext = JSON.parse(record.caveatContext);
+      }
+    }
+    if (record.validFrom) tuple.validFrom = new Date(record.validFrom);
+    if (record.validUntil) tuple.validUntil = new Date(record.validUntil);
+    return tuple;
+  }
+
+  private attributes(tuple: RelationTuple): TupleAttributes {
+    return {
+      caveatName: tuple.caveatName ?? "",
+      caveatContext:
+        tuple.caveatName && tuple.caveatContext
+          ? JSON.stringify(tuple.caveatContext)
+          : null,
+      validFrom: tuple.validFrom ?? null,
+      validUntil: tuple.validUntil ?? null,
+    };
+  }
+
+  private hasAttributes(
+    record: StoredRelationTuple,
+    attributes: TupleAttributes
+  ): boolean {
+    const time = (value: Date | string | null | undefined) =>
+      value ? new Date(value).getTime() : null;
+    return (
+      (record.caveatName ?? "") === attributes.caveatName &&
+      (record.caveatContext || null) === attributes.caveatContext &&
+      time(record.validFrom) === time(attributes.validFrom) &&
+      time(record.validUntil) === time(attributes.validUntil)
+    );
+  }
+
+  private keyWhere(tuple: RelationTuple): Where[] {
+    return this.toWhere({
+      objectType: tuple.objectType,
+      objectId: tuple.objectId,
+      relation: tuple.relation,
+      subjectType: tuple.subjectType,
+      subjectId: tuple.subjectId,
+      subjectRelation: tuple.subjectRelation ?? null,
+    });
+  }
+
+  private findRecord(
+    tuple: RelationTuple,
+    adapter: Adapter | TransactionAdapter = this.adapter
+  ): Promise<StoredRelationTuple | null> {
+    return adapter.findOne<StoredRelationTuple>({
+      model: RELATION_TUPLE_MODEL,
+      where: this.keyWhere(tuple),
+    });
+  }
+
+  private validityError(tuple: RelationTuple): string | null {
+    if (
+      tuple.validFrom &&
+      tuple.validUntil &&
+      tuple.validUntil <= tuple.validFrom
+    ) {
+      return `Relationship tuple ${tuple.objectType}:${tuple.objectId}#${tuple.relation} must expire after it becomes valid`;
+    }
+    return null;
+  }
+
+  private async createRecord(
+    tuple: RelationTuple,
+    adapter: Adapter | TransactionAdapter
+  ): Promise<void> {
+    await adapter.create({
+      model: RELATION_TUPLE_MODEL,
+      data: {
+        objectType: tuple.objectType,
+        objectId: tuple.objectId,
+        relation: tuple.relation,
+        subjectType: tuple.subjectType,
+        subjectId: tuple.subjectId,
+        subjectRelation: tuple.subjectRelation ?? "",
+        ...this.attributes(tuple),
+        createdAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Stores a tuple, replacing the caveat and validity window of an existing one.
+   *
+   * @returns True if anything was created or updated
+   */
+  private async upsert(
+    tuple: RelationTuple,
+    adapter: Adapter | TransactionAdapter
+  ): Promise<boolean> {
+    const attributes = this.attributes(tuple);
+    const existing = await this.findRecord(tuple, adapter);
+    if (!existing) {
+      await this.createRecord(tuple, adapter);
+      return true;
+    }
+    if (this.hasAttributes(existing, attributes)) return false;
+    await adapter.update({
+      model: RELATION_TUPLE_MODEL,
+      where: [{ field: "id", value: existing.id }],
+      update: attributes,
+    });
+    return true;
+  }
+
+  /**
+   * Writes relationship tuples. Tuples that already exist are left untouched, so writes are idempotent;
+   * an existing tuple written with a different caveat or validity window has them replaced.
+   *
+   * @param tuples - The tuples to write
+   * @returns The tuples that were newly created or updated and a token for the resulting revision
+   * @throws Error if a tuple's `validUntil` is not after its `validFrom`
+   */
+  async write(tuples: readonly RelationTuple[]): Promise<WriteTuplesResult> {
+    for (const tuple of tuples) {
+      const error = this.validityError(tuple);
+      if (error) throw new Error(error);
+    }
+    return this.transaction(async (adapter) => {
+      const created: RelationTuple[] = [];
+      for (const tuple of tuples) {
+        if (await this.upsert(tuple, adapter)) created.push(tuple);
+      }
+      const token = await this.commit(
+        adapter,
+        created.map((tuple) => ({ operation: "write", tuple }))
+      );
+      return { written: created, token };
+    });
+  }
+
+  /**
+   * Applies a batch of updates atomically, after checking its preconditions.
+   *
+   * The batch runs in a single adapter transaction when the store was created with a full
+   * adapter; adapters without transaction support apply it sequentially, after every
+   * precondition and `create` conflict has been checked. Either way, a violated precondition
+   * leaves the stored tuples untouched.
+   *
+   * @param request - The updates and the preconditions they depend on
+   * @returns The created or updated tuples, the number of deleted ones and a token for the resulting revision
+   * @throws RelationshipWriteError if the batch is invalid, a precondition fails or a created tuple already exists
+   *
+   * @example
+   * ```typescript
+   * // Move ownership only if doc-1 has not been shared with the public meanwhile
+   * await store.writeRelationships({
+   *   updates: [
+   *     { op: 'delete', tuple: { objectType: 'documents', objectId: 'doc-1', relation: 'owner', subjectType: 'user', subjectId: 'user-1' } },
+   *     { op: 'create', tuple: { objectType: 'documents', objectId: 'doc-1', relation: 'owner', subjectType: 'user', subjectId: 'user-2' } },
+   *   ],
+   *   preconditions: [
+   *     { op: 'must-not-exist', filter: { objectType: 'documents', objectId: 'doc-1', relation: 'viewer', subjectType: 'public' } },
+   *   ],
+   * });
+   * ```
+   */
+  async writeRelationships(
+    request: WriteRelationshipsRequest
+  ): Promise<WriteRelationshipsResult> {
+    const seen = new Set<string>();
+    for (const { tuple } of request.updates) {
+      const key = JSON.stringify(this.keyWhere(tuple));
+      if (seen.has(key)) {
+        throw new RelationshipWriteError(
+          "invalid",
+          `Relationship tuple ${tuple.objectType}:${tuple.objectId}#${tuple.relation}@${tuple.subjectType}:${tuple.subjectId} appears more than once in the batch`
+        );
+      }
+      seen.add(key);
+      const error = this.validityError(tuple);
+      if (error) throw new RelationshipWriteError("invalid", error);
+    }
+
+    return this.transaction(async (adapter) => {
+      for (const { op, filter } of request.preconditions ?? []) {
+        const match = await adapter.findOne<StoredRelationTuple>({
+          model: RELATION_TUPLE_MODEL,
+          where: this.toWhere(filter),
+        });
+        if ((match !== null) !== (op === "must-exist")) {
+          throw new RelationshipWriteError(
+            "precondition-failed",
+            `Precondition ${op} failed for ${JSON.stringify(filter)}`
+          );
+        }
+      }
+      for (const { op, tuple } of request.updates) {
+        if (op === "create" && (await this.findRecord(tuple, adapter))) {
+          throw new RelationshipWriteError(
+            "already-exists",
+            `Relationship tuple ${tuple.objectType}:${tuple.objectId}#${tuple.relation}@${tuple.subjectType}:${tuple.subjectId} already exists`
+          );
+        }
+      }
+
+      const changes: Pick<RelationshipChange, "operation" | "tuple">[] = [];
+      const written: RelationTuple[] = [];
+      let deleted = 0;
+      for (const { op, tuple } of request.updates) {
+        if (op === "delete") {
+          const record = await this.findRecord(tuple, adapter);
+          if (!record) continue;
+          deleted += await adapter.deleteMany({
+            model: RELATION_TUPLE_MODEL,
+            where: [{ field: "id", value: record.id }],
+          });
+          changes.push({ operation: "delete", tuple: this.toTuple(record) });
+          continue;
+        }
+        if (op === "create") {
+          await this.createRecord(tuple, adapter);
+        } else if (!(await this.upsert(tuple, adapter))) {
+          continue;
+        }
+        written.push(tuple);
+        changes.push({ operation: "write", tuple });
+      }
+      const token = await this.commit(adapter, changes);
+      return { written, deleted, token };
+    });
+  }
+
+  /**
+   * Deletes every tuple matching the filter.
+   *
+   * An empty filter is rejected to avoid wiping the whole table by accident.
+   *
+   * @param filter - Fields the tuples to delete must match
+   * @returns The number of deleted tuples and a token for the resulting revision
+   * @throws Error if the filter is empty
+   */
+  async delete(filter: RelationTupleFilter): Promise<DeleteTuplesResult> {
+    const where = this.toWhere(filter);
+    if (where.length === 0) {
+      throw new Error(
+        "Refusing to delete relationship tuples with an empty filter"
+      );
+    }
+    return this.transaction(async (adapter) => {
+      const removed: RelationTuple[] = [];
+      let deleted = 0;
+      for (;;) {
+        const records = await adapter.findMany<StoredRelationTuple>({
+          model: RELATION_TUPLE_MODEL,
+          where,
+          limit: BATCH_SIZE,
+        });
+        if (records.length > 0) {
+          deleted += await adapter.deleteMany({
+            model: RELATION_TUPLE_MODEL,
+            where: [
+              {
+                field: "id",
+                operator: "in",
+                value: records.map((record) => record.id),
+              },
+            ],
+          });
+          removed.push(...records.map((record) => this.toTuple(record)));
+        }
+        if (records.length < BATCH_SIZE) break;
+      }
+      const token = await this.commit(
+        adapter,
+        removed.map((tuple) => ({ operation: "delete", tuple }))
+      );
+      return { deleted, token };
+    });
+  }
+
+  /**
+   * Deletes every tuple whose validity window has ended.
+   *
+   * Expired tuples no longer grant anything, so purging them only reclaims storage; run it
+   * periodically, e.g. from a scheduled job.
+   *
+   * @param now - The time to compare expiries against (default: the current time)
+   * @returns The number of deleted tuples and a token for the resulting revision
+   */
+  async purgeExpired(now: Date = new Date()): Promise<DeleteTuplesResult> {
+    return this.transaction(async (adapter) => {
+      const removed: RelationTuple[] = [];
+      let deleted = 0;
+      let skipped = 0;
+      for (;;) {
+        const records = await adapter.findMany<StoredRelationTuple>({
+          model: RELATION_TUPLE_MODEL,
+          where: [{ field: "validUntil", operator: "lte", value: now }],
+          limit: BATCH_SIZE,
+          offset: skipped,
+        });
+        // Some adapters compare empty dates as the epoch, so re-check before deleting
+        const expired = records.filter(
+          (record) =>
+            record.validUntil &&
+            new Date(record.validUntil).getTime() <= now.getTime()
+        );
+        skipped += records.length - expired.length;
+        if (expired.length > 0) {
+          deleted += await adapter.deleteMany({
+            model: RELATION_TUPLE_MODEL,
+            where: [
+              {
+                field: "id",
+                operator: "in",
+                value: expired.map((record) => record.id),
+              },
+            ],
+          });
+          removed.push(...expired.map((record) => this.toTuple(record)));
+        }
+        if (records.length < BATCH_SIZE) break;
+      }
+      const token = await this.commit(
+        adapter,
+        removed.map((tuple) => ({ operation: "delete", tuple }))
+      );
+      return { deleted, token };
+    });
+  }
+
+  /**
+   * Reads every tuple matching the filter.
+   *
+   * @param filter - Fields the tuples must match (an empty filter returns all tuples)
+   * @returns The matching tuples
+   */
+  async read(filter: RelationTupleFilter = {}): Promise<RelationTuple[]> {
+    const records = await this.adapter.findMany<StoredRelationTuple>({
+      model: RELATION_TUPLE_MODEL,
+      where: this.toWhere(filter),
+    });
+    return records.map((record) => this.toTuple(record));
+  }
+
+  /**
+   * Checks whether an exact tuple exists, whatever its caveat.
+   *
+   * @param tuple - The tuple to look for
+   * @returns True if the tuple is stored, false otherwise
+   */
+  async exists(tuple: RelationTuple): Promise<boolean> {
+    return (await this.findRecord(tuple)) !== null;
+  }
+
+  /**
+   * Reads the change log after a revision, oldest first.
+   *
+   * Changes are returned a whole revision at a time, so a revision is never split between
+   * two reads: pass the `revision` of the last change returned to read the next ones.
+   *
+   * Revisions follow commit order within a process. Changes committed concurrently by
+   * different processes can be given revisions out of commit order, and a reader that has
+   * already moved past the later revision misses the earlier one (see `RelationshipStore`).
+   *
+   * @param sinceRevision - Only changes with a later revision are returned (0 reads from the start)
+   * @param limit - Maximum number of changes to read, unless a single revision holds more
+   * @returns The changes
+   */
+  async readChanges(
+    sinceRevision: number,
+    limit: number = BATCH_SIZE
+  ): Promise<RelationshipChange[]> {
+    const records = await this.adapter.findMany<StoredRelationChange>({
+      model: RELATION_CHANGE_MODEL,
+      where: [{ field: "revision", operator: "gt", value: sinceRevision }],
+      sortBy: { field: "revision", direction: "asc" },
+      limit,
+    });
+    let complete = records;
+    if (records.length >= limit) {
+      // The last revision may continue past the limit: leave it to the next read, or read
+      // all of it if it is the only one
+      const last = Number(records[records.length - 1].revision);
+      complete = records.filter((record) => Number(record.revision) !== last);
+      if (complete.length === 0) {
+        for (;;) {
+          const page = await this.adapter.findMany<StoredRelationChange>({
+            model: RELATION_CHANGE_MODEL,
+            where: [{ field: "revision", value: last }],
+            limit: BATCH_SIZE,
+            offset: complete.length,
+          });
+          complete.push(...page);
+          if (page.length < BATCH_SIZE) break;
+        }
+      }
+    }
+    return complete
+      .sort(
+        (a, b) =>
+          Number(a.revision) - Number(b.revision) || a.sequence - b.sequence
+      )
+      .map((record) => ({
+        revision: Number(record.revision),
+        token: encodeConsistencyToken(Number(record.revision)),
+        operation: record.operation,
+        tuple: this.toTuple(record),
+      }));
+  }
+
+  /**
+   * Waits until this store commits a change, the timeout elapses or the signal aborts.
+   *
+   * Changes made through other processes are not signalled: watchers poll `readChanges`
+   * after the timeout to pick them up.
+   *
+   * @param timeoutMs - Maximum time to wait in milliseconds
+   * @param signal - Aborts the wait early
+   */
+  waitForChange(timeoutMs: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        this.listeners.delete(done);
+        signal?.removeEventListener("abort", done);
+        resolve();
+      };
+      const timer = setTimeout(done, timeoutMs);
+      this.listeners.add(done);
+      signal?.addEventListener("abort", done);
+      if (signal?.aborted) done();
+    });
+  }
+
+  /**
+   * Deletes change log entries recorded before a point in time.
+   *
+   * The change log grows with every write; prune it once every watcher has read past the
+   * entries, e.g. from a scheduled job.
+   *
+   * @param before - Entries with an earlier revision are deleted
+   * @returns The number of deleted entries
+   */
+  async pruneChanges(before: Date): Promise<number> {
+    return await this.adapter.deleteMany({
+      model: RELATION_CHANGE_MODEL,
+      where: [{ field: "revision", operator: "lt", value: before.getTime() }],
+    });
+  }
+}
@@ -0,0 +1,960 @@
+import {
+  computedUserset,
+  exclusion,
+  intersection,
+  thisRelation,
+  tupleToUserset,
+  union,
+} from "./builder";
+import { compileCaveat } from "./caveats";
+import type {
+  CaveatDefinition,
+  CaveatParameterType,
+  CombiningAlgorithm,
+  DenyRule,
+  Policies,
+  ResourceDefinition,
+  ResourceRole,
+  RoleCondition,
+} from "./types";
+
+/**
+ * Error thrown by `parseSchema`, locating the problem in the source.
+ */
+export class SchemaParseError extends Error {
+  /** Line of the offending token, starting at 1 */
+  readonly line: number;
+  /** Column of the offending token, starting at 1 */
+  readonly column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`${message} at line ${line}, column ${column}`);
+    this.name = "SchemaParseError";
+    this.line = line;
+    this.column = column;
+  }
+}
+
+const COMBINING_ALGORITHMS: readonly CombiningAlgorithm[] = [
+  "deny-overrides",
+  "permit-overrides",
+  "first-applicable",
+];
+
+const KEYWORDS = ["this", "nil"];
+
+const NAME_PATTERN = /[A-Za-z_][A-Za-z0-9_]*(?:\/[A-Za-z_][A-Za-z0-9_]*)*/y;
+
+const IDENTIFIER_PATTERN =
+  /^[A-Za-z_][A-Za-z0-9_]*(?:\/[A-Za-z_][A-Za-z0-9_]*)*$/;
+
+const SYMBOLS = "{}():|=+&-,;#*";
+
+interface Location {
+  line: number;
+  column: number;
+}
+
+interface Token extends Location {
+  /** `block` is the raw body of a caveat: everything between `) {` and the matching `}` */
+  kind: "name" | "symbol" | "block" | "end";
+  text: string;
+}
+
+type Expression = Location &
+  (
+    | { kind: "name"; name: string }
+    | { kind: "arrow"; tupleset: string; target: string }
+    | { kind: "this" }
+    | { kind: "nil" }
+    | { kind: "union" | "intersection"; children: Expression[] }
+    | { kind: "exclusion"; base: Expression; subtract: Expression }
+  );
+
+interface RelationStatement extends Location {
+  kind: "relation";
+  name: string;
+  subjectTypes?: string[];
+  expression?: Expression;
+}
+
+interface PermissionStatement extends Location {
+  kind: "permission";
+  name: string;
+  expression: Expression;
+}
+
+interface DenyStatement extends Location {
+  kind: "deny";
+  name: string;
+  actions: (Location & { name: string })[];
+  before?: Location & { name: string };
+  expression?: Expression;
+}
+
+interface DefinitionNode extends Location {
+  name: string;
+  combiningAlgorithm?: CombiningAlgorithm;
+  statements: (RelationStatement | PermissionStatement | DenyStatement)[];
+}
+
+interface CaveatNode extends Location {
+  name: string;
+  parameters: Record<string, CaveatParameterType>;
+  expression: string;
+  body: Location;
+}
+
+/**
+ * Splits a schema into tokens, skipping whitespace and `//` or `/* *\/` comments.
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  let line = 1;
+  let column = 1;
+
+  const advance = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      if (source[index] === "\n") {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      index++;
+    }
+  };
+
+  while (index < source.length) {
+    const char = source[index];
+    if (/\s/.test(char)) {
+      advance(1);
+      continue;
+    }
+    if (source.startsWith("//", index)) {
+      const end = source.indexOf("\n", index);
+      advance((end === -1 ? source.length : end) - index);
+      continue;
+    }
+    if (source.startsWith("/*", index)) {
+      const end = source.indexOf("*/", index + 2);
+      if (end === -1) {
+        throw new SchemaParseError("Unterminated comment", line, column);
+      }
+      advance(end + 2 - index);
+      continue;
+    }
+
+    const start = { line, column };
+    if (char === "{" && tokens[tokens.length - 1]?.text === ")") {
+      advance(1);
+      const bodyStart = { line, column };
+      let depth = 1;
+      let quote: string | null = null;
+      let end = index;
+      for (; end < source.length; end++) {
+        const c = source[end];
+        if (quote) {
+          if (c === "\\") end++;
+          else if (c === quote) quote = null;
+        } else if (c === '"' || c === "'") {
+          quote = c;
+        } else if (c === "{") {
+          depth++;
+        } else if (c === "}" && --depth === 0) {
+          break;
+        }
+      }
+      if (depth > 0) {
+        throw new SchemaParseError(
+          "Unterminated caveat body",
+          start.line,
+          start.column
+        );
+      }
+      tokens.push({
+        kind: "block",
+        text: source.slice(index, end),
+        ...bodyStart,
+      });
+      advance(end + 1 - index);
+      continue;
+    }
+    if (source.startsWith("->", index)) {
+      tokens.push({ kind: "symbol", text: "->", ...start });
+      advance(2);
+      continue;
+    }
+    if (SYMBOLS.includes(char)) {
+      tokens.push({ kind: "symbol", text: char, ...start });
+      advance(1);
+      continue;
+    }
+    NAME_PATTERN.lastIndex = index;
+    const match = NAME_PATTERN.exec(source);
+    if (!match) {
+      throw new SchemaParseError(
+        `Unexpected character '${char}'`,
+        line,
+        column
+      );
+    }
+    tokens.push({ kind: "name", text: match[0], ...start });
+    advance(match[0].length);
+  }
+  tokens.push({ kind: "end", text: "", line, column });
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser producing the schema's syntax tree.
+ *
+ * Expression operators bind, from loosest to tightest: `+` (union), `&` (intersection),
+ * `-` (exclusion) and `->` (tuple-to-userset); all are left-associative.
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): { caveats: CaveatNode[]; definitions: DefinitionNode[] } {
+    const caveats: CaveatNode[] = [];
+    const definitions: DefinitionNode[] = [];
+    while (this.peek().kind !== "end") {
+      if (this.accept(";")) continue;
+      if (this.acceptName("definition")) {
+        definitions.push(this.parseDefinition());
+      } else if (this.acceptName("caveat")) {
+        caveats.push(this.parseCaveat());
+      } else {
+        this.fail("Expected 'definition' or 'caveat'");
+      }
+    }
+    return { caveats, definitions };
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private accept(symbol: string): boolean {
+    const token = this.peek();
+    if (token.kind === "symbol" && token.text === symbol) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private acceptName(name: string): boolean {
+    const token = this.peek();
+    if (token.kind === "name" && token.text === name) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(symbol: string): void {
+    if (!this.accept(symbol)) this.fail(`Expected '${symbol}'`);
+  }
+
+  private expectName(what: string): Location & { name: string } {
+    const token = this.peek();
+    if (token.kind !== "name") this.fail(`Expected ${what}`);
+    this.index++;
+    return { name: token.text, line: token.line, column: token.column };
+  }
+
+  private fail(message: string, token: Location = this.peek()): never {
+    const found = this.peek();
+    const suffix =
+      token === found
+        ? found.kind === "end"
+          ? ", found end of schema"
+          : `, found '${found.text}'`
+        : "";
+    throw new SchemaParseError(`${message}${suffix}`, token.line, token.column);
+  }
+
+  private parseDefinition(): DefinitionNode {
+    const { name, line, column } = this.expectName("a definition name");
+    const definition: DefinitionNode = { name, line, column, statements: [] };
+    this.expect("{");
+    while (!this.accept("}")) {
+      if (this.accept(";")) continue;
+      if (this.acceptName("relation")) {
+        definition.statements.push(this.parseRelation());
+      } else if (this.acceptName("permission")) {
+        const target = this.expectName("a permission name");
+        this.expect("=");
+        definition.statements.push({
+          kind: "permission",
+          ...target,
+          expression: this.parseExpression(),
+        });
+      } else if (this.acceptName("deny")) {
+        definition.statements.push(this.parseDeny());
+      } else if (this.acceptName("combining")) {
+        const start = this.peek();
+        let algorithm = this.expectName("a combining algorithm").name;
+        while (this.accept("-")) {
+          algorithm += `-${this.expectName("a combining algorithm").name}`;
+        }
+        if (!COMBINING_ALGORITHMS.includes(algorithm as CombiningAlgorithm)) {
+          this.fail(`Unknown combining algorithm '${algorithm}'`, start);
+        }
+        definition.combiningAlgorithm = algorithm as CombiningAlgorithm;
+      } else {
+        this.fail(
+          "Expected 'relation', 'permission', 'deny', 'combining' or '}'"
+        );
+      }
+    }
+    return definition;
+  }
+
+  private parseRelation(): RelationStatement {
+    const target = this.expectName("a relation name");
+    const relation: RelationStatement = { kind: "relation", ...target };
+    if (this.accept(":")) {
+      relation.subjectTypes = [];
+      do {
+        let subjectType = this.expectName("a subject type").name;
+        if (this.accept(":")) {
+          this.expect("*");
+          subjectType += ":*";
+        } else if (this.accept("#")) {
+          subjectType += `#${this.expectName("a relation name").name}`;
+        }
+        relation.subjectTypes.push(subjectType);
+      } while (this.accept("|"));
+    }
+    if (this.accept("=")) relation.expression = this.parseExpression();
+    return relation;
+  }
+
+  private parseDeny(): DenyStatement {
+    const target = this.expectName("a deny rule name");
+    if (!this.acceptName("on")) this.fail("Expected 'on'");
+    const deny: DenyStatement = { kind: "deny", ...target, actions: [] };
+    do {
+      deny.actions.push(this.expectName("a permission name"));
+    } while (this.accept(","));
+    if (this.acceptName("before")) deny.before = this.expectName("a role name");
+    if (this.accept("=")) deny.expression = this.parseExpression();
+    return deny;
+  }
+
+  private parseCaveat(): CaveatNode {
+    const target = this.expectName("a caveat name");
+    const parameters: Record<string, CaveatParameterType> = {};
+    this.expect("(");
+    if (!this.accept(")")) {
+      do {
+        const parameter = this.expectName("a parameter name");
+        parameters[parameter.name] = this.expectName("a parameter type")
+          .name as CaveatParameterType;
+      } while (this.accept(","));
+      this.expect(")");
+    }
+    const body = this.peek();
+    if (body.kind !== "block") this.fail("Expected '{'");
+    this.index++;
+    return {
+      ...target,
+      parameters,
+      expression: body.text.trim(),
+      body: { line: body.line, column: body.column },
+    };
+  }
+
+  private parseExpression(): Expression {
+    const first = this.parseIntersection();
+    const children = [first];
+    while (this.accept("+")) children.push(this.parseIntersection());
+    return children.length === 1
+      ? first
+      : { kind: "union", children, line: first.line, column: first.column };
+  }
+
+  private parseIntersection(): Expression {
+    const first = this.parseExclusion();
+    const children = [first];
+    while (this.accept("&")) children.push(this.parseExclusion());
+    return children.length === 1
+      ? first
+      : {
+          kind: "intersection",
+          children,
+          line: first.line,
+          column: first.column,
+        };
+  }
+
+  private parseExclusion(): Expression {
+    let base = this.parsePrimary();
+    while (this.accept("-")) {
+      base = {
+        kind: "exclusion",
+        base,
+        subtract: this.parsePrimary(),
+        line: base.line,
+        column: base.column,
+      };
+    }
+    return base;
+  }
+
+  private parsePrimary(): Expression {
+    if (this.accept("(")) {
+      const expression = this.parseExpression();
+      this.expect(")");
+      return expression;
+    }
+    const { name, line, column } = this.expectName("a relation or permission");
+    if (name === "this" || name === "nil") return { kind: name, line, column };
+    if (this.accept("->")) {
+      const target = this.expectName("a relation or permission").name;
+      return { kind: "arrow", tupleset: name, target, line, column };
+    }
+    return { kind: "name", name, line, column };
+  }
+}
+
+/**
+ * Calls `visit` on every name and arrow of an expression.
+ */
+function walk(
+  expression: Expression,
+  visit: (node: Expression & { kind: "name" | "arrow" }) => void
+): void {
+  switch (expression.kind) {
+    case "name":
+    case "arrow":
+      visit(expression);
+      break;
+    case "union":
+    case "intersection":
+      expression.children.forEach((child) => walk(child, visit));
+      break;
+    case "exclusion":
+      walk(expression.base, visit);
+      walk(expression.subtract, visit);
+      break;
+  }
+}
+
+function toCondition(expression: Expression): RoleCondition {
+  switch (expression.kind) {
+    case "name":
+      return computedUserset(expression.name);
+    case "arrow":
+      return tupleToUserset(expression.tupleset, expression.target);
+    case "this":
+      return thisRelation();
+    case "nil":
+      return union();
+    case "union":
+      return union(...expression.children.map(toCondition));
+    case "intersection":
+      return intersection(...expression.children.map(toCondition));
+    case "exclusion":
+      return exclusion(
+        toCondition(expression.base),
+        toCondition(expression.subtract)
+      );
+  }
+}
+
+/**
+ * Whether a permission is a plain union of names, which it can grant as an action of
+ * each named role instead of becoming a role itself.
+ */
+function isPlainUnion(expression: Expression): boolean {
+  return (
+    expression.kind === "nil" ||
+    expression.kind === "name" ||
+    (expression.kind === "union" &&
+      expression.children.every((child) => child.kind === "name"))
+  );
+}
+
+function buildDefinition(
+  node: DefinitionNode,
+  arrowTargets: ReadonlySet<string>,
+  caveats: Record<string, CaveatDefinition>
+): ResourceDefinition {
+  const declared = new Map<string, RelationStatement | PermissionStatement>();
+  for (const statement of node.statements) {
+    if (statement.kind === "deny") continue;
+    if (declared.has(statement.name) || KEYWORDS.includes(statement.name)) {
+      throw new SchemaParseError(
+        `Duplicate or reserved name '${statement.name}' in definition '${node.name}'`,
+        statement.line,
+        statement.column
+      );
+    }
+    declared.set(statement.name, statement);
+  }
+
+  const referenced = new Set<string>();
+  for (const statement of node.statements) {
+    if (!statement.expression) continue;
+    walk(statement.expression, (expression) => {
+      const name =
+        expression.kind === "name" ? expression.name : expression.tupleset;
+      const target = declared.get(name);
+      if (!target) {
+        throw new SchemaParseError(
+          `Unknown relation or permission '${name}' in definition '${node.name}'`,
+          expression.line,
+          expression.column
+        );
+      }
+      if (expression.kind === "name") {
+        referenced.add(name);
+      } else if (target.kind !== "relation") {
+        throw new SchemaParseError(
+          `Arrow '${name}->${expression.target}' must start from a relation`,
+          expression.line,
+          expression.column
+        );
+      }
+    });
+  }
+
+  const roles: (ResourceRole & { actions: string[] })[] = [];
+  const actions: string[] = [];
+  const granted: PermissionStatement[] = [];
+  for (const statement of node.statements) {
+    if (statement.kind === "relation") {
+      roles.push({
+        name: statement.name,
+        actions: [],
+        condition: statement.expression
+          ? toCondition(statement.expression)
+          : thisRelation(),
+        ...(statement.subjectTypes && {
+          subjectTypes: statement.subjectTypes,
+        }),
+      });
+    } else if (statement.kind === "permission") {
+      actions.push(statement.name);
+      if (
+        referenced.has(statement.name) ||
+        arrowTargets.has(statement.name) ||
+        !isPlainUnion(statement.expression)
+      ) {
+        roles.push({
+          name: statement.name,
+          actions: [statement.name],
+          condition: toCondition(statement.expression),
+        });
+      } else {
+        granted.push(statement);
+      }
+    }
+  }
+  for (const permission of granted) {
+    walk(permission.expression, (expression) => {
+      if (expression.kind !== "name") return;
+      roles
+        .find((role) => role.name === expression.name)
+        ?.actions.push(permission.name);
+    });
+  }
+
+  const denyRules: DenyRule[] = [];
+  for (const statement of node.statements) {
+    if (statement.kind !== "deny") continue;
+    for (const action of statement.actions) {
+      if (!actions.includes(action.name)) {
+        throw new SchemaParseError(
+          `Unknown permission '${action.name}' in deny rule '${statement.name}'`,
+          action.line,
+          action.column
+        );
+      }
+    }
+    if (
+      statement.before &&
+      !roles.some((role) => role.name === statement.before?.name)
+    ) {
+      throw new SchemaParseError(
+        `Unknown role '${statement.before.name}' in deny rule '${statement.name}'`,
+        statement.before.line,
+        statement.before.column
+      );
+    }
+    denyRules.push({
+      name: statement.name,
+      actions: statement.actions.map((action) => action.name),
+      condition: statement.expression
+        ? toCondition(statement.expression)
+        : thisRelation(),
+      ...(statement.before && { before: statement.before.name }),
+    });
+  }
+
+  return {
+    actions,
+    roles,
+    ...(denyRules.length > 0 && { denyRules }),
+    ...(node.combiningAlgorithm && {
+      combiningAlgorithm: node.combiningAlgorithm,
+    }),
+    ...(Object.keys(caveats).length > 0 && { caveats }),
+  };
+}
+
+/**
+ * Parses a schema written in the text schema language into policies for `PolicyEngine`.
+ *
+ * The language follows SpiceDB's schema language:
+ *
+ * - `definition <type> { ... }` declares a resource type.
+ * - `relation <name>: user | team#member` declares a role granted by relationship tuples
+ *   (`this`). The subject types are optional and restrict the tuples that can be written;
+ *   wildcards such as `user:*` must be listed to be granted. An optional `= <expression>`
+ *   replaces `this` as the role's condition.
+ * - `permission <name> = <expression>` declares an action. Permissions that are a union of
+ *   relations are granted by those roles; any other permission, and any permission that
+ *   expressions refer to, also becomes a role of the same name.
+ * - Expressions combine names with `+` (union), `&` (intersection), `-` (exclusion) and
+ *   `parent->viewer` (tuple-to-userset), plus `this`, `nil` and parentheses.
+ * - `deny <name> on <permission>, ... [before <role>] [= <expression>]` declares a deny rule,
+ *   and `combining first-applicable` sets the definition's combining algorithm.
+ * - `caveat <name>(<parameter> <type>, ...) { <expression> }` declares a caveat available to
+ *   every definition.
+ *
+ * Statements are separated by newlines or `;`, and `//` and `/* *\/` comments are ignored.
+ *
+ * @example
+ * ```typescript
+ * const policies = parseSchema(`
+ *   definition team {
+ *     relation member: user
+ *   }
+ *
+ *   definition documents {
+ *     relation owner: user
+ *     relation editor: user | team#member
+ *     relation viewer: user | team#member; relation parent: folders
+ *     permission read = viewer + editor + owner + parent->read
+ *     permission write = editor + owner
+ *   }
+ * `);
+ * const engine = new PolicyEngine(policies);
+ * ```
+ *
+ * @param source - The schema text
+ * @returns The policies described by the schema
+ * @throws SchemaParseError if the schema is malformed or refers to undeclared names
+ */
+export function parseSchema(source: string): Policies {
+  const { caveats, definitions } = new Parser(tokenize(source)).parse();
+
+  const caveatDefinitions: Record<string, CaveatDefinition> = {};
+  for (const caveat of caveats) {
+    if (caveat.name in caveatDefinitions) {
+      throw new SchemaParseError(
+        `Duplicate caveat '${caveat.name}'`,
+        caveat.line,
+        caveat.column
+      );
+    }
+    const definition = {
+      parameters: caveat.parameters,
+      expression: caveat.expression,
+    };
+    try {
+      compileCaveat(caveat.name, definition);
+    } catch (error) {
+      throw new SchemaParseError(
+        (error as Error).message,
+        caveat.body.line,
+        caveat.body.column
+      );
+    }
+    caveatDefinitions[caveat.name] = definition;
+  }
+
+  const arrowTargets = new Set<string>();
+  for (const definition of definitions) {
+    for (const statement of definition.statements) {
+      if (!statement.expression) continue;
+      walk(statement.expression, (expression) => {
+        if (expression.kind === "arrow") arrowTargets.add(expression.target);
+      });
+    }
+  }
+
+  // Arrows from relations with subject types must reach a name declared on those types
+  const declared = new Map(
+    definitions.map((definition) => [
+      definition.name,
+      new Map(
+        definition.statements.map((statement) => [statement.name, statement])
+      ),
+    ])
+  );
+  for (const definition of definitions) {
+    for (const statement of definition.statements) {
+      if (!statement.expression) continue;
+      walk(statement.expression, (expression) => {
+        if (expression.kind !== "arrow") return;
+        const tupleset = declared
+          .get(definition.name)
+          ?.get(expression.tupleset);
+        if (tupleset?.kind !== "relation") return;
+        for (const subjectType of tupleset.subjectTypes ?? []) {
+          const target = declared.get(subjectType.split(/[#:]/)[0]);
+          const reached = target?.get(expression.target);
+          if (target && (!reached || reached.kind === "deny")) {
+            throw new SchemaParseError(
+              `Definition '${subjectType}' has no relation or permission '${expression.target}'`,
+              expression.line,
+              expression.column
+            );
+          }
+        }
+      });
+    }
+  }
+
+  const policies: Policies = {};
+  for (const definition of definitions) {
+    if (definition.name in policies) {
+      throw new SchemaParseError(
+        `Duplicate definition '${definition.name}'`,
+        definition.line,
+        definition.column
+      );
+    }
+    policies[definition.name] = buildDefinition(
+      definition,
+      arrowTargets,
+      caveatDefinitions
+    );
+  }
+  return policies;
+}
+
+/**
+ * Checks that a name can be written in the schema language.
+ */
+function checkName(name: string, what: string): string {
+  if (!IDENTIFIER_PATTERN.test(name) || KEYWORDS.includes(name)) {
+    throw new Error(
+      `${what} '${name}' cannot be written in the schema language`
+    );
+  }
+  return name;
+}
+
+/**
+ * Whether a condition is satisfied exactly by the tuples carrying the given relation.
+ */
+function isThis(condition: RoleCondition, name: string): boolean {
+  return (
+    typeof condition !== "function" &&
+    (condition.type === "this" ||
+      (condition.type === "tuple" && condition.relation === name))
+  );
+}
+
+/**
+ * Formats a condition as a schema expression, collecting the relations it reads that are
+ * not roles so that they can be declared.
+ *
+ * @param precedence - Binding strength required by the enclosing operator (0 for none)
+ */
+function formatCondition(
+  condition: RoleCondition,
+  owner: string,
+  definition: ResourceDefinition,
+  relations: Set<string>,
+  precedence = 0
+): string {
+  if (typeof condition === "function") {
+    throw new Error(
+      `'${owner}' has a function condition, which the schema language cannot express`
+    );
+  }
+  const format = (child: RoleCondition, childPrecedence: number) =>
+    formatCondition(child, owner, definition, relations, childPrecedence);
+  const wrap = (text: string, own: number) =>
+    own < precedence ? `(${text})` : text;
+  const readRelation = (name: string) => {
+    const role = definition.roles.find((r) => r.name === name);
+    if (!role && definition.actions.includes(name)) {
+      throw new Error(
+        `'${owner}' reads relation '${name}', which shares its name with an action; the schema language cannot express this`
+      );
+    }
+    if (!role) relations.add(checkName(name, "Relation"));
+    return role;
+  };
+
+  switch (condition.type) {
+    case "this":
+      return "this";
+    case "tuple": {
+      if (condition.relation === owner) return "this";
+      const role = readRelation(condition.relation);
+      if (role && !isThis(role.condition, role.name)) {
+        throw new Error(
+          `'${owner}' reads the tuples of role '${role.name}', which has its own condition; the schema language cannot express this`
+        );
+      }
+      return condition.relation;
+    }
+    case "computedUserset":
+      readRelation(condition.role);
+      return checkName(condition.role, "Role");
+    case "tupleToUserset":
+      readRelation(condition.tupleset);
+      return `${checkName(condition.tupleset, "Relation")}->${checkName(
+        condition.computedUserset,
+        "Role"
+      )}`;
+    case "union":
+      if (condition.children.length === 0) return "nil";
+      return wrap(
+        condition.children.map((child) => format(child, 1)).join(" + "),
+        1
+      );
+    case "intersection":
+      if (condition.children.length === 0) {
+        throw new Error(
+          `'${owner}' has an empty intersection, which the schema language cannot express`
+        );
+      }
+      return wrap(
+        condition.children.map((child) => format(child, 2)).join(" & "),
+        2
+      );
+    case "exclusion":
+      return wrap(
+        `${format(condition.base, 3)} - ${format(condition.subtract, 4)}`,
+        3
+      );
+  }
+}
+
+/**
+ * Serializes policies to the text schema language read by `parseSchema`.
+ *
+ * Roles granted only by tuples become relations, roles with rewrites become relations with
+ * an expression (or permissions, for roles named after an action they grant), and each
+ * action becomes a permission listing the roles that grant it. Relations that conditions
+ * read but that are not roles, such as `parent`, are declared without subject types.
+ * Parsing the result yields equivalent policies.
+ *
+ * @example
+ * ```typescript
+ * await writeFile('authorization.zed', printSchema(policies));
+ * ```
+ *
+ * @param policies - The policies to serialize
+ * @returns The schema text
+ * @throws Error if the policies use function conditions, or names or rewrites the schema
+ *   language cannot express
+ */
+export function printSchema(policies: Policies): string {
+  const blocks: string[] = [];
+
+  const caveats = new Map<string, CaveatDefinition>();
+  for (const definition of Object.values(policies)) {
+    for (const [name, caveat] of Object.entries(definition.caveats ?? {})) {
+      if (!caveats.has(name)) caveats.set(name, caveat);
+    }
+  }
+  for (const [name, caveat] of caveats) {
+    const parameters = Object.entries(caveat.parameters)
+      .map(
+        ([parameter, type]) => `${checkName(parameter, "Parameter")} ${type}`
+      )
+      .join(", ");
+    blocks.push(
+      `caveat ${checkName(name, "Caveat")}(${parameters}) {\n  ${
+        caveat.expression
+      }\n}`
+    );
+  }
+
+  for (const [type, definition] of Object.entries(policies)) {
+    const relations = new Set<string>();
+    const statements: string[] = [];
+    const roleNames = new Set(definition.roles.map((role) => role.name));
+    const grantingRoles = (action: string) =>
+      definition.roles.filter((role) => role.actions.includes(action));
+
+    for (const role of definition.roles) {
+      const name = checkName(role.name, "Role");
+      if (definition.actions.includes(name)) {
+        if (!role.actions.includes(name) || grantingRoles(name).length > 1) {
+          throw new Error(
+            `Action '${name}' of '${type}' shares its name with a role without being granted by it alone; the schema language cannot express this`
+          );
+        }
+        statements.push(
+          `permission ${name} = ${formatCondition(
+            role.condition,
+            name,
+            definition,
+            relations
+          )}`
+        );
+        continue;
+      }
+      const subjectTypes = role.subjectTypes?.length
+        ? `: ${role.subjectTypes.join(" | ")}`
+        : "";
+      const expression = isThis(role.condition, name)
+        ? ""
+        : ` = ${formatCondition(role.condition, name, definition, relations)}`;
+      statements.push(`relation ${name}${subjectTypes}${expression}`);
+    }
+
+    for (const action of definition.actions) {
+      if (roleNames.has(action)) continue;
+      const roles = grantingRoles(checkName(action, "Action"));
+      statements.push(
+        `permission ${action} = ${
+          roles.length > 0 ? roles.map((role) => role.name).join(" + ") : "nil"
+        }`
+      );
+    }
+
+    for (const rule of definition.denyRules ?? []) {
+      const name = checkName(rule.name, "Deny rule");
+      const before = rule.before ? ` before ${rule.before}` : "";
+      const expression = isThis(rule.condition, name)
+        ? ""
+        : ` = ${formatCondition(rule.condition, name, definition, relations)}`;
+      statements.push(
+        `deny ${name} on ${rule.actions.join(", ")}${before}${expression}`
+      );
+    }
+
+    const lines = [
+      ...(definition.combiningAlgorithm
+        ? [`combining ${definition.combiningAlgorithm}`]
+        : []),
+      ...[...relations].map((relation) => `relation ${relation}`),
+      ...statements,
+    ];
+    blocks.push(
+      lines.length > 0
+        ? `definition ${checkName(type, "Resource type")} {\n${lines
+            .map((line) => `  ${line}`)
+            .join("\n")}\n}`
+        : `definition ${checkName(type, "Resource type")} {}`
+    );
+  }
+
+  return `${blocks.join("\n\n")}\n`;
+}
@@ -1,9 +1,303 @@
-import { type BetterAuthPlugin } from "better-auth";
-import { createAuthEndpoint, sessionMiddleware } from "better-auth/api";
-import { initializePolicyEngine, policyEngineInstance } from "./policy-engine";
-import type { Policies } from "./types";
+import {
+  generateId,
+  type Adapter,
+  type BetterAuthOptions,
+  type BetterAuthPlugin,
+  type HookEndpointContext,
+} from "better-auth";
+import {
+  APIError,
+  createAuthEndpoint,
+  createAuthMiddleware,
+  sessionMiddleware,
+} from "better-auth/api";
+import {
+  initializePolicyEngine,
+  policyEngineInstance,
+  type PolicyEngine,
+  type PolicyEngineOptions,
+} from "./policy-engine";
+import {
+  CHANGE_POLL_INTERVAL_MS,
+  RelationshipStore,
+  RelationshipWriteError,
+  relationTupleSchema,
+} from "./relationship-store";
+import { CAVEAT_NOW, CaveatContextError } from "./caveats";
+import {
+  CONSISTENCY_TOKEN_PATTERN,
+  decodeConsistencyToken,
+  encodeConsistencyToken,
+} from "./consistency";
+import { DatabaseDecisionSink, decisionLogSchema } from "./decision-log";
+import { ANONYMOUS_SUBJECT, parseSubject } from "./subject";
+import type {
+  CheckContext,
+  CheckOptions,
+  Policies,
+  PolicyEvent,
+  PolicySource,
+  RelationTuple,
+} from "./types";
 import { z } from "zod";
 
+/**
+ * Body fields shared by the check endpoints, mapped onto `CheckOptions`.
+ */
+const checkOptionsSchema = {
+  explain: z.boolean().optional(),
+  atLeastAsFresh: z
+    .string()
+    .regex(CONSISTENCY_TOKEN_PATTERN, "Invalid consistency token")
+    .optional(),
+  fullyConsistent: z.boolean().optional(),
+  context: z.record(z.string(), z.unknown()).optional(),
+};
+
+/**
+ * Check context keys the server derives, dropped from the `context` of request bodies.
+ */
+const SERVER_CONTEXT_KEYS = [CAVEAT_NOW, "request", "ip", "userAgent"];
+
+/**
+ * Body fields of the public check endpoints. Anonymous callers cannot request decision
+ * traces or bypass the decision cache.
+ */
+const publicCheckOptionsSchema = {
+  atLeastAsFresh: checkOptionsSchema.atLeastAsFresh,
+  context: checkOptionsSchema.context,
+};
+
+/**
+ * Body fields identifying the relationship targeted by the grant and revoke endpoints.
+ */
+const grantTargetSchema = {
+  resourceType: z.string(),
+  resourceId: z.string(),
+  role: z.string(),
+  subject: z.string().min(1),
+};
+
+/**
+ * Body schema of a relationship tuple in a batched write. Dates are ISO 8601 strings.
+ */
+const tupleBodySchema = z.object({
+  objectType: z.string(),
+  objectId: z.string(),
+  relation: z.string(),
+  subjectType: z.string(),
+  subjectId: z.string(),
+  subjectRelation: z.string().optional(),
+  caveatName: z.string().optional(),
+  caveatContext: z.record(z.string(), z.unknown()).optional(),
+  validFrom: z.iso.datetime({ offset: true }).optional(),
+  validUntil: z.iso.datetime({ offset: true }).optional(),
+});
+
+/**
+ * Default action required to manage the roles of a resource through the endpoints.
+ */
+export const DEFAULT_MANAGE_PERMISSION = "manage";
+
+/**
+ * Default user roles allowed to use the administrative endpoints, matching the default of
+ * Better Auth's admin plugin.
+ */
+export const DEFAULT_ADMIN_ROLES = ["admin"];
+
+/**
+ * Default and maximum time a `/zanzibar/watch` request waits for changes, in milliseconds.
+ */
+const DEFAULT_WATCH_TIMEOUT_MS = 25_000;
+const MAX_WATCH_TIMEOUT_MS = 60_000;
+
+/**
+ * Attributes of the request a check is made in, forwarded to conditions as
+ * `context.request` when the plugin is created with `requestContext: true`.
+ */
+export interface RequestAttributes {
+  /** Client IP address, read from the configured IP address headers */
+  ip?: string;
+  /** The `User-Agent` header */
+  userAgent?: string;
+  /** The session record, without its token */
+  session?: Record<string, unknown>;
+}
+
+/**
+ * Reads the request attributes of a check endpoint call, honouring Better Auth's
+ * `advanced.ipAddress` options.
+ */
+function requestAttributes(ctx: {
+  headers?: Headers;
+  context: {
+    options: BetterAuthOptions;
+    session: { session: Record<string, unknown> } | null;
+  };
+}): RequestAttributes {
+  const attributes: RequestAttributes = {};
+  const ipOptions = ctx.context.options.advanced?.ipAddress;
+  if (ctx.headers && !ipOptions?.disableIpTracking) {
+    for (const header of ipOptions?.ipAddressHeaders ?? ["x-forwarded-for"]) {
+      const ip = ctx.headers.get(header)?.split(",")[0].trim();
+      if (ip) {
+        attributes.ip = ip;
+        break;
+      }
+    }
+  }
+  const userAgent = ctx.headers?.get("user-agent");
+  if (userAgent) attributes.userAgent = userAgent;
+  if (ctx.context.session) {
+    const { token: _token, ...session } = ctx.context.session.session;
+    attributes.session = session;
+  }
+  return attributes;
+}
+
+/**
+ * Checks whether a session user may use the administrative endpoints.
+ */
+function isAdmin(
+  user: { id: string; role?: unknown },
+  adminRoles: readonly string[],
+  adminUserIds: readonly string[]
+): boolean {
+  if (adminUserIds.includes(user.id)) return true;
+  if (typeof user.role !== "string") return false;
+  return user.role.split(",").some((role) => adminRoles.includes(role.trim()));
+}
+
+/**
+ * Checks whether a user holds any role on a resource, used to restrict endpoints that
+ * disclose who else has access to it.
+ */
+async function holdsAnyRole(
+  engine: PolicyEngine,
+  resourceType: string,
+  userId: string,
+  resourceId: string
+): Promise<boolean> {
+  for (const role of engine.getPolicies()[resourceType]?.roles ?? []) {
+    const result = await engine.hasRole(
+      resourceType,
+      role.name,
+      userId,
+      resourceId
+    );
+    if (result.allowed) return true;
+  }
+  return false;
+}
+
+/**
+ * Invalidates cached decisions after a Better Auth endpoint succeeds.
+ */
+export interface CacheInvalidationRule {
+  /** The Better Auth endpoint path, e.g. `/organization/remove-member` */
+  path: string;
+  /** Invalidates the affected cache entries; called only when the endpoint did not fail */
+  invalidate: (
+    engine: PolicyEngine,
+    ctx: HookEndpointContext
+  ) => void | Promise<void>;
+}
+
+/**
+ * Options of the Zanzibar plugin, on top of the policy engine options.
+ */
+export interface ZanzibarPluginOptions extends PolicyEngineOptions {
+  /**
+   * Rules invalidating the decision cache from Better Auth hooks
+   * (default: `DEFAULT_CACHE_INVALIDATION_RULES`)
+   */
+  invalidationRules?: CacheInvalidationRule[];
+  /**
+   * Adds the request's IP address, user agent and session to the context of checks made
+   * through the endpoints, as `context.request` (default: false)
+   */
+  requestContext?: boolean;
+  /**
+   * Action a user must be allowed on a resource to grant, revoke and list its roles through
+   * the relationship endpoints, for every resource type or per resource type
+   * (default: `manage`)
+   */
+  managePermission?: string | Partial<Record<string, string>>;
+  /**
+   * User roles allowed to use the administrative endpoints such as `/zanzibar/watch`, read
+   * from the comma-separated `role` field set by Better Auth's admin plugin
+   * (default: `DEFAULT_ADMIN_ROLES`)
+   */
+  adminRoles?: string[];
+  /** IDs of users allowed to use the administrative endpoints whatever their role */
+  adminUserIds?: string[];
+  /**
+   * Header carrying the request ID recorded in the decision log; requests without it get
+   * a generated ID (default: `x-request-id`)
+   */
+  requestIdHeader?: string;
+  /**
+   * Registers the unauthenticated check endpoints under `/zanzibar/public/`, which check the
+   * anonymous subject and so only see public grants (default: false)
+   */
+  publicChecks?: boolean;
+  /**
+   * Reloads the policies from a source while the server runs (see `watchPolicies`). The
+   * source may be created from the database adapter, e.g. with `databasePolicySource`
+   */
+  policyWatch?: {
+    /** Where to load the policies from */
+    source: PolicySource | ((adapter: Adapter) => PolicySource);
+    /** Time between loads, in milliseconds (default: 5000) */
+    intervalMs?: number;
+    /** Called after every policy update and every failed reload */
+    onEvent?: (event: PolicyEvent) => void;
+  };
+}
+
+/**
+ * Reads the `userId` of the member returned by the organization plugin's member endpoints.
+ */
+function returnedMemberUserId(ctx: HookEndpointContext): string | undefined {
+  const returned = ctx.context.returned as
+    | { userId?: string; member?: { userId?: string } }
+    | null
+    | undefined;
+  return returned?.member?.userId ?? returned?.userId;
+}
+
+/**
+ * Invalidates the session user's cached decisions.
+ */
+async function invalidateSessionUser(
+  engine: PolicyEngine,
+  ctx: HookEndpointContext
+): Promise<void> {
+  const userId = ctx.context.session?.user.id;
+  if (userId) await engine.invalidateUser(userId);
+}
+
+/**
+ * Cache invalidation rules registered by default: deleting a user, revoking sessions and
+ * organization membership changes drop the affected user's cached decisions.
+ */
+export const DEFAULT_CACHE_INVALIDATION_RULES: CacheInvalidationRule[] = [
+  { path: "/delete-user", invalidate: invalidateSessionUser },
+  { path: "/revoke-session", invalidate: invalidateSessionUser },
+  { path: "/revoke-sessions", invalidate: invalidateSessionUser },
+  { path: "/revoke-other-sessions", invalidate: invalidateSessionUser },
+  { path: "/organization/leave", invalidate: invalidateSessionUser },
+  ...["/organization/remove-member", "/organization/update-member-role"].map(
+    (path) => ({
+      path,
+      invalidate: async (engine: PolicyEngine, ctx: HookEndpointContext) => {
+        const userId = returnedMemberUserId(ctx);
+        if (userId) await engine.invalidateUser(userId);
+      },
+    })
+  ),
+];
+
 /**
  * Creates a Zanzibar authorization plugin for Better Auth that provides server-side authorization endpoints.
  *
@@ -11,6 +305,9 @@ import { z } from "zod";
  * for authorization checking. It automatically initializes the policy engine on first use and
  * provides a REST API for checking permissions.
  *
+ * The plugin also registers a `relationTuple` table through Better Auth's plugin schema and
+ * backs the policy engine's relationship store with the configured database adapter.
+ *
  * @example
  * ```typescript
  * import { ZanzibarPlugin } from './zanzibar/server';
@@ -39,20 +336,178 @@ import { z } from "zod";
  *
  * @param policies - The authorization policies object defining resources, roles, and conditions
  * @param cachingEnabled - Whether to enable caching of authorization results (default: false)
+ * @param options - Policy engine options such as the maximum rewrite depth and the cache
+ *   backend, the cache invalidation rules run from Better Auth hooks, whether request
+ *   attributes are added to the check context, the permission required to manage grants,
+ *   the admin users, how decisions are logged, whether public checks are exposed and where
+ *   policies are reloaded from
  * @returns A Better Auth plugin with Zanzibar authorization endpoints
  */
 export const ZanzibarPlugin = (
   policies: Policies,
-  cachingEnabled: boolean = false
+  cachingEnabled: boolean = false,
+  options: ZanzibarPluginOptions = {}
 ) => {
   const pluginId = "zanzibar";
+  const {
+    invalidationRules = DEFAULT_CACHE_INVALIDATION_RULES,
+    requestContext = false,
+    managePermission = DEFAULT_MANAGE_PERMISSION,
+    adminRoles = DEFAULT_ADMIN_ROLES,
+    adminUserIds = [],
+    requestIdHeader = "x-request-id",
+    publicChecks = false,
+    policyWatch,
+    ...engineOptions
+  } = options;
+  const databaseDecisionLog =
+    engineOptions.decisionLog !== undefined && !engineOptions.decisionLog.sink;
+  const requestIds = new WeakMap<object, string>();
+  let stopPolicyWatch: (() => void) | undefined;
+
+  /**
+   * The ID of an endpoint call, read from `requestIdHeader` or generated once per call so
+   * that every decision it makes shares it.
+   */
+  const requestId = (ctx: { headers?: Headers }): string => {
+    let id = requestIds.get(ctx);
+    if (!id) {
+      id = ctx.headers?.get(requestIdHeader) || generateId();
+      requestIds.set(ctx, id);
+    }
+    return id;
+  };
+
+  /**
+   * Checks whether a user may manage the roles of a resource. Evaluated without the
+   * decision cache, so that revoked managers lose access immediately.
+   */
+  const canManage = async (
+    engine: PolicyEngine,
+    userId: string,
+    resourceType: string,
+    resourceId: string,
+    requestId: string
+  ): Promise<boolean> => {
+    const action =
+      typeof managePermission === "string"
+        ? managePermission
+        : managePermission[resourceType] ?? DEFAULT_MANAGE_PERMISSION;
+    const result = await engine.hasPermission(
+      userId,
+      action,
+      resourceType,
+      resourceId,
+      { fullyConsistent: true, requestId }
+    );
+    return result.allowed;
+  };
+
+  /**
+   * The context of a check made through an endpoint: the body's `context` without the keys
+   * the server derives, plus the request attributes when `requestContext` is enabled. The
+   * request attributes are also set at the top level (`ip`, `userAgent`) for caveats to read.
+   * Clients can neither set `now`, which would move the caveat clock, nor the attributes.
+   */
+  const checkContext = (
+    ctx: Parameters<typeof requestAttributes>[0],
+    context: CheckContext | undefined
+  ): CheckContext | undefined => {
+    const clientContext =
+      context &&
+      Object.fromEntries(
+        Object.entries(context).filter(
+          ([key]) => !SERVER_CONTEXT_KEYS.includes(key)
+        )
+      );
+    if (!requestContext) return clientContext;
+    const request = requestAttributes(ctx);
+    return {
+      ...clientContext,
+      ...(request.ip !== undefined && { ip: request.ip }),
+      ...(request.userAgent !== undefined && { userAgent: request.userAgent }),
+      request,
+    };
+  };
+
+  /**
+   * Awaits a check made through an endpoint, answering context values of the wrong type for
+   * a caveat parameter with `400 BAD_REQUEST` rather than a server error.
+   */
+  const runCheck = async <T>(check: Promise<T>): Promise<T> => {
+    try {
+      return await check;
+    } catch (error) {
+      if (!(error instanceof CaveatContextError)) throw error;
+      throw new APIError("BAD_REQUEST", { message: error.message });
+    }
+  };
+
+  /**
+   * The options of a check made through an endpoint: the body's options with the check
+   * context and the request ID.
+   */
+  const checkOptions = <O extends CheckOptions>(
+    ctx: Parameters<typeof requestAttributes>[0],
+    options: O
+  ): O => ({
+    ...options,
+    context: checkContext(ctx, options.context),
+    requestId: requestId(ctx),
+  });
 
   if (!policyEngineInstance) {
-    initializePolicyEngine(policies, cachingEnabled);
+    initializePolicyEngine(policies, cachingEnabled, engineOptions);
   }
 
   return {
     id: pluginId,
+    schema: {
+      ...relationTupleSchema,
+      ...(databaseDecisionLog ? decisionLogSchema : {}),
+    },
+    init(ctx) {
+      policyEngineInstance?.setRelationshipStore(
+        new RelationshipStore(ctx.adapter)
+      );
+      if (databaseDecisionLog) {
+        policyEngineInstance?.setDecisionSink(
+          new DatabaseDecisionSink(ctx.adapter)
+        );
+      }
+      if (policyWatch && policyEngineInstance) {
+        // init runs again when the auth instance is recreated; keep a single watch
+        stopPolicyWatch?.();
+        const { source, intervalMs, onEvent } = policyWatch;
+        const stopListening = onEvent
+          ? policyEngineInstance.onPolicyEvent(onEvent)
+          : undefined;
+        const stopWatching = policyEngineInstance.watchPolicies(
+          typeof source === "function" ? source(ctx.adapter) : source,
+          { intervalMs }
+        );
+        stopPolicyWatch = () => {
+          stopListening?.();
+          stopWatching();
+        };
+      }
+    },
+    hooks: {
+      after: [
+        {
+          matcher: (ctx) =>
+            invalidationRules.some((rule) => rule.path === ctx.path),
+          handler: createAuthMiddleware(async (ctx) => {
+            if (!policyEngineInstance) return;
+            if (ctx.context.returned instanceof Error) return;
+            for (const rule of invalidationRules) {
+              if (rule.path !== ctx.path) continue;
+              await rule.invalidate(policyEngineInstance, ctx);
+            }
+          }),
+        },
+      ],
+    },
     endpoints: {
       /**
        * POST endpoint for checking a SINGLE permission.
@@ -82,16 +537,28 @@ export const ZanzibarPlugin = (
        * - `action`: string - The action to check (e.g., 'read', 'write', 'delete')
        * - `resourceType`: string - The type of resource (e.g., 'documents', 'projects')
        * - `resourceId`: string - The specific resource instance ID
+       * - `subject`: string (optional) - Check a userset such as `team:eng#member` instead of the
+       *   session user; the session user must be a member of it
+       * - `explain`: boolean (optional) - Include a decision trace in the response
+       * - `atLeastAsFresh`: string (optional) - Consistency token from a relationship write; cached
+       *   decisions older than it are re-evaluated
+       * - `fullyConsistent`: boolean (optional) - Bypass the decision cache
+       * - `context`: object (optional) - Attributes forwarded to condition functions and
+       *   caveats; `now`, `request`, `ip` and `userAgent` are set by the server
        *
        * Response format:
        * ```typescript
        * {
        *   allowed: boolean,     // Whether the action is permitted
-       *   message: string       // Human-readable explanation
+       *   message: string,      // Human-readable explanation
+       *   decidingRule?: { type: 'role' | 'deny', name: string }, // The rule that decided
+       *   trace?: DecisionTrace // Only present when `explain` is true
        * }
        * ```
        *
        * @throws INTERNAL_SERVER_ERROR if Zanzibar is not initialized with policies
+       * @throws BAD_REQUEST if `context` holds a value of the wrong type for a caveat parameter
+       * @throws FORBIDDEN if the session user is not a member of `subject`
        */
       hasPermission: createAuthEndpoint(
         "/zanzibar/has-permission",
@@ -102,11 +569,14 @@ export const ZanzibarPlugin = (
             action: z.string(),
             resourceType: z.string(),
             resourceId: z.string(),
+            subject: z.string().optional(),
+            ...checkOptionsSchema,
           }),
         },
         async (ctx) => {
           // The body is already parsed and validated by Better Auth
-          const { action, resourceType, resourceId } = ctx.body;
+          const { action, resourceType, resourceId, subject, ...options } =
+            ctx.body;
           const userId = ctx.context.session?.user.id;
 
           if (!policyEngineInstance) {
@@ -115,11 +585,23 @@ export const ZanzibarPlugin = (
             });
           }
 
-          const allowed = await policyEngineInstance.hasPermission(
-            userId,
-            action,
-            resourceType,
-            resourceId
+          if (
+            subject !== undefined &&
+            !(await policyEngineInstance.isSubjectMember(userId, subject))
+          ) {
+            throw ctx.error("FORBIDDEN", {
+              message: `Not a member of subject '${subject}'`,
+            });
+          }
+
+          const allowed = await runCheck(
+            policyEngineInstance.hasPermission(
+              subject ?? userId,
+              action,
+              resourceType,
+              resourceId,
+              checkOptions(ctx, options)
+            )
           );
           return ctx.json({
             ...allowed,
@@ -136,13 +618,23 @@ export const ZanzibarPlugin = (
        * - `resourceType`: string - The type of resource (e.g., 'documents', 'projects')
        * - `roleName`: string - The name of the role to check (e.g., 'editor', 'viewer')
        * - `resourceId`: string - The specific resource instance ID
+       * - `subject`: string (optional) - Check a userset such as `team:eng#member` instead of the
+       *   session user; the session user must be a member of it
+       * - `explain`: boolean (optional) - Include a decision trace in the response
+       * - `atLeastAsFresh`: string (optional) - Consistency token from a relationship write; cached
+       *   decisions older than it are re-evaluated
+       * - `fullyConsistent`: boolean (optional) - Bypass the decision cache
+       * - `context`: object (optional) - Attributes forwarded to condition functions and
+       *   caveats; `now`, `request`, `ip` and `userAgent` are set by the server
        *
        * Response format:
        * ```typescript
-       * { allowed: boolean, message: string }
+       * { allowed: boolean, message: string, trace?: DecisionTrace }
        * ```
        *
        * @throws INTERNAL_SERVER_ERROR if Zanzibar is not initialized with policies
+       * @throws BAD_REQUEST if `context` holds a value of the wrong type for a caveat parameter
+       * @throws FORBIDDEN if the session user is not a member of `subject`
        */
       hasRole: createAuthEndpoint(
         "/zanzibar/has-role",
@@ -153,10 +645,13 @@ export const ZanzibarPlugin = (
             resourceType: z.string(),
             roleName: z.string(),
             resourceId: z.string(),
+            subject: z.string().optional(),
+            ...checkOptionsSchema,
           }),
         },
         async (ctx) => {
-          const { resourceType, roleName, resourceId } = ctx.body;
+          const { resourceType, roleName, resourceId, subject, ...options } =
+            ctx.body;
           const userId = ctx.context.session?.user.id;
 
           if (!policyEngineInstance) {
@@ -165,11 +660,23 @@ export const ZanzibarPlugin = (
             });
           }
 
-          const allowed = await policyEngineInstance.hasRole(
-            resourceType,
-            roleName,
-            userId,
-            resourceId
+          if (
+            subject !== undefined &&
+            !(await policyEngineInstance.isSubjectMember(userId, subject))
+          ) {
+            throw ctx.error("FORBIDDEN", {
+              message: `Not a member of subject '${subject}'`,
+            });
+          }
+
+          const allowed = await runCheck(
+            policyEngineInstance.hasRole(
+              resourceType,
+              roleName,
+              subject ?? userId,
+              resourceId,
+              checkOptions(ctx, options)
+            )
           );
           return ctx.json({ ...allowed });
         }
@@ -216,6 +723,14 @@ export const ZanzibarPlugin = (
        *
        * Request body schema:
        * - `checks`: Record<string, { resourceType: string, action?: string, actions?: string[], resourceId: string }>
+       * - `subject`: string (optional) - Check a userset such as `team:eng#member` instead of the
+       *   session user; the session user must be a member of it
+       * - `explain`: boolean (optional) - Include a decision trace in the response
+       * - `atLeastAsFresh`: string (optional) - Consistency token from a relationship write; cached
+       *   decisions older than it are re-evaluated
+       * - `fullyConsistent`: boolean (optional) - Bypass the decision cache
+       * - `context`: object (optional) - Attributes forwarded to condition functions and
+       *   caveats; `now`, `request`, `ip` and `userAgent` are set by the server
        *
        * Response format:
        * ```typescript
@@ -223,10 +738,14 @@ export const ZanzibarPlugin = (
        *   allowed: boolean,
        *   message: string,
        *   results?: Record<string, boolean>  // Only present for multi-action checks
+       *   trace?: DecisionTrace               // Single-action checks with `explain`
+       *   traces?: Record<string, DecisionTrace> // Multi-action checks with `explain`
        * }>
        * ```
        *
        * @throws INTERNAL_SERVER_ERROR if Zanzibar is not initialized with policies
+       * @throws BAD_REQUEST if `context` holds a value of the wrong type for a caveat parameter
+       * @throws FORBIDDEN if the session user is not a member of `subject`
        */
       hasPermissions: createAuthEndpoint(
         "/zanzibar/has-permissions",
@@ -243,10 +762,12 @@ export const ZanzibarPlugin = (
                 resourceId: z.string(),
               })
             ),
+            subject: z.string().optional(),
+            ...checkOptionsSchema,
           }),
         },
         async (ctx) => {
-          const { checks } = ctx.body;
+          const { checks, subject, ...options } = ctx.body;
           const userId = ctx.context.session?.user.id;
 
           if (!policyEngineInstance) {
@@ -255,13 +776,1160 @@ export const ZanzibarPlugin = (
             });
           }
 
-          const result = await policyEngineInstance.hasPermissions(
-            userId,
-            checks
+          if (
+            subject !== undefined &&
+            !(await policyEngineInstance.isSubjectMember(userId, subject))
+          ) {
+            throw ctx.error("FORBIDDEN", {
+              message: `Not a member of subject '${subject}'`,
+            });
+          }
+
+          const result = await runCheck(
+            policyEngineInstance.hasPermissions(
+              subject ?? userId,
+              checks,
+              checkOptions(ctx, options)
+            )
           );
           return ctx.json(result);
         }
       ),
+      /**
+       * POST endpoint checking ONE action on many resources of the same type.
+       *
+       * Roles with a batch condition are evaluated once for all resources; other conditions
+       * fall back to one evaluation per resource.
+       *
+       * @example
+       * ```typescript
+       * const response = await fetch('/api/auth/zanzibar/check-bulk', {
+       *   method: 'POST',
+       *   headers: { 'Content-Type': 'application/json' },
+       *   body: JSON.stringify({
+       *     action: 'read',
+       *     resourceType: 'documents',
+       *     resourceIds: ['doc-1', 'doc-2', 'doc-3']
+       *   })
+       * });
+       *
+       * const { results } = await response.json();
+       * console.log(results['doc-1']); // true/false
+       * ```
+       *
+       * Request body schema:
+       * - `action`: string - The action to check (e.g., 'read', 'write', 'delete')
+       * - `resourceType`: string - The type of the resources
+       * - `resourceIds`: string[] - The resource IDs to check, 1 to 1000
+       * - `subject`: string (optional) - Check a userset such as `team:eng#member` instead of the
+       *   session user; the session user must be a member of it
+       * - `atLeastAsFresh`: string (optional) - Consistency token from a relationship write
+       * - `fullyConsistent`: boolean (optional) - Bypass the decision cache
+       * - `context`: object (optional) - Attributes forwarded to condition functions and
+       *   caveats; `now`, `request`, `ip` and `userAgent` are set by the server
+       *
+       * Response format:
+       * ```typescript
+       * {
+       *   results: Record<string, boolean>  // Whether the action is allowed, keyed by resource ID
+       * }
+       * ```
+       *
+       * @throws INTERNAL_SERVER_ERROR if Zanzibar is not initialized with policies
+       * @throws BAD_REQUEST if `context` holds a value of the wrong type for a caveat parameter
+       * @throws FORBIDDEN if the session user is not a member of `subject`
+       */
+      checkBulk: createAuthEndpoint(
+        "/zanzibar/check-bulk",
+        {
+          method: "POST",
+          use: [sessionMiddleware],
+          body: z.object({
+            action: z.string(),
+            resourceType: z.string(),
+            resourceIds: z.array(z.string()).min(1).max(1000),
+            subject: z.string().optional(),
+            atLeastAsFresh: checkOptionsSchema.atLeastAsFresh,
+            fullyConsistent: checkOptionsSchema.fullyConsistent,
+            context: checkOptionsSchema.context,
+          }),
+        },
+        async (ctx) => {
+          const {
+            action,
+            resourceType,
+            resourceIds,
+            subject,
+            atLeastAsFresh,
+            fullyConsistent,
+            context,
+          } = ctx.body;
+          const userId = ctx.context.session?.user.id;
+
+          if (!policyEngineInstance) {
+            throw ctx.error("INTERNAL_SERVER_ERROR", {
+              message: "Zanzibar not initialized with policies",
+            });
+          }
+
+          if (
+            subject !== undefined &&
+            !(await policyEngineInstance.isSubjectMember(userId, subject))
+          ) {
+            throw ctx.error("FORBIDDEN", {
+              message: `Not a member of subject '${subject}'`,
+            });
+          }
+
+          const results = await runCheck(
+            policyEngineInstance.checkBulk(
+              subject ?? userId,
+              action,
+              resourceType,
+              resourceIds,
+              checkOptions(ctx, { atLeastAsFresh, fullyConsistent, context })
+            )
+          );
+          return ctx.json({ results });
+        }
+      ),
+      /**
+       * POST endpoint listing the resources the session user can perform an action on.
+       *
+       * Results are sorted by resource ID and paginated with an opaque cursor: pass the
+       * `nextCursor` of one page as `cursor` to fetch the next one. Only the candidates of the
+       * requested page are verified. The cursor carries the time the first page was read, and
+       * later pages never use cached decisions older than it, so that no page is staler than
+       * the first one.
+       *
+       * @example
+       * ```typescript
+       * const response = await fetch('/api/auth/zanzibar/lookup-resources', {
+       *   method: 'POST',
+       *   headers: { 'Content-Type': 'application/json' },
+       *   body: JSON.stringify({ action: 'write', resourceType: 'documents', limit: 50 })
+       * });
+       *
+       * const { resourceIds, nextCursor } = await response.json();
+       * ```
+       *
+       * Request body schema:
+       * - `action`: string - The action to check (e.g., 'read', 'write', 'delete')
+       * - `resourceType`: string - The type of resource to list
+       * - `limit`: number (optional) - Page size, 1 to 1000 (default: 100)
+       * - `cursor`: string (optional) - The `nextCursor` returned by the previous page
+       * - `atLeastAsFresh`: string (optional) - Consistency token from a relationship write
+       * - `fullyConsistent`: boolean (optional) - Bypass the decision cache
+       * - `context`: object (optional) - Attributes forwarded to condition functions and
+       *   caveats; `now`, `request`, `ip` and `userAgent` are set by the server
+       *
+       * Response format:
+       * ```typescript
+       * {
+       *   resourceIds: string[],     // IDs on this page
+       *   nextCursor: string | null  // Cursor for the next page, null on the last page
+       * }
+       * ```
+       *
+       * @throws INTERNAL_SERVER_ERROR if Zanzibar is not initialized with policies
+       * @throws BAD_REQUEST if the cursor is invalid, or `context` holds a value of the wrong
+       *   type for a caveat parameter
+       */
+      lookupResources: createAuthEndpoint(
+        "/zanzibar/lookup-resources",
+        {
+          method: "POST",
+          use: [sessionMiddleware],
+          body: z.object({
+            action: z.string(),
+            resourceType: z.string(),
+            limit: z.number().int().min(1).max(1000).optional(),
+            cursor: z.string().optional(),
+            atLeastAsFresh: checkOptionsSchema.atLeastAsFresh,
+            fullyConsistent: checkOptionsSchema.fullyConsistent,
+            context: checkOptionsSchema.context,
+          }),
+        },
+        async (ctx) => {
+          const {
+            action,
+            resourceType,
+            limit = 100,
+            cursor,
+            atLeastAsFresh,
+            fullyConsistent,
+            context,
+          } = ctx.body;
+          const userId = ctx.context.session?.user.id;
+
+          if (!policyEngineInstance) {
+            throw ctx.error("INTERNAL_SERVER_ERROR", {
+              message: "Zanzibar not initialized with policies",
+            });
+          }
+
+          // Cursors are `<first page token>:<last resource ID>`
+          let firstPage = encodeConsistencyToken(Date.now());
+          let after: string | undefined;
+          let freshness = atLeastAsFresh;
+          if (cursor !== undefined) {
+            const separator = cursor.indexOf(":");
+            firstPage = cursor.slice(0, separator);
+            after = cursor.slice(separator + 1);
+            if (separator < 0 || !CONSISTENCY_TOKEN_PATTERN.test(firstPage)) {
+              throw ctx.error("BAD_REQUEST", { message: "Invalid cursor" });
+            }
+            if (
+              freshness === undefined ||
+              decodeConsistencyToken(freshness) <
+                decodeConsistencyToken(firstPage)
+            ) {
+              freshness = firstPage;
+            }
+          }
+
+          const ids = await runCheck(
+            policyEngineInstance.lookupResources(userId, action, resourceType, {
+              fullyConsistent,
+              context: checkContext(ctx, context),
+              atLeastAsFresh: freshness,
+              after,
+              limit: limit + 1,
+            })
+          );
+          const resourceIds = ids.slice(0, limit);
+          return ctx.json({
+            resourceIds,
+            nextCursor:
+              ids.length > limit
+                ? `${firstPage}:${resourceIds[resourceIds.length - 1]}`
+                : null,
+          });
+        }
+      ),
+      /**
+       * POST endpoint listing the subjects that hold a role, or can perform an action, on a resource.
+       *
+       * Intended for sharing dialogs and audit screens. Only users holding at least one role
+       * on the resource may list its subjects.
+       *
+       * @example
+       * ```typescript
+       * const response = await fetch('/api/auth/zanzibar/lookup-subjects', {
+       *   method: 'POST',
+       *   headers: { 'Content-Type': 'application/json' },
+       *   body: JSON.stringify({ resourceType: 'documents', resourceId: 'doc-123', roleOrAction: 'write' })
+       * });
+       *
+       * const { subjects } = await response.json();
+       * // [{ subject: 'user:alice', path: ['documents:doc-123#editor'], direct: true }, ...]
+       * ```
+       *
+       * Request body schema:
+       * - `resourceType`: string - The type of resource (e.g., 'documents', 'projects')
+       * - `resourceId`: string - The specific resource instance ID
+       * - `roleOrAction`: string - A role name, or an action granted by one or more roles
+       *
+       * Response format:
+       * ```typescript
+       * {
+       *   subjects: Array<{
+       *     subject: string,   // 'user:alice' or a userset such as 'team:eng#member'
+       *     path: string[],    // Relations traversed to reach the subject
+       *     direct: boolean    // Whether the subject was granted without inheritance
+       *   }>
+       * }
+       * ```
+       *
+       * @throws INTERNAL_SERVER_ERROR if Zanzibar is not initialized with policies
+       * @throws FORBIDDEN if the session user holds no role on the resource
+       */
+      lookupSubjects: createAuthEndpoint(
+        "/zanzibar/lookup-subjects",
+        {
+          method: "POST",
+          use: [sessionMiddleware],
+          body: z.object({
+            resourceType: z.string(),
+            resourceId: z.string(),
+            roleOrAction: z.string(),
+          }),
+        },
+        async (ctx) => {
+          const { resourceType, resourceId, roleOrAction } = ctx.body;
+          const userId = ctx.context.session?.user.id;
+
+          if (!policyEngineInstance) {
+            throw ctx.error("INTERNAL_SERVER_ERROR", {
+              message: "Zanzibar not initialized with policies",
+            });
+          }
+
+          if (
+            !(await holdsAnyRole(
+              policyEngineInstance,
+              resourceType,
+              userId,
+              resourceId
+            ))
+          ) {
+            throw ctx.error("FORBIDDEN", {
+              message: `No access to ${resourceType} '${resourceId}'`,
+            });
+          }
+
+          const subjects = await policyEngineInstance.lookupSubjects(
+            resourceType,
+            resourceId,
+            roleOrAction
+          );
+          return ctx.json({ subjects });
+        }
+      ),
+      /**
+       * POST endpoint returning the userset tree behind a role or action on a resource.
+       *
+       * Modelled on Zanzibar's Expand, the tree lists the roles granting the action, the
+       * rewrites and conditions they consult, and the subjects named at each leaf. Every node
+       * reports whether it grants access to the session user. Only users holding at least one
+       * role on the resource may expand it.
+       *
+       * @example
+       * ```typescript
+       * const response = await fetch('/api/auth/zanzibar/expand', {
+       *   method: 'POST',
+       *   headers: { 'Content-Type': 'application/json' },
+       *   body: JSON.stringify({ resourceType: 'documents', resourceId: 'doc-123', roleOrAction: 'write' })
+       * });
+       *
+       * const { tree } = await response.json();
+       * console.log(tree.allowed); // false
+       * ```
+       *
+       * Request body schema:
+       * - `resourceType`: string - The type of resource (e.g., 'documents', 'projects')
+       * - `resourceId`: string - The specific resource instance ID
+       * - `roleOrAction`: string - A role name, or an action granted by one or more roles
+       * - `context`: object (optional) - Attributes forwarded to condition functions and caveats, as in checks
+       *
+       * Response format:
+       * ```typescript
+       * { tree: ExpandNode }
+       * ```
+       *
+       * @throws INTERNAL_SERVER_ERROR if Zanzibar is not initialized with policies
+       * @throws FORBIDDEN if the session user holds no role on the resource
+       * @throws BAD_REQUEST if a context value has the wrong type for a caveat parameter
+       */
+      expand: createAuthEndpoint(
+        "/zanzibar/expand",
+        {
+          method: "POST",
+          use: [sessionMiddleware],
+          body: z.object({
+            resourceType: z.string(),
+            resourceId: z.string(),
+            roleOrAction: z.string(),
+            context: checkOptionsSchema.context,
+          }),
+        },
+        async (ctx) => {
+          const { resourceType, resourceId, roleOrAction, context } = ctx.body;
+          const userId = ctx.context.session?.user.id;
+
+          if (!policyEngineInstance) {
+            throw ctx.error("INTERNAL_SERVER_ERROR", {
+              message: "Zanzibar not initialized with policies",
+            });
+          }
+
+          if (
+            !(await holdsAnyRole(
+              policyEngineInstance,
+              resourceType,
+              userId,
+              resourceId
+            ))
+          ) {
+            throw ctx.error("FORBIDDEN", {
+              message: `No access to ${resourceType} '${resourceId}'`,
+            });
+          }
+
+          const tree = await runCheck(
+            policyEngineInstance.expand(
+              resourceType,
+              resourceId,
+              roleOrAction,
+              userId,
+              checkOptions(ctx, { context })
+            )
+          );
+          return ctx.json({ tree });
+        }
+      ),
+      /**
+       * POST endpoint granting a role on a resource to a subject.
+       *
+       * Writes a relationship tuple to the plugin's relationship store. Only users allowed the
+       * manage permission on the resource (`manage` unless configured with `managePermission`)
+       * may grant its roles. Cached decisions for the resource are invalidated.
+       *
+       * @example
+       * ```typescript
+       * const response = await fetch('/api/auth/zanzibar/grant', {
+       *   method: 'POST',
+       *   headers: { 'Content-Type': 'application/json' },
+       *   body: JSON.stringify({
+       *     resourceType: 'documents',
+       *     resourceId: 'doc-123',
+       *     role: 'editor',
+       *     subject: 'user:alice',
+       *     validUntil: '2026-10-23T18:00:00Z'
+       *   })
+       * });
+       *
+       * const { granted, token } = await response.json();
+       * ```
+       *
+       * Request body schema:
+       * - `resourceType`: string - The type of resource (e.g., 'documents', 'projects')
+       * - `resourceId`: string - The specific resource instance ID
+       * - `role`: string - A role defined for the resource type
+       * - `subject`: string - A user ID, `user:alice`, or a userset such as `team:eng#member`
+       * - `validFrom`, `validUntil`: string (optional) - ISO 8601 bounds of a time-limited grant
+       * - `caveatName`: string (optional) - A declared caveat the grant depends on
+       * - `caveatContext`: object (optional) - Caveat parameters fixed by the grant; requires `caveatName`
+       *
+       * Response format:
+       * ```typescript
+       * {
+       *   granted: boolean, // False if the exact grant already existed
+       *   token: string     // Consistency token to pass as `atLeastAsFresh`
+       * }
+       * ```
+       *
+       * @throws INTERNAL_SERVER_ERROR if Zanzibar is not initialized with policies
+       * @throws BAD_REQUEST if the role or caveat is unknown, `caveatContext` is sent without
+       *   `caveatName`, or the validity window is empty
+       * @throws FORBIDDEN if the session user may not manage the resource
+       */
+      grant: createAuthEndpoint(
+        "/zanzibar/grant",
+        {
+          method: "POST",
+          use: [sessionMiddleware],
+          body: z.object({
+            ...grantTargetSchema,
+            validFrom: z.iso.datetime({ offset: true }).optional(),
+            validUntil: z.iso.datetime({ offset: true }).optional(),
+            caveatName: z.string().optional(),
+            caveatContext: z.record(z.string(), z.unknown()).optional(),
+          }),
+        },
+        async (ctx) => {
+          const {
+            resourceType,
+            resourceId,
+            role,
+            subject,
+            validFrom,
+            validUntil,
+            caveatName,
+            caveatContext,
+          } = ctx.body;
+          const userId = ctx.context.session?.user.id;
+
+          if (!policyEngineInstance) {
+            throw ctx.error("INTERNAL_SERVER_ERROR", {
+              message: "Zanzibar not initialized with policies",
+            });
+          }
+
+          if (
+            !(await canManage(
+              policyEngineInstance,
+              userId,
+              resourceType,
+              resourceId,
+              requestId(ctx)
+            ))
+          ) {
+            throw ctx.error("FORBIDDEN", {
+              message: `Not allowed to manage ${resourceType} '${resourceId}'`,
+            });
+          }
+
+          if (
+            !policyEngineInstance
+              .getPolicies()
+              [resourceType]?.roles.some((r) => r.name === role)
+          ) {
+            throw ctx.error("BAD_REQUEST", {
+              message: `Unknown role '${role}' for resource '${resourceType}'`,
+            });
+          }
+
+          const parsed = parseSubject(subject);
+          const tuple: RelationTuple = {
+            objectType: resourceType,
+            objectId: resourceId,
+            relation: role,
+            subjectType: parsed.type,
+            subjectId: parsed.id,
+            ...(parsed.relation && { subjectRelation: parsed.relation }),
+            ...(caveatName && { caveatName }),
+            ...(caveatContext && { caveatContext }),
+            ...(validFrom && { validFrom: new Date(validFrom) }),
+            ...(validUntil && { validUntil: new Date(validUntil) }),
+          };
+          if (
+            tuple.validFrom &&
+            tuple.validUntil &&
+            tuple.validUntil <= tuple.validFrom
+          ) {
+            throw ctx.error("BAD_REQUEST", {
+              message: "validUntil must be after validFrom",
+            });
+          }
+          try {
+            policyEngineInstance.validateTuples([tuple]);
+          } catch (error) {
+            throw ctx.error("BAD_REQUEST", {
+              message: (error as Error).message,
+            });
+          }
+
+          const { written, token } =
+            await policyEngineInstance.relationships.write([tuple]);
+          await policyEngineInstance.invalidateResource(
+            resourceType,
+            resourceId
+          );
+          return ctx.json({ granted: written.length > 0, token });
+        }
+      ),
+      /**
+       * POST endpoint revoking a role on a resource from a subject.
+       *
+       * Deletes the matching relationship tuple; roles the subject holds through groups or
+       * parent resources are not affected. Only users allowed the manage permission on the
+       * resource may revoke its roles. Cached decisions for the resource are invalidated.
+       *
+       * @example
+       * ```typescript
+       * await fetch('/api/auth/zanzibar/revoke', {
+       *   method: 'POST',
+       *   headers: { 'Content-Type': 'application/json' },
+       *   body: JSON.stringify({ resourceType: 'documents', resourceId: 'doc-123', role: 'editor', subject: 'user:alice' })
+       * });
+       * ```
+       *
+       * Request body schema:
+       * - `resourceType`: string - The type of resource (e.g., 'documents', 'projects')
+       * - `resourceId`: string - The specific resource instance ID
+       * - `role`: string - The role to revoke
+       * - `subject`: string - A user ID, `user:alice`, or a userset such as `team:eng#member`
+       *
+       * Response format:
+       * ```typescript
+       * {
+       *   revoked: boolean, // False if the subject held no such grant
+       *   token: string     // Consistency token to pass as `atLeastAsFresh`
+       * }
+       * ```
+       *
+       * @throws INTERNAL_SERVER_ERROR if Zanzibar is not initialized with policies
+       * @throws FORBIDDEN if the session user may not manage the resource
+       */
+      revoke: createAuthEndpoint(
+        "/zanzibar/revoke",
+        {
+          method: "POST",
+          use: [sessionMiddleware],
+          body: z.object(grantTargetSchema),
+        },
+        async (ctx) => {
+          const { resourceType, resourceId, role, subject } = ctx.body;
+          const userId = ctx.context.session?.user.id;
+
+          if (!policyEngineInstance) {
+            throw ctx.error("INTERNAL_SERVER_ERROR", {
+              message: "Zanzibar not initialized with policies",
+            });
+          }
+
+          if (
+            !(await canManage(
+              policyEngineInstance,
+              userId,
+              resourceType,
+              resourceId,
+              requestId(ctx)
+            ))
+          ) {
+            throw ctx.error("FORBIDDEN", {
+              message: `Not allowed to manage ${resourceType} '${resourceId}'`,
+            });
+          }
+
+          const parsed = parseSubject(subject);
+          const { deleted, token } =
+            await policyEngineInstance.relationships.delete({
+              objectType: resourceType,
+              objectId: resourceId,
+              relation: role,
+              subjectType: parsed.type,
+              subjectId: parsed.id,
+              subjectRelation: parsed.relation ?? null,
+            });
+          await policyEngineInstance.invalidateResource(
+            resourceType,
+            resourceId
+          );
+          return ctx.json({ revoked: deleted > 0, token });
+        }
+      ),
+      /**
+       * POST endpoint listing the role grants stored for a resource.
+       *
+       * Returns the relationship tuples written on the resource, optionally for one role,
+       * including expired and not yet valid grants. Only users allowed the manage permission
+       * on the resource may list them.
+       *
+       * @example
+       * ```typescript
+       * const response = await fetch('/api/auth/zanzibar/list-grants', {
+       *   method: 'POST',
+       *   headers: { 'Content-Type': 'application/json' },
+       *   body: JSON.stringify({ resourceType: 'documents', resourceId: 'doc-123' })
+       * });
+       *
+       * const { grants } = await response.json();
+       * // [{ objectType: 'documents', objectId: 'doc-123', relation: 'editor', subjectType: 'user', subjectId: 'alice' }]
+       * ```
+       *
+       * Request body schema:
+       * - `resourceType`: string - The type of resource (e.g., 'documents', 'projects')
+       * - `resourceId`: string - The specific resource instance ID
+       * - `role`: string (optional) - Only list grants of this role
+       *
+       * Response format:
+       * ```typescript
+       * {
+       *   grants: RelationTuple[]
+       * }
+       * ```
+       *
+       * @throws INTERNAL_SERVER_ERROR if Zanzibar is not initialized with policies
+       * @throws FORBIDDEN if the session user may not manage the resource
+       */
+      listGrants: createAuthEndpoint(
+        "/zanzibar/list-grants",
+        {
+          method: "POST",
+          use: [sessionMiddleware],
+          body: z.object({
+            resourceType: z.string(),
+            resourceId: z.string(),
+            role: z.string().optional(),
+          }),
+        },
+        async (ctx) => {
+          const { resourceType, resourceId, role } = ctx.body;
+          const userId = ctx.context.session?.user.id;
+
+          if (!policyEngineInstance) {
+            throw ctx.error("INTERNAL_SERVER_ERROR", {
+              message: "Zanzibar not initialized with policies",
+            });
+          }
+
+          if (
+            !(await canManage(
+              policyEngineInstance,
+              userId,
+              resourceType,
+              resourceId,
+              requestId(ctx)
+            ))
+          ) {
+            throw ctx.error("FORBIDDEN", {
+              message: `Not allowed to manage ${resourceType} '${resourceId}'`,
+            });
+          }
+
+          const grants = await policyEngineInstance.relationships.read({
+            objectType: resourceType,
+            objectId: resourceId,
+            ...(role !== undefined && { relation: role }),
+          });
+          return ctx.json({ grants });
+        }
+      ),
+      /**
+       * POST endpoint applying a batch of relationship updates atomically.
+       *
+       * The preconditions are checked and the updates applied in a single transaction, so
+       * either every update is applied or none is. The session user must be allowed the manage
+       * permission on every resource the updates or preconditions reference. Cached decisions
+       * for the updated resources are invalidated.
+       *
+       * @example
+       * ```typescript
+       * const response = await fetch('/api/auth/zanzibar/write-relationships', {
+       *   method: 'POST',
+       *   headers: { 'Content-Type': 'application/json' },
+       *   body: JSON.stringify({
+       *     updates: [
+       *       { op: 'delete', tuple: { objectType: 'documents', objectId: 'doc-123', relation: 'owner', subjectType: 'user', subjectId: 'alice' } },
+       *       { op: 'create', tuple: { objectType: 'documents', objectId: 'doc-123', relation: 'owner', subjectType: 'user', subjectId: 'bob' } }
+       *     ],
+       *     preconditions: [
+       *       { op: 'must-exist', filter: { objectType: 'documents', objectId: 'doc-123', relation: 'owner', subjectType: 'user', subjectId: 'alice' } }
+       *     ]
+       *   })
+       * });
+       *
+       * const { written, deleted, token } = await response.json();
+       * ```
+       *
+       * Request body schema:
+       * - `updates`: Array<{ op: 'create' | 'touch' | 'delete', tuple: RelationTuple }> - The updates, with ISO 8601 validity bounds
+       * - `preconditions`: Array<{ op: 'must-exist' | 'must-not-exist', filter: RelationTupleFilter }> (optional) - Filters must name `objectType` and `objectId`
+       *
+       * Response format:
+       * ```typescript
+       * {
+       *   written: RelationTuple[], // Created or updated tuples
+       *   deleted: number,          // Number of deleted tuples
+       *   token: string             // Consistency token to pass as `atLeastAsFresh`
+       * }
+       * ```
+       *
+       * @throws INTERNAL_SERVER_ERROR if Zanzibar is not initialized with policies
+       * @throws BAD_REQUEST if a tuple references an unknown caveat, appears twice or has an empty validity window
+       * @throws FORBIDDEN if the session user may not manage a referenced resource
+       * @throws PRECONDITION_FAILED if a precondition does not hold
+       * @throws CONFLICT if a `create` update targets an existing tuple
+       */
+      writeRelationships: createAuthEndpoint(
+        "/zanzibar/write-relationships",
+        {
+          method: "POST",
+          use: [sessionMiddleware],
+          body: z.object({
+            updates: z
+              .array(
+                z.object({
+                  op: z.enum(["create", "touch", "delete"]),
+                  tuple: tupleBodySchema,
+                })
+              )
+              .min(1),
+            preconditions: z
+              .array(
+                z.object({
+                  op: z.enum(["must-exist", "must-not-exist"]),
+                  filter: z.object({
+                    objectType: z.string(),
+                    objectId: z.string(),
+                    relation: z.string().optional(),
+                    subjectType: z.string().optional(),
+                    subjectId: z.string().optional(),
+                  }),
+                })
+              )
+              .optional(),
+          }),
+        },
+        async (ctx) => {
+          const { updates, preconditions } = ctx.body;
+          const userId = ctx.context.session?.user.id;
+
+          if (!policyEngineInstance) {
+            throw ctx.error("INTERNAL_SERVER_ERROR", {
+              message: "Zanzibar not initialized with policies",
+            });
+          }
+
+          const resources = new Map<string, [string, string]>();
+          for (const { objectType, objectId } of [
+            ...updates.map((update) => update.tuple),
+            ...(preconditions ?? []).map((precondition) => precondition.filter),
+          ]) {
+            resources.set(`${objectType}:${objectId}`, [objectType, objectId]);
+          }
+          for (const [resourceType, resourceId] of resources.values()) {
+            if (
+              !(await canManage(
+                policyEngineInstance,
+                userId,
+                resourceType,
+                resourceId,
+                requestId(ctx)
+              ))
+            ) {
+              throw ctx.error("FORBIDDEN", {
+                message: `Not allowed to manage ${resourceType} '${resourceId}'`,
+              });
+            }
+          }
+
+          const tuples = updates.map(({ op, tuple }) => ({
+            op,
+            tuple: {
+              ...tuple,
+              validFrom: tuple.validFrom
+                ? new Date(tuple.validFrom)
+                : undefined,
+              validUntil: tuple.validUntil
+                ? new Date(tuple.validUntil)
+                : undefined,
+            } as RelationTuple,
+          }));
+          try {
+            policyEngineInstance.validateTuples(
+              tuples.map((update) => update.tuple)
+            );
+          } catch (error) {
+            throw ctx.error("BAD_REQUEST", {
+              message: (error as Error).message,
+            });
+          }
+
+          let result;
+          try {
+            result =
+              await policyEngineInstance.relationships.writeRelationships({
+                updates: tuples,
+                preconditions,
+              });
+          } catch (error) {
+            if (!(error instanceof RelationshipWriteError)) throw error;
+            throw ctx.error(
+              error.code === "precondition-failed"
+                ? "PRECONDITION_FAILED"
+                : error.code === "already-exists"
+                ? "CONFLICT"
+                : "BAD_REQUEST",
+              { message: error.message }
+            );
+          }
+
+          for (const { tuple } of tuples) {
+            await policyEngineInstance.invalidateResource(
+              tuple.objectType,
+              tuple.objectId
+            );
+          }
+          return ctx.json(result);
+        }
+      ),
+      /**
+       * POST endpoint long-polling the relationship change log.
+       *
+       * Returns the changes recorded after `sinceRevision` as soon as there are any, or an empty
+       * list once `timeoutMs` elapses. Pass the returned `revision` as the next `sinceRevision`
+       * to follow the log. Restricted to admin sessions (see `adminRoles` and `adminUserIds`).
+       *
+       * @example
+       * ```typescript
+       * let sinceRevision = 0;
+       * for (;;) {
+       *   const response = await fetch('/api/auth/zanzibar/watch', {
+       *     method: 'POST',
+       *     headers: { 'Content-Type': 'application/json' },
+       *     body: JSON.stringify({ sinceRevision })
+       *   });
+       *   const { changes, revision } = await response.json();
+       *   for (const change of changes) await reindex(change.tuple);
+       *   sinceRevision = revision;
+       * }
+       * ```
+       *
+       * Request body schema:
+       * - `sinceRevision`: number (optional) - Only return changes after this revision (default: 0, the whole log)
+       * - `timeoutMs`: number (optional) - How long to wait for changes (default: 25000, at most 60000)
+       *
+       * Response format:
+       * ```typescript
+       * {
+       *   changes: RelationshipChange[], // Oldest first
+       *   revision: number               // Revision to resume from
+       * }
+       * ```
+       *
+       * @throws INTERNAL_SERVER_ERROR if Zanzibar is not initialized with policies
+       * @throws FORBIDDEN if the session user is not an admin
+       */
+      watch: createAuthEndpoint(
+        "/zanzibar/watch",
+        {
+          method: "POST",
+          use: [sessionMiddleware],
+          body: z.object({
+            sinceRevision: z.number().int().nonnegative().optional(),
+            timeoutMs: z
+              .number()
+              .int()
+              .nonnegative()
+              .max(MAX_WATCH_TIMEOUT_MS)
+              .optional(),
+          }),
+        },
+        async (ctx) => {
+          const { sinceRevision = 0, timeoutMs = DEFAULT_WATCH_TIMEOUT_MS } =
+            ctx.body;
+
+          if (!policyEngineInstance) {
+            throw ctx.error("INTERNAL_SERVER_ERROR", {
+              message: "Zanzibar not initialized with policies",
+            });
+          }
+
+          if (!isAdmin(ctx.context.session.user, adminRoles, adminUserIds)) {
+            throw ctx.error("FORBIDDEN", {
+              message:
+                "Watching relationship changes requires an admin session",
+            });
+          }
+
+          const store = policyEngineInstance.relationships;
+          const signal = ctx.request?.signal;
+          const deadline = Date.now() + timeoutMs;
+          let changes = await store.readChanges(sinceRevision);
+          while (
+            changes.length === 0 &&
+            Date.now() < deadline &&
+            !signal?.aborted
+          ) {
+            await store.waitForChange(
+              Math.min(CHANGE_POLL_INTERVAL_MS, deadline - Date.now()),
+              signal
+            );
+            changes = await store.readChanges(sinceRevision);
+          }
+          return ctx.json({
+            changes,
+            revision:
+              changes.length > 0
+                ? changes[changes.length - 1].revision
+                : sinceRevision,
+          });
+        }
+      ),
+      ...(publicChecks && {
+        /**
+         * POST endpoint checking whether anyone, signed in or not, may perform an action.
+         *
+         * Requires no session: the check is made for the anonymous subject (`anonymous:*`)
+         * even when the request is authenticated, so only public grants apply. Registered
+         * with the `publicChecks` option.
+         *
+         * @example
+         * ```typescript
+         * const response = await fetch('/api/auth/zanzibar/public/has-permission', {
+         *   method: 'POST',
+         *   headers: { 'Content-Type': 'application/json' },
+         *   body: JSON.stringify({ action: 'read', resourceType: 'documents', resourceId: 'doc-123' })
+         * });
+         * ```
+         *
+         * Request body schema:
+         * - `action`: string - The action to check
+         * - `resourceType`: string - The type of resource
+         * - `resourceId`: string - The specific resource instance ID
+         * - `atLeastAsFresh`: string (optional) - Consistency token from a relationship write
+         * - `context`: object (optional) - Attributes forwarded to condition functions and
+         *   caveats; `now`, `request`, `ip` and `userAgent` are set by the server
+         *
+         * Response format:
+         * ```typescript
+         * { allowed: boolean, message: string, decidingRule?: { type: 'role' | 'deny', name: string } }
+         * ```
+         *
+         * @throws INTERNAL_SERVER_ERROR if Zanzibar is not initialized with policies
+         * @throws BAD_REQUEST if `context` holds a value of the wrong type for a caveat parameter
+         */
+        publicHasPermission: createAuthEndpoint(
+          "/zanzibar/public/has-permission",
+          {
+            method: "POST",
+            body: z.object({
+              action: z.string(),
+              resourceType: z.string(),
+              resourceId: z.string(),
+              ...publicCheckOptionsSchema,
+            }),
+          },
+          async (ctx) => {
+            const { action, resourceType, resourceId, ...options } = ctx.body;
+
+            if (!policyEngineInstance) {
+              throw ctx.error("INTERNAL_SERVER_ERROR", {
+                message: "Zanzibar not initialized with policies",
+              });
+            }
+
+            const allowed = await runCheck(
+              policyEngineInstance.hasPermission(
+                ANONYMOUS_SUBJECT,
+                action,
+                resourceType,
+                resourceId,
+                checkOptions(ctx, options)
+              )
+            );
+            return ctx.json({ ...allowed });
+          }
+        ),
+        /**
+         * POST endpoint checking whether the anonymous subject holds a role on a resource.
+         *
+         * Like `publicHasPermission`, requires no session and only sees public grants.
+         *
+         * Request body schema:
+         * - `resourceType`: string - The type of resource
+         * - `roleName`: string - The name of the role to check
+         * - `resourceId`: string - The specific resource instance ID
+         * - `atLeastAsFresh`: string (optional) - Consistency token from a relationship write
+         * - `context`: object (optional) - Attributes forwarded to condition functions and
+         *   caveats; `now`, `request`, `ip` and `userAgent` are set by the server
+         *
+         * Response format:
+         * ```typescript
+         * { allowed: boolean, message: string }
+         * ```
+         *
+         * @throws INTERNAL_SERVER_ERROR if Zanzibar is not initialized with policies
+         * @throws BAD_REQUEST if `context` holds a value of the wrong type for a caveat parameter
+         */
+        publicHasRole: createAuthEndpoint(
+          "/zanzibar/public/has-role",
+          {
+            method: "POST",
+            body: z.object({
+              resourceType: z.string(),
+              roleName: z.string(),
+              resourceId: z.string(),
+              ...publicCheckOptionsSchema,
+            }),
+          },
+          async (ctx) => {
+            const { resourceType, roleName, resourceId, ...options } = ctx.body;
+
+            if (!policyEngineInstance) {
+              throw ctx.error("INTERNAL_SERVER_ERROR", {
+                message: "Zanzibar not initialized with policies",
+              });
+            }
+
+            const allowed = await runCheck(
+              policyEngineInstance.hasRole(
+                resourceType,
+                roleName,
+                ANONYMOUS_SUBJECT,
+                resourceId,
+                checkOptions(ctx, options)
+              )
+            );
+            return ctx.json({ ...allowed });
+          }
+        ),
+        /**
+         * POST endpoint making several named public checks at once, with the same `checks`
+         * body and response as `hasPermissions`.
+         *
+         * Like `publicHasPermission`, requires no session and only sees public grants.
+         *
+         * @throws INTERNAL_SERVER_ERROR if Zanzibar is not initialized with policies
+         * @throws BAD_REQUEST if `context` holds a value of the wrong type for a caveat parameter
+         */
+        publicHasPermissions: createAuthEndpoint(
+          "/zanzibar/public/has-permissions",
+          {
+            method: "POST",
+            body: z.object({
+              checks: z.record(
+                z.string(),
+                z.object({
+                  resourceType: z.string(),
+                  action: z.string().optional(),
+                  actions: z.array(z.string()).optional(),
+                  resourceId: z.string(),
+                })
+              ),
+              ...publicCheckOptionsSchema,
+            }),
+          },
+          async (ctx) => {
+            const { checks, ...options } = ctx.body;
+
+            if (!policyEngineInstance) {
+              throw ctx.error("INTERNAL_SERVER_ERROR", {
+                message: "Zanzibar not initialized with policies",
+              });
+            }
+
+            const result = await runCheck(
+              policyEngineInstance.hasPermissions(
+                ANONYMOUS_SUBJECT,
+                checks,
+                checkOptions(ctx, options)
+              )
+            );
+            return ctx.json(result);
+          }
+        ),
+        /**
+         * POST endpoint checking ONE public action on many resources, with the same body and
+         * response as `checkBulk` (without `subject` and `fullyConsistent`).
+         *
+         * Like `publicHasPermission`, requires no session and only sees public grants.
+         *
+         * @throws INTERNAL_SERVER_ERROR if Zanzibar is not initialized with policies
+         * @throws BAD_REQUEST if `context` holds a value of the wrong type for a caveat parameter
+         */
+        publicCheckBulk: createAuthEndpoint(
+          "/zanzibar/public/check-bulk",
+          {
+            method: "POST",
+            body: z.object({
+              action: z.string(),
+              resourceType: z.string(),
+              resourceIds: z.array(z.string()).min(1).max(1000),
+              ...publicCheckOptionsSchema,
+            }),
+          },
+          async (ctx) => {
+            const {
+              action,
+              resourceType,
+              resourceIds,
+              atLeastAsFresh,
+              context,
+            } = ctx.body;
+
+            if (!policyEngineInstance) {
+              throw ctx.error("INTERNAL_SERVER_ERROR", {
+                message: "Zanzibar not initialized with policies",
+              });
+            }
+
+            const results = await runCheck(
+              policyEngineInstance.checkBulk(
+                ANONYMOUS_SUBJECT,
+                action,
+                resourceType,
+                resourceIds,
+                checkOptions(ctx, { atLeastAsFresh, context })
+              )
+            );
+            return ctx.json({ results });
+          }
+        ),
+      }),
     },
   } satisfies BetterAuthPlugin;
 };
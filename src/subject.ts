@@ -0,0 +1,71 @@
+import type { Subject } from "./types";
+
+/**
+ * Subject type used for the plain user IDs passed to the engine's check methods.
+ */
+export const USER_SUBJECT_TYPE = "user";
+
+/**
+ * Subject ID of wildcard subjects: a tuple naming `user:*` grants every subject of type
+ * `user`, i.e. every signed-in user.
+ */
+export const WILDCARD_SUBJECT_ID = "*";
+
+/**
+ * Subject type of unauthenticated requests.
+ */
+export const ANONYMOUS_SUBJECT_TYPE = "anonymous";
+
+/**
+ * The subject checked for unauthenticated requests. A tuple naming it is a public grant,
+ * which applies to every subject, signed in or not.
+ */
+export const ANONYMOUS_SUBJECT = `${ANONYMOUS_SUBJECT_TYPE}:${WILDCARD_SUBJECT_ID}`;
+
+const SUBJECT_PATTERN = /^([^:#\s]+):([^#\s]+)(?:#([^#\s]+))?$/;
+
+/**
+ * Parses a subject string.
+ *
+ * Accepts `type:id` and userset `type:id#relation` forms; anything else is treated as a
+ * plain user ID, so existing callers passing `session.user.id` keep working.
+ *
+ * @example
+ * ```typescript
+ * parseSubject('team:eng#member'); // { type: 'team', id: 'eng', relation: 'member' }
+ * parseSubject('user:alice');      // { type: 'user', id: 'alice' }
+ * parseSubject('user:*');          // { type: 'user', id: '*' } (every user)
+ * parseSubject('alice');           // { type: 'user', id: 'alice' }
+ * ```
+ *
+ * @param subject - The subject string or plain user ID
+ * @returns The parsed subject
+ */
+export function parseSubject(subject: string): Subject {
+  const match = SUBJECT_PATTERN.exec(subject);
+  if (!match) return { type: USER_SUBJECT_TYPE, id: subject };
+  const [, type, id, relation] = match;
+  return relation ? { type, id, relation } : { type, id };
+}
+
+/**
+ * Formats a subject as `type:id` or `type:id#relation`.
+ *
+ * @param subject - The subject to format
+ * @returns The subject string
+ */
+export function formatSubject(subject: Subject): string {
+  return subject.relation
+    ? `${subject.type}:${subject.id}#${subject.relation}`
+    : `${subject.type}:${subject.id}`;
+}
+
+/**
+ * Checks whether a subject is a userset (`type:id#relation`) rather than a single subject.
+ *
+ * @param subject - The subject string to check
+ * @returns True for usersets, false otherwise
+ */
+export function isUsersetSubject(subject: string): boolean {
+  return parseSubject(subject).relation !== undefined;
+}
@@ -1,14 +1,535 @@
+/**
+ * Attributes of the request or environment a check is made in (time, IP address, resource
+ * state...), forwarded to condition functions. Values should be JSON-serializable, as they
+ * are part of the decision cache key.
+ */
+export type CheckContext = Record<string, unknown>;
+
 /**
  * A function that determines whether a relationship exists between a user and a resource.
  * Used to evaluate complex authorization conditions beyond simple role-based access.
  * @param userId - The unique identifier of the user
  * @param resourceId - The unique identifier of the resource
+ * @param context - The `context` passed to the check, if any
  * @returns Promise<boolean> - True if the relationship exists, false otherwise
  */
-export type RelationshipFunction =
-  | ((userId: string, resourceId: string) => Promise<boolean>)
+export type RelationshipFunction<TContext = CheckContext> =
+  | ((
+      userId: string,
+      resourceId: string,
+      context: TContext | undefined
+    ) => Promise<boolean>)
   | ((userId: string) => Promise<boolean>);
 
+/**
+ * Options accepted by the check methods of the policy engine, the runtime helpers and the endpoints.
+ */
+export interface CheckOptions {
+  /** Return a structured decision trace along with the result (default: false) */
+  explain?: boolean;
+  /**
+   * Token returned by a relationship write; cached decisions evaluated before that write
+   * are ignored and re-evaluated
+   */
+  atLeastAsFresh?: ConsistencyToken;
+  /** Skip the decision cache and evaluate against the latest relationships (default: false) */
+  fullyConsistent?: boolean;
+  /** Attributes forwarded to condition functions; checks with different contexts are cached separately */
+  context?: CheckContext;
+  /** Identifies the request the check is made for in the decision log */
+  requestId?: string;
+}
+
+/**
+ * Storage backend for the policy engine's decision cache.
+ *
+ * Values are plain JSON-serializable objects, so implementations may keep them in memory or
+ * serialize them to a shared store such as Redis.
+ */
+export interface DecisionCache {
+  /** Returns the value stored under `key`, or `undefined` if it is missing or expired */
+  get<T>(key: string): Promise<T | undefined>;
+  /** Stores a value, expiring it after `ttlSeconds` when given */
+  set<T>(key: string, value: T, ttlSeconds?: number): Promise<void>;
+  /** Removes the value stored under `key` */
+  delete(key: string): Promise<void>;
+  /** Removes every value whose key starts with `prefix` and returns how many were removed */
+  deleteByPrefix(prefix: string): Promise<number>;
+}
+
+/**
+ * One authorization decision recorded in the decision log.
+ */
+export interface DecisionLogEntry {
+  /** Time the decision was returned */
+  timestamp: Date;
+  /** The checked user ID or subject */
+  subject: string;
+  /** The checked role, for `hasRole` decisions */
+  role?: string;
+  /** The checked action, for `hasPermission` and `hasPermissions` decisions */
+  action?: string;
+  /** The type of the checked resource */
+  resourceType: string;
+  /** The ID of the checked resource, absent for resource-less checks */
+  resourceId?: string;
+  /** Whether access was granted */
+  allowed: boolean;
+  /** The role that granted access, if any */
+  matchedRole?: string;
+  /** The role or deny rule that decided a permission check, if any */
+  decidingRule?: DecidingRule;
+  /** Whether the decision was served from the decision cache */
+  cacheHit: boolean;
+  /** The `requestId` the check was made with; set from the request by the endpoints */
+  requestId?: string;
+}
+
+/**
+ * Destination of the decision log, such as a database table, a file or a log shipper.
+ */
+export interface DecisionSink {
+  /** Records a decision; the check waits for it, and fails if it throws */
+  record(entry: DecisionLogEntry): void | Promise<void>;
+}
+
+/**
+ * Options of the decision log.
+ */
+export interface DecisionLogOptions {
+  /**
+   * Where decisions are recorded. The Zanzibar plugin defaults to a table in the Better Auth
+   * database (`DatabaseDecisionSink`); a standalone engine must be given a sink.
+   */
+  sink?: DecisionSink;
+  /** Fraction of the decisions passing `filter` that are recorded, from 0 to 1 (default: 1) */
+  sampleRate?: number;
+  /** Returns false for decisions that should not be recorded, e.g. to only keep denials */
+  filter?: (entry: DecisionLogEntry) => boolean;
+}
+
+/**
+ * Opaque token identifying a relationship store revision (a Zanzibar "zookie").
+ *
+ * Returned by relationship writes and accepted by checks through `atLeastAsFresh`.
+ */
+export type ConsistencyToken = string;
+
+/**
+ * Result of writing relationship tuples.
+ */
+export interface WriteTuplesResult {
+  /** The tuples that were newly created */
+  written: RelationTuple[];
+  /** Token for the revision that includes the write */
+  token: ConsistencyToken;
+}
+
+/**
+ * Result of deleting relationship tuples.
+ */
+export interface DeleteTuplesResult {
+  /** The number of deleted tuples */
+  deleted: number;
+  /** Token for the revision that includes the deletion */
+  token: ConsistencyToken;
+}
+
+/**
+ * A change applied by `writeRelationships`: `create` fails if the tuple already exists,
+ * `touch` creates it or replaces its caveat and validity window, and `delete` removes it
+ * if present.
+ */
+export interface RelationshipUpdate {
+  op: "create" | "touch" | "delete";
+  tuple: RelationTuple;
+}
+
+/**
+ * A condition `writeRelationships` checks before applying any update: at least one tuple
+ * must (or no tuple may) match the filter.
+ */
+export interface RelationshipPrecondition {
+  op: "must-exist" | "must-not-exist";
+  filter: RelationTupleFilter;
+}
+
+/**
+ * A batch of relationship updates applied atomically.
+ */
+export interface WriteRelationshipsRequest {
+  /** The updates, applied in order; each tuple may appear only once */
+  updates: readonly RelationshipUpdate[];
+  /** Conditions that must all hold, or nothing is written */
+  preconditions?: readonly RelationshipPrecondition[];
+}
+
+/**
+ * Result of an atomic relationship write.
+ */
+export interface WriteRelationshipsResult {
+  /** The tuples that were created or updated */
+  written: RelationTuple[];
+  /** The number of deleted tuples */
+  deleted: number;
+  /** Token for the revision that includes the write */
+  token: ConsistencyToken;
+}
+
+/**
+ * An entry of the relationship change log, read through `watch`.
+ */
+export interface RelationshipChange {
+  /** Revision of the write that made the change; changes written together share it */
+  revision: number;
+  /** Consistency token for the revision */
+  token: ConsistencyToken;
+  /** Whether the tuple was written (created or updated) or deleted */
+  operation: "write" | "delete";
+  /** The tuple as written, or as stored before it was deleted */
+  tuple: RelationTuple;
+}
+
+/**
+ * Options for `lookupResources`: the check options every candidate is verified with, and
+ * the page of results to return.
+ */
+export interface LookupResourcesOptions
+  extends Pick<CheckOptions, "atLeastAsFresh" | "fullyConsistent" | "context"> {
+  /** Only return the IDs sorting after this one, such as the last ID of the previous page */
+  after?: string;
+  /** Maximum number of IDs to return; candidates past the last one are not verified */
+  limit?: number;
+}
+
+/**
+ * Options for watching the relationship change log.
+ */
+export interface WatchOptions {
+  /** Stops the watch; the iterator then returns */
+  signal?: AbortSignal;
+  /**
+   * How often to poll for changes made by other processes, in milliseconds (default: 1000).
+   * Changes made through this process are delivered immediately.
+   */
+  pollIntervalMs?: number;
+}
+
+/**
+ * One role evaluation recorded in a decision trace.
+ */
+export interface TraceStep {
+  /** The evaluated role, formatted as `type:id#role` (`*` for resource-less checks) */
+  role: string;
+  /** The kind of condition behind the role (`batch` when answered by a batch condition) */
+  condition: "function" | "batch" | UsersetRewrite["type"];
+  /** Nesting depth (0 for roles evaluated directly by the check) */
+  depth: number;
+  /** Whether the role was granted */
+  allowed: boolean;
+  /** Time spent evaluating the role, including nested roles, in milliseconds */
+  durationMs: number;
+  /** Set when the step evaluated a deny rule rather than a role; `allowed` then means the rule matched */
+  denyRule?: true;
+}
+
+/**
+ * Structured explanation of a decision, returned when a check is made with `explain: true`.
+ */
+export interface DecisionTrace {
+  /**
+   * How the decision cache was used: `stale` when a cached decision was older than
+   * `atLeastAsFresh` or had been invalidated, `bypassed` for `fullyConsistent` checks
+   */
+  cache: "hit" | "miss" | "stale" | "bypassed" | "disabled";
+  /** Roles evaluated by the check, in order */
+  rolesConsidered: string[];
+  /** The role that granted access, if any */
+  matchedRole?: string;
+  /** Every role evaluation, including nested rewrites, in evaluation order */
+  steps: TraceStep[];
+  /** Total time spent on the check in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * Result of a single role or permission check.
+ */
+export interface CheckResult {
+  /** Whether access is granted */
+  allowed: boolean;
+  /** Human-readable explanation */
+  message: string;
+  /** The role or deny rule that decided a permission check, absent when nothing applied */
+  decidingRule?: DecidingRule;
+  /** Decision trace, present when the check was made with `explain: true` */
+  trace?: DecisionTrace;
+  /**
+   * Caveat parameters missing from the check context, present when access was denied while
+   * caveats lacked them: supplying them may change the decision (a conditional result)
+   */
+  missingContext?: string[];
+}
+
+/**
+ * A named permission check passed to `hasPermissions`.
+ */
+export interface PermissionCheck {
+  /** The type of resource to check */
+  resourceType: string;
+  /** A single action to check */
+  action?: string;
+  /** Several actions to check on the same resource */
+  actions?: string[];
+  /** The ID of the specific resource instance */
+  resourceId?: string;
+}
+
+/**
+ * Result of one named check made by `hasPermissions`.
+ */
+export interface PermissionsCheckResult extends CheckResult {
+  /** Per-action results, present for multi-action checks */
+  results?: Record<string, boolean>;
+  /** Per-action decision traces, present for multi-action checks made with `explain: true` */
+  traces?: Record<string, DecisionTrace>;
+}
+
+/**
+ * A Zanzibar-style relationship tuple, read as
+ * `objectType:objectId#relation@subjectType:subjectId[#subjectRelation]`.
+ *
+ * @example
+ * ```typescript
+ * // user-1 is an editor of doc-1
+ * const tuple: RelationTuple = {
+ *   objectType: 'documents',
+ *   objectId: 'doc-1',
+ *   relation: 'editor',
+ *   subjectType: 'user',
+ *   subjectId: 'user-1',
+ * };
+ * ```
+ */
+export interface RelationTuple {
+  /** The resource type the relationship points at (e.g. 'documents') */
+  objectType: string;
+  /** The ID of the resource instance */
+  objectId: string;
+  /** The relation held on the resource (usually a role name) */
+  relation: string;
+  /** The type of the subject holding the relation (e.g. 'user') */
+  subjectType: string;
+  /** The ID of the subject holding the relation */
+  subjectId: string;
+  /** Optional relation on the subject, for usersets such as `team:eng#member` */
+  subjectRelation?: string;
+  /** Name of a caveat that must hold for the relationship to apply */
+  caveatName?: string;
+  /** Caveat parameters fixed when the relationship was written; they take precedence over the check context */
+  caveatContext?: Record<string, unknown>;
+  /** Time from which the relationship applies (default: as soon as it is written) */
+  validFrom?: Date;
+  /** Time at which the relationship expires (default: never) */
+  validUntil?: Date;
+}
+
+/**
+ * A subject that can hold relations: a single user (`user:alice`) or a userset,
+ * i.e. everyone holding a relation on an object (`team:eng#member`).
+ */
+export interface Subject {
+  /** The subject type (e.g. 'user', 'team') */
+  type: string;
+  /** The subject ID */
+  id: string;
+  /** The relation on the subject for usersets (e.g. 'member') */
+  relation?: string;
+}
+
+/**
+ * A subject found by a reverse lookup, with the path through which it was granted.
+ */
+export interface SubjectGrant {
+  /** The subject, formatted as `type:id` or `type:id#relation` */
+  subject: string;
+  /**
+   * The relations traversed from the queried resource to the tuple naming the subject,
+   * each formatted as `type:id#relation` (e.g. `['documents:doc-1#viewer', 'documents:doc-1#editor', 'team:eng#member']`)
+   */
+  path: string[];
+  /** True when the subject is named by a tuple on the queried role (or a role granting the queried action) */
+  direct: boolean;
+}
+
+/**
+ * A node of the userset tree returned by `PolicyEngine.expand`, modelled on Zanzibar's Expand.
+ */
+export interface ExpandNode {
+  /**
+   * What the node represents: the queried action, a role, a deny rule, one of the rewrite
+   * rules, an opaque function condition, or a cycle that was cut short
+   */
+  type:
+    | "action"
+    | "role"
+    | "deny"
+    | UsersetRewrite["type"]
+    | "function"
+    | "cycle";
+  /** The userset the node describes, formatted as `type:id#relation` */
+  userset?: string;
+  /** Human-readable detail, such as the tupleset of a tuple-to-userset rewrite */
+  description?: string;
+  /**
+   * Subjects named directly by tuples on this node (`this` and `tuple` nodes only), with
+   * the caveat of caveated tuples in brackets, e.g. `user:alice[not_expired]`
+   */
+  subjects?: string[];
+  /**
+   * Whether the node grants access to the subject the tree was expanded for, if any
+   * (for `deny` nodes, whether the rule matches the subject)
+   */
+  allowed?: boolean;
+  /** Child nodes that were consulted to evaluate this node */
+  children: ExpandNode[];
+}
+
+/**
+ * Filter used to read or delete relationship tuples.
+ * Omitted fields match any value; `subjectRelation: null` matches only tuples without one.
+ */
+export type RelationTupleFilter = Partial<
+  Omit<
+    RelationTuple,
+    | "subjectRelation"
+    | "caveatName"
+    | "caveatContext"
+    | "validFrom"
+    | "validUntil"
+  >
+> & {
+  subjectRelation?: string | null;
+};
+
+/**
+ * Declarative role condition that is satisfied when a relationship tuple with the given
+ * relation exists between the user and the resource in the plugin's relationship store.
+ */
+export interface TupleCondition {
+  type: "tuple";
+  /** The relation the tuple must carry */
+  relation: string;
+}
+
+/**
+ * Zanzibar `_this`: satisfied by tuples whose relation is the name of the role being evaluated.
+ */
+export interface ThisRewrite {
+  type: "this";
+}
+
+/**
+ * Zanzibar `computed_userset`: holding another role on the same resource implies this role.
+ */
+export interface ComputedUsersetRewrite {
+  type: "computedUserset";
+  /** The role on the same resource that implies this one */
+  role: string;
+}
+
+/**
+ * Zanzibar `tuple_to_userset`: the role is inherited from the resources reached through a relation.
+ *
+ * For `{ tupleset: 'parent', computedUserset: 'viewer' }`, a user is granted the role on
+ * `documents:doc-1` if they are a `viewer` of any subject in `documents:doc-1#parent@folders:f-1`.
+ */
+export interface TupleToUsersetRewrite {
+  type: "tupleToUserset";
+  /** The relation on this resource pointing at the parent resources */
+  tupleset: string;
+  /** The role to evaluate on each parent resource */
+  computedUserset: string;
+}
+
+/**
+ * Granted when any of the child conditions is satisfied.
+ */
+export interface UnionRewrite {
+  type: "union";
+  children: readonly RoleCondition[];
+}
+
+/**
+ * Granted when every child condition is satisfied.
+ */
+export interface IntersectionRewrite {
+  type: "intersection";
+  children: readonly RoleCondition[];
+}
+
+/**
+ * Granted when the base condition is satisfied and the subtracted one is not.
+ */
+export interface ExclusionRewrite {
+  type: "exclusion";
+  base: RoleCondition;
+  subtract: RoleCondition;
+}
+
+/**
+ * A declarative userset rewrite rule, modelled on Zanzibar's namespace configuration.
+ */
+export type UsersetRewrite =
+  | TupleCondition
+  | ThisRewrite
+  | ComputedUsersetRewrite
+  | TupleToUsersetRewrite
+  | UnionRewrite
+  | IntersectionRewrite
+  | ExclusionRewrite;
+
+/**
+ * A role condition: either a custom relationship function or a declarative userset rewrite.
+ */
+export type RoleCondition<TContext = CheckContext> =
+  | RelationshipFunction<TContext>
+  | UsersetRewrite;
+
+/**
+ * Lists the IDs of resources on which a user satisfies a function condition.
+ * Used by reverse lookups, which cannot enumerate opaque relationship functions.
+ * @param userId - The unique identifier of the user
+ * @returns Promise resolving to the matching resource IDs
+ */
+export type ResourceEnumerator = (userId: string) => Promise<readonly string[]>;
+
+/**
+ * Batch form of a role condition, evaluating many resources in one query.
+ * Used by `checkBulk` in place of one condition call per resource.
+ * @param userId - The unique identifier of the user
+ * @param resourceIds - The IDs of the resources to evaluate
+ * @param context - The `context` passed to the check, if any
+ * @returns Promise resolving to the subset of `resourceIds` on which the user has the role
+ */
+export type BatchCondition<TContext = CheckContext> = (
+  userId: string,
+  resourceIds: readonly string[],
+  context: TContext | undefined
+) => Promise<Set<string>>;
+
+/**
+ * Object form of a role condition, for attaching extra capabilities to it.
+ */
+export interface RoleConditionConfig<TContext = CheckContext> {
+  /** The condition that evaluates whether a user has the role */
+  condition: RoleCondition<TContext>;
+  /** Optional enumerator used by `lookupResources` for function conditions */
+  enumerate?: ResourceEnumerator;
+  /** Optional batch form of the condition used by `checkBulk` */
+  batch?: BatchCondition<TContext>;
+}
+
 /**
  * Defines a role within a resource type, including the actions the role can perform
  * and the condition function that determines if a user has this role.
@@ -18,8 +539,62 @@ export interface ResourceRole {
   name: string;
   /** Array of action names this role is permitted to perform */
   actions: readonly string[];
-  /** Function that evaluates whether a user has this role for a specific resource */
-  condition: RelationshipFunction;
+  /** Condition that evaluates whether a user has this role for a specific resource */
+  condition: RoleCondition;
+  /**
+   * Subjects that tuples granting this role may name: a type (`user`), a wildcard
+   * (`user:*`, `anonymous:*` for public access) or a userset (`team#member`). Tuples naming
+   * other subjects are rejected; any subject is accepted when omitted
+   */
+  subjectTypes?: readonly string[];
+  /** Optional enumerator listing the resources a user satisfies the condition on */
+  enumerate?: ResourceEnumerator;
+  /**
+   * Optional batch form of the condition, evaluating many resources at once. When the
+   * condition is a union with a single function, such as a role inherited by others, it is
+   * the batch form of that function
+   */
+  batch?: BatchCondition;
+}
+
+/**
+ * A rule denying actions on a resource whenever its condition holds, whatever roles the
+ * user has (subject to the combining algorithm).
+ */
+export interface DenyRule {
+  /** The rule name, reported as the deciding rule; also the relation read by `thisRelation()` */
+  name: string;
+  /** The actions the rule denies */
+  actions: readonly string[];
+  /** Condition under which the actions are denied */
+  condition: RoleCondition;
+  /**
+   * With `first-applicable`, the role this rule is evaluated just before; rules without
+   * one are evaluated before every role
+   */
+  before?: string;
+}
+
+/**
+ * How deny rules and roles granting an action are combined into one decision:
+ * - `deny-overrides`: any matching deny rule denies, even if a role grants the action
+ * - `permit-overrides`: any role granting the action permits, even if a deny rule matches
+ * - `first-applicable`: roles and deny rules are evaluated in declaration order (deny rules
+ *   placed with `before`) and the first that matches decides
+ */
+export type CombiningAlgorithm =
+  | "deny-overrides"
+  | "permit-overrides"
+  | "first-applicable";
+
+/**
+ * The rule that decided a permission check.
+ */
+export interface DecidingRule {
+  /** Whether a role granted the action or a deny rule denied it */
+  type: "role" | "deny";
+  /** The role or deny rule name */
+  name: string;
 }
 
 /**
@@ -31,6 +606,45 @@ export interface ResourceDefinition {
   actions: readonly string[];
   /** Array of all roles defined for this resource type */
   roles: readonly ResourceRole[];
+  /** Rules denying actions regardless of roles */
+  denyRules?: readonly DenyRule[];
+  /** How deny rules and roles are combined (default: the engine's, `deny-overrides` unless configured) */
+  combiningAlgorithm?: CombiningAlgorithm;
+  /** Caveats that relationship tuples on this resource type may reference, keyed by name */
+  caveats?: Readonly<Record<string, CaveatDefinition>>;
+}
+
+/**
+ * Type of a caveat parameter. Timestamps accept dates, ISO strings and epoch milliseconds,
+ * and durations accept milliseconds or strings such as `15m`; both evaluate to milliseconds.
+ */
+export type CaveatParameterType =
+  | "string"
+  | "number"
+  | "boolean"
+  | "timestamp"
+  | "duration"
+  | "list"
+  | "map"
+  | "any";
+
+/**
+ * A named, parameterized condition that relationship tuples can carry, in the style of
+ * SpiceDB caveats. The relationship only applies when the expression evaluates to true.
+ *
+ * @example
+ * ```typescript
+ * {
+ *   parameters: { expires_at: 'timestamp' },
+ *   expression: 'now < expires_at',
+ * }
+ * ```
+ */
+export interface CaveatDefinition {
+  /** The parameters the expression reads, with their types */
+  parameters: Readonly<Record<string, CaveatParameterType>>;
+  /** The boolean expression; `now` is always available as the current timestamp */
+  expression: string;
 }
 
 /**
@@ -42,6 +656,102 @@ export interface Policies {
   [resourceType: string]: ResourceDefinition;
 }
 
+/**
+ * Serializable form of a role condition in a policy document: userset rewrites as they are,
+ * and function conditions as references to a named handler in the condition registry.
+ */
+export type ConditionDocument =
+  | TupleCondition
+  | ThisRewrite
+  | ComputedUsersetRewrite
+  | TupleToUsersetRewrite
+  | { type: "union" | "intersection"; children: readonly ConditionDocument[] }
+  | { type: "exclusion"; base: ConditionDocument; subtract: ConditionDocument }
+  | { type: "handler"; name: string };
+
+/**
+ * Serializable form of a role in a policy document.
+ */
+export interface RoleDocument {
+  name: string;
+  actions: readonly string[];
+  /** Omitted for roles that are never granted by a condition */
+  condition?: ConditionDocument;
+  subjectTypes?: readonly string[];
+}
+
+/**
+ * Serializable form of a deny rule in a policy document.
+ */
+export interface DenyRuleDocument {
+  name: string;
+  actions: readonly string[];
+  condition: ConditionDocument;
+  before?: string;
+}
+
+/**
+ * Serializable form of a resource definition in a policy document.
+ */
+export interface ResourceDocument {
+  actions: readonly string[];
+  roles: readonly RoleDocument[];
+  denyRules?: readonly DenyRuleDocument[];
+  combiningAlgorithm?: CombiningAlgorithm;
+  caveats?: Readonly<Record<string, CaveatDefinition>>;
+}
+
+/**
+ * A JSON policy document, as produced by `exportPolicies` and read by `importPolicies`.
+ */
+export interface PolicyDocument {
+  /** The document format version */
+  version: 1;
+  /** Resource definitions keyed by resource type */
+  resources: Readonly<Record<string, ResourceDocument>>;
+}
+
+/**
+ * Named function conditions that policy documents reference through `{ type: 'handler' }`.
+ * An entry in object form also carries the role's `enumerate` and `batch` functions.
+ */
+export type ConditionRegistry = Readonly<
+  Record<string, RelationshipFunction | RoleConditionConfig>
+>;
+
+/**
+ * Where `watchPolicies` reloads policies from, such as a file or a database row.
+ */
+export interface PolicySource {
+  /** Loads the policies, or returns `null` when they have not changed since the last load */
+  load(): Promise<Policies | null>;
+}
+
+/**
+ * Outcome of a policy reload, reported to `onPolicyEvent` listeners.
+ */
+export type PolicyEvent =
+  | {
+      type: "updated";
+      /** Resource types whose definitions changed; their cached decisions were invalidated */
+      changedResourceTypes: string[];
+    }
+  | {
+      type: "failed";
+      /** Why the policies could not be loaded or were rejected; the current ones stay in use */
+      error: Error;
+    };
+
+/**
+ * Options for `watchPolicies`.
+ */
+export interface PolicyWatchOptions {
+  /** Stops watching when aborted */
+  signal?: AbortSignal;
+  /** Time between loads, in milliseconds (default: 5000) */
+  intervalMs?: number;
+}
+
 /*
 Generic builder to enforce compile-time consistency between
 resource types, actions, roles and role-conditions.
@@ -64,18 +774,56 @@ export type RolesShape<TResources extends ResourcesShape> = {
     name: string;
     /** Array of action names this role can perform */
     actions: readonly string[];
+    /** Roles of the same resource whose actions and membership this role includes */
+    inherits?: readonly string[];
   }>;
 };
 
+/**
+ * Constrains the `inherits` of each role to the names of the roles declared on the same
+ * resource, so that inheriting an undeclared role fails to compile.
+ * @template TRoles - The roles shape being declared
+ */
+export type RoleInheritanceShape<TRoles> = {
+  readonly [R in keyof TRoles]?: ReadonlyArray<{
+    name: string;
+    actions: readonly string[];
+    inherits?: ReadonlyArray<
+      TRoles[R] extends ReadonlyArray<infer RR>
+        ? RR extends { name: infer N }
+          ? Extract<N, string>
+          : never
+        : never
+    >;
+  }>;
+};
+
+/**
+ * Defines deny rules per resource type, constraining their actions to the resource's actions.
+ */
+export type DenyRulesShape<
+  TResources extends ResourcesShape,
+  TContext = CheckContext
+> = {
+  readonly [K in keyof TResources]?: ReadonlyArray<
+    Omit<DenyRule, "actions" | "condition"> & {
+      actions: ReadonlyArray<TResources[K][number]>;
+      condition: RoleCondition<TContext>;
+    }
+  >;
+};
+
 /**
  * Defines the shape of condition functions for role assignments.
  * Provides compile-time safety for role-condition mappings.
  * @template TResources - The resource shape this applies to
  * @template TRoles - The roles shape that defines available roles
+ * @template TContext - The shape of the check context passed to condition functions
  */
 export type ConditionsShape<
   TResources extends ResourcesShape,
-  TRoles extends RolesShape<TResources>
+  TRoles extends RolesShape<TResources>,
+  TContext = CheckContext
 > = {
   readonly [R in keyof TResources]?: Partial<
     Record<
@@ -87,7 +835,7 @@ export type ConditionsShape<
           : never,
         string
       >,
-      RelationshipFunction
+      RoleCondition<TContext> | RoleConditionConfig<TContext>
     >
   >;
 };
@@ -0,0 +1,184 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import {
+  createAccessControl,
+  thisRelation,
+  tupleToUserset,
+  union,
+  DEFAULT_CACHE_INVALIDATION_RULES,
+} from "../src";
+import { createEngine, createServer, tuple } from "./helpers";
+
+/** Users allowed by the `member` condition, standing in for an application table */
+const members = new Set<string>();
+
+const policies = createAccessControl({
+  folder: ["read"],
+  doc: ["read", "join"],
+})
+  .resourceRoles({
+    folder: [{ name: "viewer", actions: ["read"] }],
+    doc: [
+      { name: "viewer", actions: ["read"] },
+      { name: "member", actions: ["join"] },
+    ],
+  })
+  .roleConditions({
+    folder: { viewer: thisRelation() },
+    doc: {
+      viewer: union(thisRelation(), tupleToUserset("parent", "viewer")),
+      member: async (userId: string) => members.has(userId),
+    },
+  });
+
+describe("invalidation methods", () => {
+  const setUp = async () => {
+    members.clear();
+    const engine = createEngine(policies, {}, true);
+    await engine.relationships.write([
+      tuple("doc:d1", "parent", "folder:f1"),
+      tuple("folder:f1", "viewer", "user:alice"),
+      tuple("doc:d2", "viewer", "user:alice"),
+    ]);
+    const check = async (user: string, action: string, docId: string) => {
+      const { allowed, trace } = await engine.hasPermission(
+        user,
+        action,
+        "doc",
+        docId,
+        { explain: true }
+      );
+      return { allowed, cache: trace!.cache };
+    };
+    return { engine, check };
+  };
+
+  it("drop the decisions about a user", async () => {
+    const { engine, check } = await setUp();
+    members.add("alice").add("bob");
+    await check("alice", "join", "d1");
+    await check("bob", "join", "d1");
+
+    members.clear();
+    // Condition functions read state the cache cannot see
+    expect(await check("alice", "join", "d1")).toEqual({
+      allowed: true,
+      cache: "hit",
+    });
+    await engine.invalidateUser("user:alice");
+
+    expect(await check("alice", "join", "d1")).toEqual({
+      allowed: false,
+      cache: "stale",
+    });
+    expect(await check("bob", "join", "d1")).toEqual({
+      allowed: true,
+      cache: "hit",
+    });
+  });
+
+  it("drop the decisions that consulted a resource", async () => {
+    const { engine, check } = await setUp();
+    await check("alice", "read", "d1");
+    await check("alice", "read", "d2");
+
+    await engine.relationships.delete({ objectType: "folder" });
+    expect((await check("alice", "read", "d1")).allowed).toBe(true);
+    // d1 was reached through its parent folder
+    await engine.invalidateResource("folder", "f1");
+
+    expect(await check("alice", "read", "d1")).toEqual({
+      allowed: false,
+      cache: "stale",
+    });
+    expect(await check("alice", "read", "d2")).toEqual({
+      allowed: true,
+      cache: "hit",
+    });
+  });
+
+  it("drop the decisions that consulted a resource type", async () => {
+    const { engine, check } = await setUp();
+    await check("alice", "read", "d1");
+    await check("alice", "read", "d2");
+
+    await engine.relationships.delete({ objectType: "folder" });
+    await engine.invalidateResourceType("folder");
+
+    expect(await check("alice", "read", "d1")).toEqual({
+      allowed: false,
+      cache: "stale",
+    });
+    expect((await check("alice", "read", "d2")).cache).toBe("hit");
+  });
+
+  it("clear the whole cache", async () => {
+    const { engine, check } = await setUp();
+    await check("alice", "read", "d1");
+    await check("alice", "read", "d2");
+
+    expect(await engine.clearCache()).toBeGreaterThanOrEqual(2);
+    expect((await check("alice", "read", "d1")).cache).toBe("miss");
+  });
+});
+
+describe("invalidation rules", () => {
+  const updatedUsers: string[] = [];
+  const server = createServer(policies, true, {
+    invalidationRules: [
+      ...DEFAULT_CACHE_INVALIDATION_RULES,
+      {
+        path: "/update-user",
+        invalidate: async (engine, ctx) => {
+          const userId = ctx.context.session!.user.id;
+          updatedUsers.push(userId);
+          await engine.invalidateUser(userId);
+        },
+      },
+    ],
+  });
+  type User = Awaited<ReturnType<typeof server.signUp>>;
+
+  const canJoin = async (user: User) =>
+    (
+      await user.post("has-permission", {
+        action: "join",
+        resourceType: "doc",
+        resourceId: "d1",
+      })
+    ).body.allowed;
+
+  /** Calls a Better Auth endpoint outside the plugin, resolved from the plugin's base path */
+  const callAuth = (user: User, path: string, body: object = {}) =>
+    user.post(`../${path}`, body);
+
+  beforeAll(() => {
+    members.clear();
+  });
+
+  it("invalidate the session user after their other sessions are revoked", async () => {
+    const carol = await server.signUp("carol");
+    members.add(carol.id);
+    expect(await canJoin(carol)).toBe(true);
+
+    members.delete(carol.id);
+    expect(await canJoin(carol)).toBe(true);
+    expect((await callAuth(carol, "revoke-other-sessions")).status).toBe(200);
+
+    expect(await canJoin(carol)).toBe(false);
+  });
+
+  it("run custom rules next to the defaults", async () => {
+    const dave = await server.signUp("dave");
+    members.add(dave.id);
+    expect(await canJoin(dave)).toBe(true);
+
+    members.delete(dave.id);
+    expect(await canJoin(dave)).toBe(true);
+    expect((await callAuth(dave, "update-user", { name: "D" })).status).toBe(
+      200
+    );
+
+    expect(updatedUsers).toEqual([dave.id]);
+    expect(await canJoin(dave)).toBe(false);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import { CaveatContextError, compileCaveat } from "../src/caveats";
+
+const HOUR = 60 * 60 * 1000;
+
+describe("compileCaveat", () => {
+  it("evaluates the expression against the context", () => {
+    const caveat = compileCaveat("office_network", {
+      parameters: { ip: "string", allowed_cidrs: "list" },
+      expression: "in_cidr(ip, allowed_cidrs)",
+    });
+
+    expect(
+      caveat.evaluate({ ip: "10.0.0.7", allowed_cidrs: ["10.0.0.0/8"] })
+    ).toBe(true);
+    expect(
+      caveat.evaluate({ ip: "192.168.0.1", allowed_cidrs: ["10.0.0.0/8"] })
+    ).toBe(false);
+  });
+
+  it("supports operators, lists, member access and functions", () => {
+    const caveat = compileCaveat("request", {
+      parameters: { request: "map", roles: "list" },
+      expression:
+        "request.method in ['GET', 'HEAD'] && size(roles) > 1 && roles[0] != 'guest' && (request.size % 2 == 0 || !true)",
+    });
+
+    expect(
+      caveat.evaluate({
+        request: { method: "GET", size: 4 },
+        roles: ["member", "editor"],
+      })
+    ).toBe(true);
+    expect(
+      caveat.evaluate({
+        request: { method: "POST", size: 4 },
+        roles: ["member", "editor"],
+      })
+    ).toBe(false);
+  });
+
+  it("reports missing parameters unless the rest of the expression decides", () => {
+    const caveat = compileCaveat("both", {
+      parameters: { a: "boolean", b: "boolean" },
+      expression: "a && b",
+    });
+
+    expect(caveat.evaluate({ a: true })).toEqual({ missing: ["b"] });
+    expect(caveat.evaluate({})).toEqual({ missing: ["a", "b"] });
+    expect(caveat.evaluate({ a: false })).toBe(false);
+  });
+
+  it("compares timestamps and durations with now", () => {
+    const notExpired = compileCaveat("not_expired", {
+      parameters: { expires_at: "timestamp" },
+      expression: "now < expires_at",
+    });
+    const grace = compileCaveat("grace", {
+      parameters: { granted_at: "timestamp", period: "duration" },
+      expression: "now < granted_at + period",
+    });
+
+    expect(notExpired.usesNow).toBe(true);
+    expect(notExpired.evaluate({ expires_at: "2000-01-01T00:00:00Z" })).toBe(
+      false
+    );
+    expect(
+      notExpired.evaluate({
+        expires_at: "2000-01-01T00:00:00Z",
+        now: "1999-12-31T00:00:00Z",
+      })
+    ).toBe(true);
+    expect(grace.evaluate({ granted_at: 0, period: "1h", now: HOUR / 2 })).toBe(
+      true
+    );
+    expect(grace.evaluate({ granted_at: 0, period: "1h", now: 2 * HOUR })).toBe(
+      false
+    );
+  });
+
+  it("throws CaveatContextError for context values of the wrong type", () => {
+    const caveat = compileCaveat("not_expired", {
+      parameters: { expires_at: "timestamp" },
+      expression: "now < expires_at",
+    });
+
+    expect(() => caveat.evaluate({ expires_at: "soon" })).toThrow(
+      CaveatContextError
+    );
+    expect(() =>
+      caveat.evaluate({ expires_at: Date.now() + HOUR, now: "x" })
+    ).toThrow(CaveatContextError);
+    expect(() => caveat.evaluate({ expires_at: true })).toThrow(
+      expect.objectContaining({
+        caveat: "not_expired",
+        parameter: "expires_at",
+      })
+    );
+  });
+
+  it("rejects invalid definitions when compiling", () => {
+    expect(() =>
+      compileCaveat("c", {
+        parameters: { a: "number" },
+        expression: "b > 1",
+      })
+    ).toThrow(/Invalid expression for caveat 'c'/);
+    expect(() =>
+      compileCaveat("c", { parameters: { a: "number" }, expression: "a >" })
+    ).toThrow(/Invalid expression for caveat 'c'/);
+    expect(() =>
+      compileCaveat("c", {
+        parameters: { a: "number" },
+        expression: "eval(a)",
+      })
+    ).toThrow(/Unknown function 'eval'/);
+    expect(() =>
+      compileCaveat("c", { parameters: { now: "number" }, expression: "true" })
+    ).toThrow("Invalid parameter name 'now' in caveat 'c'");
+  });
+});
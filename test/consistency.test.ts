@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { createAccessControl, RelationshipStore, thisRelation } from "../src";
+import {
+  decodeConsistencyToken,
+  encodeConsistencyToken,
+  nextRevision,
+} from "../src/consistency";
+import { createAdapter, createEngine, tuple } from "./helpers";
+
+describe("consistency tokens", () => {
+  it("round-trip revisions", () => {
+    const token = encodeConsistencyToken(1_700_000_000_123);
+
+    expect(token).toMatch(/^zk1\./);
+    expect(decodeConsistencyToken(token)).toBe(1_700_000_000_123);
+    expect(() => decodeConsistencyToken("zk2.abc")).toThrow(
+      "Invalid consistency token 'zk2.abc'"
+    );
+  });
+
+  it("advance past the previous revision", () => {
+    const future = Date.now() + 60_000;
+
+    expect(nextRevision(future)).toBe(future + 1);
+    expect(nextRevision(0)).toBeGreaterThan(0);
+  });
+
+  it("are returned by writes in increasing order", async () => {
+    const store = new RelationshipStore(createAdapter());
+
+    const first = await store.write([tuple("doc:d1", "viewer", "user:alice")]);
+    const unchanged = await store.write([
+      tuple("doc:d1", "viewer", "user:alice"),
+    ]);
+    const second = await store.delete({ objectType: "doc" });
+
+    expect(unchanged).toEqual({ written: [], token: first.token });
+    expect(decodeConsistencyToken(second.token)).toBeGreaterThan(
+      decodeConsistencyToken(first.token)
+    );
+    expect(store.token).toBe(second.token);
+  });
+});
+
+describe("atLeastAsFresh", () => {
+  const policies = createAccessControl({ doc: ["read"] })
+    .resourceRoles({ doc: [{ name: "viewer", actions: ["read"] }] })
+    .roleConditions({ doc: { viewer: thisRelation() } });
+
+  it("bypasses cached decisions older than the write", async () => {
+    const adapter = createAdapter();
+    const engine = createEngine(policies, {}, true, adapter);
+    // Writes made by another server sharing the database do not invalidate this cache
+    const otherServer = new RelationshipStore(adapter);
+
+    expect(
+      (await engine.hasPermission("alice", "read", "doc", "d1")).allowed
+    ).toBe(false);
+    const { token } = await otherServer.write([
+      tuple("doc:d1", "viewer", "user:alice"),
+    ]);
+
+    const cached = await engine.hasPermission("alice", "read", "doc", "d1", {
+      explain: true,
+    });
+    const fresh = await engine.hasPermission("alice", "read", "doc", "d1", {
+      atLeastAsFresh: token,
+      explain: true,
+    });
+
+    expect(cached).toMatchObject({ allowed: false, trace: { cache: "hit" } });
+    expect(fresh).toMatchObject({ allowed: true, trace: { cache: "stale" } });
+    // The fresh decision replaces the stale one
+    expect(
+      (await engine.hasPermission("alice", "read", "doc", "d1")).allowed
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,171 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  createAccessControl,
+  DECISION_LOG_MODEL,
+  thisRelation,
+  type DecisionLogEntry,
+  type DecisionLogOptions,
+} from "../src";
+import { createEngine, createServer, tuple } from "./helpers";
+
+const policies = createAccessControl({ doc: ["read", "delete"] })
+  .resourceRoles({
+    doc: [
+      { name: "owner", actions: ["read", "delete"] },
+      { name: "viewer", actions: ["read"] },
+    ],
+  })
+  .roleConditions({ doc: { owner: thisRelation(), viewer: thisRelation() } });
+
+const setUp = async (options: Omit<DecisionLogOptions, "sink"> = {}) => {
+  const entries: DecisionLogEntry[] = [];
+  const engine = createEngine(
+    policies,
+    {
+      decisionLog: {
+        ...options,
+        sink: { record: (entry) => void entries.push(entry) },
+      },
+    },
+    true
+  );
+  await engine.relationships.write([
+    tuple("doc:d1", "viewer", "user:alice"),
+    tuple("doc:d1", "owner", "user:bob"),
+  ]);
+  return { engine, entries };
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("decision log", () => {
+  it("records one entry per top-level check", async () => {
+    const { engine, entries } = await setUp();
+
+    await engine.hasPermission("alice", "read", "doc", "d1", {
+      requestId: "req-1",
+    });
+    await engine.hasPermission("alice", "read", "doc", "d1");
+    await engine.hasRole("doc", "owner", "alice", "d1");
+
+    expect(entries).toEqual([
+      {
+        timestamp: expect.any(Date),
+        subject: "alice",
+        action: "read",
+        resourceType: "doc",
+        resourceId: "d1",
+        allowed: true,
+        matchedRole: "viewer",
+        decidingRule: { type: "role", name: "viewer" },
+        cacheHit: false,
+        requestId: "req-1",
+      },
+      expect.objectContaining({ action: "read", cacheHit: true }),
+      {
+        timestamp: expect.any(Date),
+        subject: "alice",
+        role: "owner",
+        resourceType: "doc",
+        resourceId: "d1",
+        allowed: false,
+        cacheHit: false,
+      },
+    ]);
+  });
+
+  it("records each action of hasPermissions", async () => {
+    const { engine, entries } = await setUp();
+
+    await engine.hasPermissions("bob", {
+      both: {
+        resourceType: "doc",
+        actions: ["read", "delete"],
+        resourceId: "d1",
+      },
+      one: { resourceType: "doc", action: "read", resourceId: "d2" },
+    });
+
+    // The checks run concurrently, so their entries arrive in any order
+    expect(
+      entries
+        .map((entry) => `${entry.action} ${entry.resourceId} ${entry.allowed}`)
+        .sort()
+    ).toEqual(["delete d1 true", "read d1 true", "read d2 false"]);
+  });
+
+  it("only records the decisions passing the filter", async () => {
+    const { engine, entries } = await setUp({
+      filter: (entry) => !entry.allowed,
+    });
+
+    await engine.hasPermission("alice", "read", "doc", "d1");
+    await engine.hasPermission("alice", "delete", "doc", "d1");
+
+    expect(entries).toMatchObject([{ action: "delete", allowed: false }]);
+  });
+
+  it("samples the recorded decisions", async () => {
+    const { engine, entries } = await setUp({ sampleRate: 0.5 });
+    const random = vi.spyOn(Math, "random");
+
+    random.mockReturnValue(0.7);
+    await engine.hasPermission("alice", "read", "doc", "d1");
+    random.mockReturnValue(0.2);
+    await engine.hasPermission("alice", "delete", "doc", "d1");
+
+    expect(entries).toMatchObject([{ action: "delete" }]);
+  });
+});
+
+describe("database decision sink", () => {
+  const server = createServer(policies, false, { decisionLog: {} });
+  let alice: Awaited<ReturnType<typeof server.signUp>>;
+
+  beforeAll(async () => {
+    alice = await server.signUp("alice");
+    const { policyEngineInstance } = await import("../src");
+    await policyEngineInstance!.relationships.write([
+      tuple("doc:d1", "viewer", `user:${alice.id}`),
+    ]);
+  });
+
+  it("stores the endpoints' decisions with their request ID", async () => {
+    await alice.post(
+      "has-permission",
+      { action: "read", resourceType: "doc", resourceId: "d1" },
+      { "x-request-id": "req-42" }
+    );
+    await alice.post("has-role", {
+      resourceType: "doc",
+      roleName: "owner",
+      resourceId: "d1",
+    });
+
+    const { adapter } = await server.auth.$context;
+    const rows = await adapter.findMany<Record<string, unknown>>({
+      model: DECISION_LOG_MODEL,
+    });
+    expect(rows).toMatchObject([
+      {
+        subject: alice.id,
+        action: "read",
+        resourceType: "doc",
+        resourceId: "d1",
+        allowed: true,
+        matchedRole: "viewer",
+        decidingRule: "role:viewer",
+        cacheHit: false,
+        requestId: "req-42",
+      },
+      {
+        subject: alice.id,
+        role: "owner",
+        allowed: false,
+        requestId: expect.any(String),
+      },
+    ]);
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, expect, it } from "vitest";
+import {
+  ANONYMOUS_SUBJECT,
+  createAccessControl,
+  exclusion,
+  relation,
+  thisRelation,
+  tupleToUserset,
+  union,
+  type CheckContext,
+} from "../src";
+import { createEngine, tuple } from "./helpers";
+
+const policies = createAccessControl({
+  folder: ["read"],
+  doc: ["read", "edit"],
+})
+  .caveats({
+    on_shift: {
+      parameters: { shift: "string" },
+      expression: "shift == 'day'",
+    },
+  })
+  .resourceRoles({
+    folder: [{ name: "viewer", actions: ["read"] }],
+    doc: [
+      { name: "owner", actions: ["read", "edit"] },
+      { name: "viewer", actions: ["read"] },
+      { name: "reader", actions: ["read"] },
+    ],
+  })
+  .roleConditions({
+    folder: { viewer: thisRelation() },
+    doc: {
+      owner: async (userId: string, docId: string, context) =>
+        docId === `${userId}-doc` && context?.mfa === true,
+      // Viewers, minus anyone flagged by the risk engine or blocked while on shift
+      viewer: exclusion(
+        union(thisRelation(), tupleToUserset("parent", "viewer")),
+        union(
+          async (userId: string, _docId: string, context) =>
+            userId === "mallory" || context?.risk === "high",
+          relation("blocked")
+        )
+      ),
+      reader: exclusion(relation("viewer"), relation("blocked")),
+    },
+  });
+
+const setUp = async () => {
+  const engine = createEngine(policies);
+  await engine.relationships.write([
+    tuple("doc:d1", "viewer", "user:alice"),
+    tuple("doc:d1", "viewer", "user:mallory"),
+    tuple("doc:d1", "viewer", "anonymous:*"),
+    tuple("doc:d2", "parent", "folder:f1"),
+    tuple("folder:f1", "viewer", "user:bob"),
+    tuple("doc:d2", "blocked", "user:bob", { caveatName: "on_shift" }),
+    tuple("doc:d1", "reader", "user:carol"),
+  ]);
+  return engine;
+};
+
+describe("expand", () => {
+  it("evaluates nodes as permission checks do", async () => {
+    const engine = await setUp();
+    const contexts: (CheckContext | undefined)[] = [
+      undefined,
+      { mfa: true },
+      { risk: "high" },
+      { shift: "day" },
+      { shift: "night", mfa: true },
+    ];
+    const subjects = ["alice", "bob", "mallory", "carol", ANONYMOUS_SUBJECT];
+    const resources = ["d1", "d2", "alice-doc", "bob-doc"];
+
+    for (const subject of subjects) {
+      for (const resourceId of resources) {
+        for (const action of ["read", "edit"]) {
+          for (const context of contexts) {
+            const { allowed } = await engine.hasPermission(
+              subject,
+              action,
+              "doc",
+              resourceId,
+              { context }
+            );
+            const tree = await engine.expand(
+              "doc",
+              resourceId,
+              action,
+              subject,
+              { context }
+            );
+            expect(
+              { subject, resourceId, action, context, allowed: tree.allowed },
+              "expand disagrees with hasPermission"
+            ).toEqual({ subject, resourceId, action, context, allowed });
+          }
+        }
+      }
+    }
+  });
+
+  it("passes the context to function conditions", async () => {
+    const engine = await setUp();
+
+    const denied = await engine.expand("doc", "alice-doc", "owner", "alice");
+    const granted = await engine.expand("doc", "alice-doc", "owner", "alice", {
+      context: { mfa: true },
+    });
+
+    expect(denied).toMatchObject({
+      type: "role",
+      allowed: false,
+      children: [{ type: "function", allowed: false }],
+    });
+    expect(granted).toMatchObject({
+      type: "role",
+      allowed: true,
+      children: [{ type: "function", allowed: true }],
+    });
+  });
+
+  it("treats subtracted conditions as negated", async () => {
+    const engine = await setUp();
+
+    // Function conditions are not run for the anonymous subject, and are assumed to hold
+    // when subtracted
+    const anonymous = await engine.expand(
+      "doc",
+      "d1",
+      "viewer",
+      ANONYMOUS_SUBJECT
+    );
+    // Without a shift, the caveated block is assumed to apply when subtracted
+    const bob = await engine.expand("doc", "d2", "viewer", "bob");
+    const bobAtNight = await engine.expand("doc", "d2", "viewer", "bob", {
+      context: { shift: "night" },
+    });
+
+    expect(anonymous).toMatchObject({
+      allowed: false,
+      children: [
+        {
+          type: "exclusion",
+          allowed: false,
+          children: [
+            { type: "union", allowed: true },
+            {
+              type: "union",
+              allowed: true,
+              children: [{ type: "function", allowed: true }, {}],
+            },
+          ],
+        },
+      ],
+    });
+    expect(bob.allowed).toBe(false);
+    expect(bobAtNight.allowed).toBe(true);
+  });
+
+  it("lists the subjects at each leaf", async () => {
+    const engine = await setUp();
+
+    const tree = await engine.expand("doc", "d2", "read");
+
+    expect(tree).toMatchObject({
+      type: "action",
+      description: "Action 'read' on doc:d2",
+      children: [
+        { type: "role", userset: "doc:d2#owner" },
+        {
+          type: "role",
+          userset: "doc:d2#viewer",
+          children: [
+            {
+              type: "exclusion",
+              children: [
+                {
+                  type: "union",
+                  children: [
+                    { type: "this", userset: "doc:d2#viewer", subjects: [] },
+                    {
+                      type: "tupleToUserset",
+                      description: "parent -> viewer",
+                      children: [
+                        {
+                          type: "role",
+                          userset: "folder:f1#viewer",
+                          children: [
+                            {
+                              type: "this",
+                              subjects: ["user:bob"],
+                            },
+                          ],
+                        },
+                      ],
+                    },
+                  ],
+                },
+                {
+                  type: "union",
+                  children: [
+                    { type: "function" },
+                    {
+                      type: "tuple",
+                      userset: "doc:d2#blocked",
+                      subjects: ["user:bob[on_shift]"],
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+        { type: "role", userset: "doc:d2#reader" },
+      ],
+    });
+    expect(tree).not.toHaveProperty("allowed");
+  });
+});
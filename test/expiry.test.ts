@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createAccessControl,
+  InMemoryDecisionCache,
+  RelationshipStore,
+  thisRelation,
+} from "../src";
+import { createAdapter, createEngine, tuple } from "./helpers";
+
+const policies = createAccessControl({ doc: ["read"] })
+  .resourceRoles({ doc: [{ name: "viewer", actions: ["read"] }] })
+  .roleConditions({ doc: { viewer: thisRelation() } });
+
+const NOW = new Date("2030-06-01T12:00:00Z").getTime();
+const at = (offsetSeconds: number) => new Date(NOW + offsetSeconds * 1000);
+
+/** A decision cache recording the TTL of every decision it stores */
+class RecordingCache extends InMemoryDecisionCache {
+  ttls = new Map<string, number | undefined>();
+
+  async set<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
+    this.ttls.set(key, ttlSeconds);
+    await super.set(key, value, ttlSeconds);
+  }
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("grant validity", () => {
+  it("grants only between validFrom and validUntil", async () => {
+    vi.useFakeTimers({ now: NOW, toFake: ["Date"] });
+    const engine = createEngine(policies);
+    await engine.relationships.write([
+      tuple("doc:window", "viewer", "user:alice", {
+        validFrom: at(-60),
+        validUntil: at(60),
+      }),
+      tuple("doc:pending", "viewer", "user:alice", { validFrom: at(60) }),
+      tuple("doc:ended", "viewer", "user:alice", { validUntil: at(0) }),
+    ]);
+    const readable = () =>
+      engine.checkBulk("alice", "read", "doc", ["window", "pending", "ended"]);
+
+    expect(await readable()).toEqual({
+      window: true,
+      pending: false,
+      ended: false,
+    });
+
+    vi.setSystemTime(at(90));
+    expect(await readable()).toEqual({
+      window: false,
+      pending: true,
+      ended: false,
+    });
+  });
+
+  it("keeps cached decisions no longer than the next validity change", async () => {
+    vi.useFakeTimers({ now: NOW, toFake: ["Date"] });
+    const cache = new RecordingCache();
+    const engine = createEngine(
+      policies,
+      { cache, cacheTtlSeconds: 300 },
+      true
+    );
+    await engine.relationships.write([
+      tuple("doc:expiring", "viewer", "user:alice", { validUntil: at(30) }),
+      tuple("doc:pending", "viewer", "user:alice", { validFrom: at(120) }),
+      tuple("doc:soon", "viewer", "user:alice", { validUntil: at(0.5) }),
+      tuple("doc:open", "viewer", "user:alice"),
+    ]);
+    const read = async (docId: string) =>
+      (await engine.hasPermission("alice", "read", "doc", docId)).allowed;
+
+    expect(await read("expiring")).toBe(true);
+    expect(await read("pending")).toBe(false);
+    expect(await read("soon")).toBe(true);
+    expect(await read("open")).toBe(true);
+
+    // "soon" changes in under a second, so its decision is not cached at all
+    expect([...cache.ttls.values()]).toEqual([30, 120, 300]);
+
+    // The cached grant is not served past its expiry
+    vi.setSystemTime(at(31));
+    expect(await read("expiring")).toBe(false);
+  });
+});
+
+describe("purgeExpired", () => {
+  it("deletes the tuples whose validity ended", async () => {
+    const store = new RelationshipStore(createAdapter());
+    const kept = [
+      tuple("doc:d1", "viewer", "user:alice"),
+      tuple("doc:d2", "viewer", "user:alice", { validUntil: at(60) }),
+      tuple("doc:d3", "viewer", "user:alice", { validFrom: at(-60) }),
+    ];
+    const expired = tuple("doc:d4", "viewer", "user:alice", {
+      validUntil: at(-1),
+    });
+    await store.write([...kept, expired]);
+    const revision = store.revision;
+
+    const result = await store.purgeExpired(new Date(NOW));
+
+    expect(result).toMatchObject({ deleted: 1, token: store.token });
+    expect(await store.read()).toEqual(kept);
+    expect(await store.readChanges(revision)).toMatchObject([
+      { operation: "delete", tuple: expired },
+    ]);
+    expect((await store.purgeExpired(new Date(NOW))).deleted).toBe(0);
+  });
+});
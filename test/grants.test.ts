@@ -0,0 +1,199 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { createAccessControl, thisRelation } from "../src";
+import { createServer } from "./helpers";
+
+const policies = createAccessControl({ doc: ["read", "share"] })
+  .caveats({
+    office: {
+      parameters: { ip: "string", cidrs: "list" },
+      expression: "in_cidr(ip, cidrs)",
+    },
+  })
+  .resourceRoles({
+    doc: [
+      { name: "owner", actions: ["read", "share"] },
+      { name: "viewer", actions: ["read"] },
+    ],
+  })
+  .roleConditions({ doc: { owner: thisRelation(), viewer: thisRelation() } });
+
+const server = createServer(policies, true, {
+  managePermission: { doc: "share" },
+});
+let owner: Awaited<ReturnType<typeof server.signUp>>;
+let guest: Awaited<ReturnType<typeof server.signUp>>;
+
+beforeAll(async () => {
+  owner = await server.signUp("owner");
+  guest = await server.signUp("guest");
+  const { policyEngineInstance } = await import("../src");
+  await policyEngineInstance!.relationships.write([
+    {
+      objectType: "doc",
+      objectId: "d1",
+      relation: "owner",
+      subjectType: "user",
+      subjectId: owner.id,
+    },
+  ]);
+});
+
+const canRead = async (user: typeof guest) =>
+  (
+    await user.post("has-permission", {
+      action: "read",
+      resourceType: "doc",
+      resourceId: "d1",
+    })
+  ).body.allowed;
+
+describe("grant endpoints", () => {
+  it("grant, list and revoke roles", async () => {
+    const target = {
+      resourceType: "doc",
+      resourceId: "d1",
+      role: "viewer",
+      subject: `user:${guest.id}`,
+    };
+    // Cache the denial, which the grant must invalidate
+    expect(await canRead(guest)).toBe(false);
+
+    const granted = await owner.post("grant", {
+      ...target,
+      validUntil: "2100-01-01T00:00:00Z",
+    });
+    const again = await owner.post("grant", {
+      ...target,
+      validUntil: "2100-01-01T00:00:00Z",
+    });
+    expect(granted).toMatchObject({
+      status: 200,
+      body: { granted: true, token: expect.stringMatching(/^zk1\./) },
+    });
+    expect(again.body.granted).toBe(false);
+    expect(await canRead(guest)).toBe(true);
+
+    const { body } = await owner.post("list-grants", {
+      resourceType: "doc",
+      resourceId: "d1",
+      role: "viewer",
+    });
+    expect(body.grants).toEqual([
+      {
+        objectType: "doc",
+        objectId: "d1",
+        relation: "viewer",
+        subjectType: "user",
+        subjectId: guest.id,
+        validUntil: "2100-01-01T00:00:00.000Z",
+      },
+    ]);
+
+    expect((await owner.post("revoke", target)).body.revoked).toBe(true);
+    expect((await owner.post("revoke", target)).body.revoked).toBe(false);
+    expect(await canRead(guest)).toBe(false);
+  });
+
+  it("require the manage permission", async () => {
+    const target = {
+      resourceType: "doc",
+      resourceId: "d1",
+      role: "owner",
+      subject: `user:${guest.id}`,
+    };
+
+    for (const path of ["grant", "revoke"]) {
+      expect(await guest.post(path, target)).toMatchObject({
+        status: 403,
+        body: { message: "Not allowed to manage doc 'd1'" },
+      });
+    }
+    expect(
+      (
+        await guest.post("list-grants", {
+          resourceType: "doc",
+          resourceId: "d1",
+        })
+      ).status
+    ).toBe(403);
+    expect((await server.post("grant", target)).status).toBe(401);
+  });
+
+  it("reject grants they cannot store as asked", async () => {
+    const target = { resourceType: "doc", resourceId: "d1", subject: "user:x" };
+    const grant = (body: object) => owner.post("grant", { ...target, ...body });
+
+    expect(await grant({ role: "editor" })).toMatchObject({
+      status: 400,
+      body: { message: "Unknown role 'editor' for resource 'doc'" },
+    });
+    expect(
+      await grant({ role: "viewer", subject: "anonymous:bob" })
+    ).toMatchObject({
+      status: 400,
+      body: {
+        message: "The anonymous subject must be written as 'anonymous:*'",
+      },
+    });
+    expect(
+      await grant({
+        role: "viewer",
+        validFrom: "2030-01-01T00:00:00Z",
+        validUntil: "2020-01-01T00:00:00Z",
+      })
+    ).toMatchObject({
+      status: 400,
+      body: { message: "validUntil must be after validFrom" },
+    });
+    expect(
+      await grant({ role: "viewer", caveatName: "weekdays" })
+    ).toMatchObject({
+      status: 400,
+      body: { message: "Unknown caveat 'weekdays'" },
+    });
+    // A context without its caveat would otherwise grant unconditionally
+    expect(
+      await grant({ role: "viewer", caveatContext: { cidrs: ["10.0.0.0/8"] } })
+    ).toMatchObject({
+      status: 400,
+      body: { message: "caveatContext requires a caveatName" },
+    });
+
+    const { body } = await owner.post("list-grants", {
+      resourceType: "doc",
+      resourceId: "d1",
+      role: "viewer",
+    });
+    expect(body.grants).toEqual([]);
+  });
+
+  it("store caveated grants", async () => {
+    const { body } = await owner.post("grant", {
+      resourceType: "doc",
+      resourceId: "d1",
+      role: "viewer",
+      subject: "team:eng#member",
+      caveatName: "office",
+      caveatContext: { cidrs: ["10.0.0.0/8"] },
+    });
+    const { body: listed } = await owner.post("list-grants", {
+      resourceType: "doc",
+      resourceId: "d1",
+      role: "viewer",
+    });
+
+    expect(body.granted).toBe(true);
+    expect(listed.grants).toEqual([
+      {
+        objectType: "doc",
+        objectId: "d1",
+        relation: "viewer",
+        subjectType: "team",
+        subjectId: "eng",
+        subjectRelation: "member",
+        caveatName: "office",
+        caveatContext: { cidrs: ["10.0.0.0/8"] },
+      },
+    ]);
+  });
+});
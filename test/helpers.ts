@@ -0,0 +1,129 @@
+import { betterAuth, type Adapter, type TransactionAdapter } from "better-auth";
+import { memoryAdapter } from "better-auth/adapters/memory";
+import {
+  PolicyEngine,
+  RelationshipStore,
+  relationTupleSchema,
+  ZanzibarPlugin,
+  type Policies,
+  type PolicyEngineOptions,
+  type RelationTuple,
+  type ZanzibarPluginOptions,
+} from "../src";
+
+/**
+ * Creates an in-memory Better Auth adapter holding the plugin's tables.
+ */
+export function createAdapter(): Adapter {
+  return memoryAdapter({ relationTuple: [], relationChange: [] })({
+    plugins: [{ id: "zanzibar", schema: relationTupleSchema }],
+  });
+}
+
+/**
+ * Creates a policy engine backed by an in-memory relationship store.
+ */
+export function createEngine(
+  policies: Policies,
+  options: PolicyEngineOptions = {},
+  cachingEnabled = false,
+  adapter: Adapter | TransactionAdapter = createAdapter()
+): PolicyEngine {
+  const engine = new PolicyEngine(policies, cachingEnabled, options);
+  engine.setRelationshipStore(new RelationshipStore(adapter));
+  return engine;
+}
+
+/**
+ * Shorthand for a tuple granting `relation` on `objectType:objectId` to `subject`
+ * (`type:id` or `type:id#relation`).
+ */
+export function tuple(
+  object: string,
+  relation: string,
+  subject: string,
+  extra: Partial<RelationTuple> = {}
+): RelationTuple {
+  const [objectType, objectId] = object.split(":");
+  const [subjectPart, subjectRelation] = subject.split("#");
+  const [subjectType, subjectId] = subjectPart.split(":");
+  return {
+    objectType,
+    objectId,
+    relation,
+    subjectType,
+    subjectId,
+    ...(subjectRelation && { subjectRelation }),
+    ...extra,
+  };
+}
+
+const BASE_URL = "http://localhost:3000";
+
+/**
+ * Creates a Better Auth instance with the Zanzibar plugin over an in-memory database.
+ *
+ * The plugin keeps one policy engine per module, so create a single server per test file.
+ * `signUp` creates a user and returns its ID with a `post` function calling the plugin's
+ * endpoints with the user's session cookie; `post` alone calls them signed out.
+ */
+export function createServer(
+  policies: Policies,
+  cachingEnabled = false,
+  options: ZanzibarPluginOptions = {}
+) {
+  const auth = betterAuth({
+    database: memoryAdapter({
+      user: [],
+      session: [],
+      account: [],
+      verification: [],
+      relationTuple: [],
+      relationChange: [],
+      decisionLog: [],
+    }),
+    emailAndPassword: { enabled: true },
+    secret: "x".repeat(32),
+    baseURL: BASE_URL,
+    logger: { disabled: true },
+    plugins: [ZanzibarPlugin(policies, cachingEnabled, options)],
+  });
+
+  const post = async (
+    path: string,
+    body: unknown,
+    headers: Record<string, string> = {}
+  ): Promise<{ status: number; body: any }> => {
+    const response = await auth.handler(
+      new Request(`${BASE_URL}/api/auth/zanzibar/${path}`, {
+        method: "POST",
+        headers: { "content-type": "application/json", ...headers },
+        body: JSON.stringify(body),
+      })
+    );
+    const text = await response.text();
+    return { status: response.status, body: text ? JSON.parse(text) : null };
+  };
+
+  const signUp = async (name: string) => {
+    const email = `${name}@example.com`;
+    const { user } = await auth.api.signUpEmail({
+      body: { email, password: "password123", name },
+    });
+    const signIn = await auth.api.signInEmail({
+      body: { email, password: "password123" },
+      asResponse: true,
+    });
+    const cookie = signIn.headers.get("set-cookie")!.split(";")[0];
+    return {
+      id: user.id,
+      post: (
+        path: string,
+        body: unknown,
+        headers: Record<string, string> = {}
+      ) => post(path, body, { cookie, ...headers }),
+    };
+  };
+
+  return { auth, post, signUp };
+}
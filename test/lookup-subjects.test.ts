@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import {
+  computedUserset,
+  createAccessControl,
+  exclusion,
+  relation,
+  thisRelation,
+  tupleToUserset,
+  union,
+} from "../src";
+import { createEngine, tuple } from "./helpers";
+
+const policies = createAccessControl({
+  folder: ["read"],
+  doc: ["read", "edit"],
+})
+  .resourceRoles({
+    folder: [{ name: "viewer", actions: ["read"] }],
+    doc: [
+      { name: "editor", actions: ["read", "edit"] },
+      { name: "viewer", actions: ["read"] },
+      { name: "auditor", actions: ["read"] },
+    ],
+  })
+  .roleConditions({
+    folder: { viewer: thisRelation() },
+    doc: {
+      editor: thisRelation(),
+      viewer: exclusion(
+        union(
+          thisRelation(),
+          computedUserset("editor"),
+          tupleToUserset("parent", "viewer")
+        ),
+        relation("banned")
+      ),
+      auditor: async (userId: string) => userId === "root",
+    },
+  });
+
+const setUp = async () => {
+  const engine = createEngine(policies);
+  await engine.relationships.write([
+    tuple("doc:d1", "editor", "user:alice"),
+    tuple("doc:d1", "viewer", "team:eng#member"),
+    tuple("team:eng", "member", "user:bob"),
+    tuple("team:eng", "member", "user:mallory"),
+    tuple("doc:d1", "parent", "folder:f1"),
+    tuple("folder:f1", "viewer", "user:fay"),
+    tuple("doc:d1", "banned", "user:mallory"),
+  ]);
+  return engine;
+};
+
+describe("lookupSubjects", () => {
+  it("lists the subjects of a role with the path that granted them", async () => {
+    const engine = await setUp();
+
+    const subjects = await engine.lookupSubjects("doc", "d1", "viewer");
+
+    expect(
+      Object.fromEntries(subjects.map(({ subject, path }) => [subject, path]))
+    ).toEqual({
+      "user:alice": ["doc:d1#viewer", "doc:d1#editor"],
+      "team:eng#member": ["doc:d1#viewer"],
+      "user:bob": ["doc:d1#viewer", "team:eng#member"],
+      "user:fay": ["doc:d1#viewer", "folder:f1#viewer"],
+    });
+  });
+
+  it("lists the subjects able to perform an action", async () => {
+    const engine = await setUp();
+
+    const readers = await engine.lookupSubjects("doc", "d1", "read");
+    const editors = await engine.lookupSubjects("doc", "d1", "edit");
+
+    expect(readers.map((grant) => grant.subject).sort()).toEqual([
+      "team:eng#member",
+      "user:alice",
+      "user:bob",
+      "user:fay",
+    ]);
+    expect(editors).toEqual([
+      { subject: "user:alice", path: ["doc:d1#editor"], direct: true },
+    ]);
+  });
+
+  it("agrees with hasPermission", async () => {
+    const engine = await setUp();
+
+    for (const action of ["read", "edit"]) {
+      const subjects = await engine.lookupSubjects("doc", "d1", action);
+      for (const user of ["alice", "bob", "mallory", "fay", "root"]) {
+        const listed = subjects.some(
+          (grant) => grant.subject === `user:${user}`
+        );
+        const { allowed } = await engine.hasPermission(
+          user,
+          action,
+          "doc",
+          "d1"
+        );
+        // Function conditions are opaque, so lookups can only miss their subjects
+        expect(listed).toBe(user === "root" ? false : allowed);
+      }
+    }
+  });
+
+  it("returns nothing for unknown resources, roles and actions", async () => {
+    const engine = await setUp();
+
+    expect(await engine.lookupSubjects("page", "p1", "read")).toEqual([]);
+    expect(await engine.lookupSubjects("doc", "d1", "delete")).toEqual([]);
+    expect(await engine.lookupSubjects("doc", "d2", "read")).toEqual([]);
+  });
+});
@@ -0,0 +1,133 @@
+import type { RedisClient } from "../src";
+
+/**
+ * Converts a Redis glob pattern (`*`, `?`, `[...]` and `\` escapes) to a regular expression.
+ */
+function globToRegExp(pattern: string): RegExp {
+  const literal = (char: string) =>
+    char.replace(/[.*+?^${}()|[\]\\/-]/g, "\\$&");
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "\\" && i + 1 < pattern.length) {
+      source += literal(pattern[++i]);
+    } else if (char === "*") {
+      source += ".*";
+    } else if (char === "?") {
+      source += ".";
+    } else if (char === "[") {
+      const end = pattern.indexOf("]", i + 1);
+      if (end === -1) {
+        source += literal(char);
+        continue;
+      }
+      let set = pattern.slice(i + 1, end);
+      const negated = set.startsWith("^");
+      if (negated) set = set.slice(1);
+      source += `[${negated ? "^" : ""}${set.replace(/[\\\]^]/g, "\\$&")}]`;
+      i = end;
+    } else {
+      source += literal(char);
+    }
+  }
+  return new RegExp(`^${source}$`, "s");
+}
+
+/**
+ * In-memory stand-in for a Redis server, implementing the commands `RedisDecisionCache`
+ * uses with Redis semantics: `SET ... EX` expiries against an adjustable clock, and `SCAN`
+ * returning at most `COUNT` keys per call under a cursor.
+ */
+export class MemoryRedis implements RedisClient {
+  /** Current time in milliseconds, advanced by tests to expire keys */
+  now = 0;
+  /** Every `SCAN` call made, with its cursor and pattern */
+  readonly scans: { cursor: string; pattern: string }[] = [];
+  private entries = new Map<
+    string,
+    { value: string; expiresAt?: number; slot: number }
+  >();
+  private nextSlot = 0;
+
+  /**
+   * The keys currently stored, in insertion order.
+   */
+  keys(): string[] {
+    return [...this.entries.keys()].filter((key) => this.live(key));
+  }
+
+  /**
+   * The remaining time to live of a key in seconds, -1 without expiry and -2 if it is missing.
+   */
+  ttl(key: string): number {
+    if (!this.live(key)) return -2;
+    const { expiresAt } = this.entries.get(key)!;
+    return expiresAt === undefined
+      ? -1
+      : Math.ceil((expiresAt - this.now) / 1000);
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.live(key) ? this.entries.get(key)!.value : null;
+  }
+
+  async set(
+    key: string,
+    value: string,
+    mode?: "EX",
+    seconds?: number
+  ): Promise<"OK"> {
+    const slot = this.live(key) ? this.entries.get(key)!.slot : this.nextSlot++;
+    this.entries.set(key, {
+      value,
+      slot,
+      ...(mode === "EX" && { expiresAt: this.now + seconds! * 1000 }),
+    });
+    return "OK";
+  }
+
+  async del(...keys: string[]): Promise<number> {
+    let deleted = 0;
+    for (const key of keys) {
+      if (this.live(key)) deleted++;
+      this.entries.delete(key);
+    }
+    return deleted;
+  }
+
+  async scan(
+    cursor: string | number,
+    _matchOption: "MATCH",
+    pattern: string,
+    _countOption: "COUNT",
+    count: number
+  ): Promise<[string, string[]]> {
+    this.scans.push({ cursor: String(cursor), pattern });
+    // Like Redis, COUNT bounds the keys visited per call, not the matches returned, and
+    // keys stored for the whole scan are returned even if others are deleted meanwhile
+    const start = Number(cursor);
+    const visited = [...this.entries]
+      .filter(([, entry]) => entry.slot >= start)
+      .sort(([, a], [, b]) => a.slot - b.slot)
+      .slice(0, count);
+    const regExp = globToRegExp(pattern);
+    const matches = visited
+      .map(([key]) => key)
+      .filter((key) => this.live(key) && regExp.test(key));
+    const last = visited[visited.length - 1]?.[1].slot;
+    const more =
+      last !== undefined &&
+      [...this.entries.values()].some((entry) => entry.slot > last);
+    return [more ? String(last + 1) : "0", matches];
+  }
+
+  private live(key: string): boolean {
+    const entry = this.entries.get(key);
+    if (!entry) return false;
+    if (entry.expiresAt !== undefined && entry.expiresAt <= this.now) {
+      this.entries.delete(key);
+      return false;
+    }
+    return true;
+  }
+}
@@ -0,0 +1,209 @@
+import { describe, expect, it } from "vitest";
+import {
+  computedUserset,
+  createAccessControl,
+  exclusion,
+  exportPolicies,
+  importPolicies,
+  PolicyDocumentError,
+  relation,
+  thisRelation,
+  tupleToUserset,
+  union,
+  type PolicyDocument,
+} from "../src";
+import { createEngine, tuple } from "./helpers";
+
+const conditions = {
+  isStaff: async (userId: string) => userId.startsWith("staff-"),
+  isPublished: {
+    condition: async (_userId: string, docId?: string) => docId === "published",
+    enumerate: async () => ["published"],
+  },
+};
+
+const policies = createAccessControl({
+  folder: ["read"],
+  doc: ["read", "edit", "delete"],
+})
+  .caveats({
+    office: {
+      parameters: { ip: "string", cidrs: "list" },
+      expression: "in_cidr(ip, cidrs)",
+    },
+  })
+  .resourceRoles({
+    folder: [{ name: "viewer", actions: ["read"] }],
+    doc: [
+      { name: "editor", actions: ["read", "edit", "delete"] },
+      { name: "viewer", actions: ["read"] },
+      { name: "staff", actions: ["read", "edit"] },
+      { name: "public", actions: ["read"] },
+    ],
+  })
+  .denyRules(
+    {
+      doc: [
+        {
+          name: "locked",
+          actions: ["edit", "delete"],
+          condition: relation("locked"),
+          before: "staff",
+        },
+      ],
+    },
+    { combiningAlgorithm: "first-applicable" }
+  )
+  .roleConditions({
+    folder: { viewer: thisRelation() },
+    doc: {
+      editor: thisRelation(),
+      viewer: exclusion(
+        union(
+          thisRelation(),
+          computedUserset("editor"),
+          tupleToUserset("parent", "viewer")
+        ),
+        relation("banned")
+      ),
+      staff: conditions.isStaff,
+      public: conditions.isPublished,
+    },
+  });
+
+const document = (resources: object): unknown => ({ version: 1, resources });
+
+const importError = (input: unknown, registry = {}) => {
+  try {
+    importPolicies(input, registry);
+  } catch (error) {
+    expect(error).toBeInstanceOf(PolicyDocumentError);
+    return error as PolicyDocumentError;
+  }
+  throw new Error("importPolicies did not throw");
+};
+
+describe("policy documents", () => {
+  it("round-trip through export and import", async () => {
+    const exported = exportPolicies(policies, conditions);
+    const json: PolicyDocument = JSON.parse(JSON.stringify(exported));
+
+    expect(json.resources.doc.roles[2].condition).toEqual({
+      type: "handler",
+      name: "isStaff",
+    });
+    expect(json.resources.doc.combiningAlgorithm).toBe("first-applicable");
+    expect(
+      exportPolicies(importPolicies(json, conditions), conditions)
+    ).toEqual(exported);
+
+    const tuples = [
+      tuple("doc:d1", "parent", "folder:f1"),
+      tuple("folder:f1", "viewer", "user:alice"),
+      tuple("doc:d1", "editor", "user:bob"),
+      tuple("doc:d1", "locked", "user:staff-1"),
+    ];
+    const original = createEngine(policies);
+    const imported = createEngine(importPolicies(json, conditions));
+    for (const engine of [original, imported]) {
+      await engine.relationships.write(tuples);
+    }
+    for (const user of ["alice", "bob", "staff-1", "carol"]) {
+      for (const action of ["read", "edit", "delete"]) {
+        for (const docId of ["d1", "published"]) {
+          const [expected, actual] = await Promise.all(
+            [original, imported].map((engine) =>
+              engine.hasPermission(user, action, "doc", docId)
+            )
+          );
+          expect(actual).toEqual(expected);
+        }
+      }
+    }
+    // The registry entry in object form brings its enumerate function back
+    expect(await imported.lookupResources("carol", "read", "doc")).toEqual([
+      "published",
+    ]);
+  });
+
+  it("cannot export function conditions missing from the registry", () => {
+    expect(() =>
+      exportPolicies(policies, { isStaff: conditions.isStaff })
+    ).toThrowError(
+      new PolicyDocumentError("Cannot export policies", [
+        "resources.doc.roles[3].condition: function condition is not in the condition registry",
+      ])
+    );
+  });
+
+  it("rejects unknown conditions with their locations", () => {
+    const error = importError(
+      document({
+        doc: {
+          actions: ["read"],
+          roles: [
+            {
+              name: "viewer",
+              actions: ["read"],
+              condition: {
+                type: "union",
+                children: [
+                  { type: "this" },
+                  { type: "handler", name: "isMember" },
+                ],
+              },
+            },
+          ],
+          denyRules: [
+            {
+              name: "blocked",
+              actions: ["read"],
+              condition: { type: "handler", name: "isBlocked" },
+            },
+          ],
+        },
+      }),
+      { isStaff: conditions.isStaff }
+    );
+
+    expect(error.issues).toEqual([
+      "resources.doc.roles[0].condition.children[1]: unknown condition 'isMember'",
+      "resources.doc.denyRules[0].condition: unknown condition 'isBlocked'",
+    ]);
+  });
+
+  it("rejects unsupported versions and malformed documents", () => {
+    expect(importError({ version: 2, resources: {} }).message).toBe(
+      "Unsupported policy document version '2' (expected 1)"
+    );
+    expect(importError(null).issues).toEqual([
+      "document: Invalid input: expected object, received null",
+    ]);
+
+    const error = importError(
+      document({
+        doc: {
+          actions: ["read"],
+          roles: [{ name: "viewer", actions: ["read"], conditon: {} }],
+          combiningAlgorithm: "majority",
+        },
+      })
+    );
+    expect(error.issues).toHaveLength(2);
+    expect(error.issues[0]).toMatch(/^resources\.doc\.roles\[0\]: /);
+    expect(error.issues[1]).toMatch(/^resources\.doc\.combiningAlgorithm: /);
+  });
+
+  it("checks roles and actions like createAccessControl", () => {
+    expect(() =>
+      importPolicies(
+        document({
+          doc: {
+            actions: ["read"],
+            roles: [{ name: "viewer", actions: ["write"] }],
+          },
+        })
+      )
+    ).toThrow("Unknown action 'write' for resource 'doc'");
+  });
+});
@@ -0,0 +1,382 @@
+import { describe, expect, it } from "vitest";
+import {
+  ANONYMOUS_SUBJECT,
+  computedUserset,
+  createAccessControl,
+  exclusion,
+  globalCondition,
+  relation,
+  thisRelation,
+  tupleToUserset,
+  union,
+  type CombiningAlgorithm,
+  type PolicyEngine,
+} from "../src";
+import { createEngine, tuple } from "./helpers";
+
+describe("deny rules", () => {
+  const policiesWith = (combiningAlgorithm: CombiningAlgorithm) =>
+    createAccessControl({ project: ["delete"] })
+      .resourceRoles({
+        project: [
+          { name: "admin", actions: ["delete"] },
+          { name: "member", actions: ["delete"] },
+        ],
+      })
+      .denyRules(
+        {
+          project: [
+            {
+              name: "suspended",
+              actions: ["delete"],
+              condition: thisRelation(),
+              before: "member",
+            },
+          ],
+        },
+        { combiningAlgorithm }
+      )
+      .roleConditions({
+        project: { admin: thisRelation(), member: thisRelation() },
+      });
+
+  const decide = async (combiningAlgorithm: CombiningAlgorithm) => {
+    const engine = createEngine(policiesWith(combiningAlgorithm));
+    await engine.relationships.write([
+      tuple("project:p1", "admin", "user:alice"),
+      tuple("project:p1", "member", "user:bob"),
+      tuple("project:p1", "suspended", "user:alice"),
+      tuple("project:p1", "suspended", "user:bob"),
+    ]);
+    const check = (user: string) =>
+      engine.hasPermission(user, "delete", "project", "p1");
+    return { alice: await check("alice"), bob: await check("bob") };
+  };
+
+  it("denies whatever the roles with deny-overrides", async () => {
+    const { alice, bob } = await decide("deny-overrides");
+
+    expect(alice).toMatchObject({
+      allowed: false,
+      decidingRule: { type: "deny", name: "suspended" },
+    });
+    expect(bob.allowed).toBe(false);
+  });
+
+  it("lets any granting role win with permit-overrides", async () => {
+    const { alice, bob } = await decide("permit-overrides");
+
+    expect(alice).toMatchObject({
+      allowed: true,
+      decidingRule: { type: "role", name: "admin" },
+    });
+    expect(bob).toMatchObject({
+      allowed: true,
+      decidingRule: { type: "role", name: "member" },
+    });
+  });
+
+  it("evaluates rules in declaration order with first-applicable", async () => {
+    const { alice, bob } = await decide("first-applicable");
+
+    // admin is declared before the rule, member after it
+    expect(alice).toMatchObject({
+      allowed: true,
+      decidingRule: { type: "role", name: "admin" },
+    });
+    expect(bob).toMatchObject({
+      allowed: false,
+      decidingRule: { type: "deny", name: "suspended" },
+    });
+  });
+});
+
+describe("checkBulk and lookupResources", () => {
+  const policies = createAccessControl({
+    folder: ["read"],
+    doc: ["read", "edit"],
+  })
+    .caveats({
+      office_network: {
+        parameters: { ip: "string", allowed_cidrs: "list" },
+        expression: "in_cidr(ip, allowed_cidrs)",
+      },
+    })
+    .resourceRoles({
+      folder: [{ name: "viewer", actions: ["read"] }],
+      doc: [
+        { name: "owner", actions: ["read", "edit"] },
+        { name: "editor", actions: ["read", "edit"] },
+        { name: "viewer", actions: ["read"] },
+        { name: "reviewer", actions: ["read"] },
+      ],
+    })
+    .roleConditions({
+      folder: { viewer: thisRelation() },
+      doc: {
+        owner: {
+          condition: async (userId, docId, context) =>
+            docId === `${userId}-doc` && context?.mfa === true,
+          batch: async (userId, docIds, context) =>
+            new Set(
+              docIds.filter(
+                (id) => id === `${userId}-doc` && context?.mfa === true
+              )
+            ),
+          enumerate: async (userId) => [`${userId}-doc`],
+        },
+        editor: thisRelation(),
+        viewer: exclusion(
+          union(
+            thisRelation(),
+            computedUserset("editor"),
+            tupleToUserset("parent", "viewer")
+          ),
+          relation("blocked")
+        ),
+        reviewer: relation("reviewer"),
+      },
+    });
+
+  const setUp = async (): Promise<PolicyEngine> => {
+    const engine = createEngine(policies);
+    await engine.relationships.write([
+      tuple("doc:d1", "viewer", "user:alice"),
+      tuple("doc:d2", "editor", "user:alice"),
+      tuple("doc:d3", "parent", "folder:f1"),
+      tuple("doc:d4", "parent", "folder:f1"),
+      tuple("folder:f1", "viewer", "team:eng#member"),
+      tuple("team:eng", "member", "user:alice"),
+      tuple("doc:d4", "blocked", "user:alice"),
+      tuple("doc:d5", "reviewer", "user:alice", {
+        caveatName: "office_network",
+        caveatContext: { allowed_cidrs: ["10.0.0.0/8"] },
+      }),
+      tuple("doc:d6", "viewer", "user:bob"),
+    ]);
+    return engine;
+  };
+
+  const users = ["alice", "bob", "carol"];
+  const docIds = [
+    ...["d1", "d2", "d3", "d4", "d5", "d6"],
+    ...users.map((user) => `${user}-doc`),
+  ];
+  const contexts = [
+    undefined,
+    { mfa: true },
+    { ip: "10.1.2.3" },
+    { ip: "192.168.0.1", mfa: true },
+  ];
+
+  it("agree with hasPermission", async () => {
+    const engine = await setUp();
+
+    for (const user of users) {
+      for (const action of ["read", "edit"]) {
+        for (const context of contexts) {
+          const expected: Record<string, boolean> = {};
+          for (const id of docIds) {
+            const result = await engine.hasPermission(user, action, "doc", id, {
+              context,
+            });
+            expected[id] = result.allowed;
+          }
+          const bulk = await engine.checkBulk(user, action, "doc", docIds, {
+            context,
+          });
+          const listed = await engine.lookupResources(user, action, "doc", {
+            context,
+          });
+
+          expect(bulk).toEqual(expected);
+          expect(listed).toEqual(docIds.filter((id) => expected[id]).sort());
+        }
+      }
+    }
+  });
+
+  it("honour the context in caveats and conditions", async () => {
+    const engine = await setUp();
+
+    expect(await engine.lookupResources("alice", "read", "doc")).toEqual([
+      "d1",
+      "d2",
+      "d3",
+    ]);
+    expect(
+      await engine.lookupResources("alice", "read", "doc", {
+        context: { ip: "10.1.2.3", mfa: true },
+      })
+    ).toEqual(["alice-doc", "d1", "d2", "d3", "d5"]);
+  });
+
+  it("pages lookups with after and limit", async () => {
+    const engine = await setUp();
+    const context = { ip: "10.1.2.3", mfa: true };
+
+    const first = await engine.lookupResources("alice", "read", "doc", {
+      context,
+      limit: 2,
+    });
+    const second = await engine.lookupResources("alice", "read", "doc", {
+      context,
+      limit: 2,
+      after: first[first.length - 1],
+    });
+    const third = await engine.lookupResources("alice", "read", "doc", {
+      context,
+      limit: 2,
+      after: second[second.length - 1],
+    });
+
+    expect([first, second, third]).toEqual([
+      ["alice-doc", "d1"],
+      ["d2", "d3"],
+      ["d5"],
+    ]);
+  });
+});
+
+describe("public access", () => {
+  const policies = createAccessControl({ doc: ["read", "edit"] })
+    .resourceRoles({
+      doc: [
+        { name: "viewer", actions: ["read"] },
+        { name: "editor", actions: ["edit"] },
+        { name: "open", actions: ["read"] },
+      ],
+    })
+    .roleConditions({
+      doc: {
+        viewer: thisRelation(),
+        editor: thisRelation(),
+        open: {
+          condition: async (userId: string) => userId !== "banned",
+          batch: async (_userId, ids) => new Set(ids),
+          enumerate: async () => ["enumerated"],
+        },
+      },
+    });
+
+  const setUp = async (): Promise<PolicyEngine> => {
+    const engine = createEngine(policies);
+    await engine.relationships.write([
+      tuple("doc:public", "viewer", "anonymous:*"),
+      tuple("doc:users", "viewer", "user:*"),
+      tuple("doc:mine", "editor", "user:alice"),
+    ]);
+    return engine;
+  };
+
+  it("grants wildcard tuples to every subject of their type", async () => {
+    const engine = await setUp();
+
+    expect(
+      (await engine.hasPermission("bob", "edit", "doc", "users")).allowed
+    ).toBe(false);
+    expect(
+      await engine.checkBulk("bob", "read", "doc", ["public", "users"])
+    ).toEqual({ public: true, users: true });
+    expect(
+      (await engine.hasPermission("alice", "edit", "doc", "mine")).allowed
+    ).toBe(true);
+  });
+
+  it("only sees public tuples for the anonymous subject", async () => {
+    const engine = await setUp();
+
+    const results = await engine.checkBulk(ANONYMOUS_SUBJECT, "read", "doc", [
+      "public",
+      "users",
+      "mine",
+      "other",
+    ]);
+    expect(results).toEqual({
+      public: true,
+      users: false,
+      mine: false,
+      other: false,
+    });
+    expect(
+      (await engine.hasPermission(ANONYMOUS_SUBJECT, "read", "doc", "other"))
+        .allowed
+    ).toBe(false);
+    expect(
+      await engine.lookupResources(ANONYMOUS_SUBJECT, "read", "doc")
+    ).toEqual(["public"]);
+  });
+
+  it("rejects malformed wildcard tuples", () => {
+    const engine = createEngine(policies);
+
+    expect(() =>
+      engine.validateTuples([
+        tuple("doc:d1", "viewer", "team:*", { subjectRelation: "member" }),
+      ])
+    ).toThrow("Wildcard subject 'team:*' cannot have a relation");
+    expect(() =>
+      engine.validateTuples([tuple("doc:d1", "viewer", "anonymous:bob")])
+    ).toThrow("The anonymous subject must be written as 'anonymous:*'");
+  });
+});
+
+describe("global conditions", () => {
+  const policies = createAccessControl({ site: ["admin", "audit"] })
+    .resourceRoles({
+      site: [
+        { name: "admin", actions: ["admin"] },
+        { name: "auditor", actions: ["audit"] },
+        { name: "scoped", actions: ["audit"] },
+      ],
+    })
+    .roleConditions({
+      site: {
+        admin: async (userId: string) => userId === "root",
+        auditor: globalCondition(
+          async (userId, resourceId, context) =>
+            resourceId === undefined &&
+            userId === "eve" &&
+            context?.mfa === true
+        ),
+        scoped: async (_userId, resourceId) => resourceId !== "forbidden",
+      },
+    });
+
+  it("are evaluated by checks without a resource ID", async () => {
+    const engine = createEngine(policies);
+
+    expect((await engine.hasPermission("root", "admin", "site")).allowed).toBe(
+      true
+    );
+    expect((await engine.hasPermission("bob", "admin", "site")).allowed).toBe(
+      false
+    );
+  });
+
+  it("receive the context when marked with globalCondition", async () => {
+    const engine = createEngine(policies);
+
+    expect(
+      (
+        await engine.hasPermission("eve", "audit", "site", undefined, {
+          context: { mfa: true },
+        })
+      ).allowed
+    ).toBe(true);
+    expect((await engine.hasPermission("eve", "audit", "site")).allowed).toBe(
+      false
+    );
+  });
+
+  it("skip conditions taking a resource ID", async () => {
+    const engine = createEngine(policies);
+
+    expect(
+      (await engine.hasRole("site", "scoped", "bob", undefined)).allowed
+    ).toBe(false);
+    expect((await engine.hasRole("site", "scoped", "bob", "s1")).allowed).toBe(
+      true
+    );
+  });
+});
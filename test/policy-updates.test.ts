@@ -0,0 +1,198 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  parseSchema,
+  textPolicySource,
+  type PolicyEngine,
+  type PolicyEvent,
+} from "../src";
+import { createEngine, tuple } from "./helpers";
+
+const SCHEMA = `
+definition user {}
+
+definition folder {
+  relation viewer: user
+  permission read = viewer
+}
+
+definition doc {
+  relation parent: folder
+  relation viewer: user
+  permission read = viewer + parent->read
+}
+
+definition note {
+  relation viewer: user
+  permission read = viewer
+}
+`;
+
+/** The same schema with folder owners, who may read too */
+const UPDATED_SCHEMA = SCHEMA.replace(
+  "relation viewer: user\n  permission read = viewer\n}\n\ndefinition doc",
+  "relation viewer: user\n  relation owner: user\n  permission read = viewer + owner\n}\n\ndefinition doc"
+);
+
+const setUp = async () => {
+  const engine = createEngine(parseSchema(SCHEMA), {}, true);
+  const events: PolicyEvent[] = [];
+  engine.onPolicyEvent((event) => events.push(event));
+  await engine.relationships.write([
+    tuple("doc:d1", "parent", "folder:f1"),
+    tuple("folder:f1", "owner", "user:alice"),
+    tuple("note:n1", "viewer", "user:alice"),
+  ]);
+  return { engine, events };
+};
+
+const check = async (
+  engine: PolicyEngine,
+  resourceType: string,
+  id: string
+) => {
+  const { allowed, trace } = await engine.hasPermission(
+    "alice",
+    "read",
+    resourceType,
+    id,
+    { explain: true }
+  );
+  return { allowed, cache: trace!.cache };
+};
+
+describe("updatePolicies", () => {
+  it("invalidates the decisions that consulted changed types", async () => {
+    const { engine, events } = await setUp();
+    expect(await check(engine, "doc", "d1")).toEqual({
+      allowed: false,
+      cache: "miss",
+    });
+    await check(engine, "note", "n1");
+
+    const changed = await engine.updatePolicies(parseSchema(UPDATED_SCHEMA));
+
+    expect(changed).toEqual(["folder"]);
+    expect(events).toEqual([
+      { type: "updated", changedResourceTypes: ["folder"] },
+    ]);
+    expect(
+      engine.getPolicies().folder.roles.map((role) => role.name)
+    ).toContain("owner");
+    // The doc decision reached the folder through its parent
+    expect(await check(engine, "doc", "d1")).toEqual({
+      allowed: true,
+      cache: "stale",
+    });
+    expect(await check(engine, "note", "n1")).toEqual({
+      allowed: true,
+      cache: "hit",
+    });
+  });
+
+  it("reports no changes for identical policies", async () => {
+    const { engine, events } = await setUp();
+
+    expect(await engine.updatePolicies(parseSchema(SCHEMA))).toEqual([]);
+    expect(events).toEqual([{ type: "updated", changedResourceTypes: [] }]);
+  });
+
+  it("keeps the current policies when the new ones are invalid", async () => {
+    const { engine, events } = await setUp();
+    const current = engine.getPolicies();
+    const updated = parseSchema(UPDATED_SCHEMA);
+    const [viewer, ...roles] = updated.folder.roles;
+    const invalid = {
+      ...updated,
+      folder: {
+        ...updated.folder,
+        roles: [{ ...viewer, actions: [...viewer.actions, "write"] }, ...roles],
+      },
+    };
+
+    await expect(engine.updatePolicies(invalid)).rejects.toThrow(
+      "Unknown action 'write' for resource 'folder'"
+    );
+    expect(engine.getPolicies()).toBe(current);
+    expect(events).toMatchObject([
+      { type: "failed", error: { message: expect.stringContaining("write") } },
+    ]);
+  });
+});
+
+describe("watchPolicies", () => {
+  let stop: (() => void) | undefined;
+
+  afterEach(() => {
+    stop?.();
+  });
+
+  const nextEvent = (engine: PolicyEngine) =>
+    new Promise<PolicyEvent>((resolve) => {
+      const unsubscribe = engine.onPolicyEvent((event) => {
+        unsubscribe();
+        resolve(event);
+      });
+    });
+
+  it("applies the source's policies whenever its text changes", async () => {
+    const { engine, events } = await setUp();
+    let text = SCHEMA;
+    let loads = 0;
+    const source = textPolicySource(async () => {
+      loads += 1;
+      return text;
+    });
+
+    let event = nextEvent(engine);
+    stop = engine.watchPolicies(source, { intervalMs: 5 });
+    expect(await event).toEqual({ type: "updated", changedResourceTypes: [] });
+
+    event = nextEvent(engine);
+    text = UPDATED_SCHEMA;
+    expect(await event).toEqual({
+      type: "updated",
+      changedResourceTypes: ["folder"],
+    });
+
+    event = nextEvent(engine);
+    text = "definition folder {";
+    expect(await event).toMatchObject({ type: "failed" });
+    expect(
+      engine.getPolicies().folder.roles.map((role) => role.name)
+    ).toContain("owner");
+
+    stop();
+    const stoppedAt = loads;
+    text = SCHEMA;
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(loads).toBe(stoppedAt);
+    // Unchanged text is not parsed again, so it emits nothing
+    expect(events).toHaveLength(3);
+  });
+
+  it("reports load errors and carries on", async () => {
+    const { engine } = await setUp();
+    const controller = new AbortController();
+    let fail = true;
+
+    const failed = nextEvent(engine);
+    stop = engine.watchPolicies(
+      {
+        load: async () => {
+          if (fail) throw new Error("source unavailable");
+          return parseSchema(UPDATED_SCHEMA);
+        },
+      },
+      { intervalMs: 5, signal: controller.signal }
+    );
+    expect(await failed).toEqual({
+      type: "failed",
+      error: new Error("source unavailable"),
+    });
+
+    const updated = nextEvent(engine);
+    fail = false;
+    expect(await updated).toMatchObject({ type: "updated" });
+    controller.abort();
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import { createAccessControl, RedisDecisionCache, thisRelation } from "../src";
+import { createAdapter, createEngine, tuple } from "./helpers";
+import { MemoryRedis } from "./memory-redis";
+
+describe("RedisDecisionCache", () => {
+  it("stores JSON values under the key prefix with a TTL", async () => {
+    const redis = new MemoryRedis();
+    const cache = new RedisDecisionCache(redis, { ttlSeconds: 60 });
+
+    await cache.set("decision:1", { allowed: true });
+    await cache.set("decision:2", { allowed: false }, 5);
+
+    expect(redis.keys()).toEqual([
+      "zanzibar:decision:1",
+      "zanzibar:decision:2",
+    ]);
+    expect(redis.ttl("zanzibar:decision:1")).toBe(60);
+    expect(redis.ttl("zanzibar:decision:2")).toBe(5);
+    expect(await cache.get("decision:1")).toEqual({ allowed: true });
+
+    redis.now += 5_000;
+    expect(await cache.get("decision:2")).toBeUndefined();
+    expect(await cache.get("decision:1")).toEqual({ allowed: true });
+
+    await cache.delete("decision:1");
+    expect(await cache.get("decision:1")).toBeUndefined();
+    expect(await cache.get("missing")).toBeUndefined();
+  });
+
+  it("deletes by prefix across several SCAN pages", async () => {
+    const redis = new MemoryRedis();
+    const cache = new RedisDecisionCache(redis, { scanCount: 3 });
+    for (let i = 0; i < 10; i++) {
+      await cache.set(`user:alice:${i}`, i);
+      await cache.set(`user:bob:${i}`, i);
+    }
+
+    expect(await cache.deleteByPrefix("user:alice:")).toBe(10);
+    expect(redis.scans.length).toBe(7);
+    expect(redis.scans.map((scan) => scan.cursor)).toEqual([
+      "0",
+      "3",
+      "6",
+      "9",
+      "12",
+      "15",
+      "18",
+    ]);
+    expect(redis.keys()).toHaveLength(10);
+    expect(await cache.get("user:bob:9")).toBe(9);
+    expect(await cache.deleteByPrefix("user:alice:")).toBe(0);
+  });
+
+  it("matches prefixes containing glob characters literally", async () => {
+    const redis = new MemoryRedis();
+    const cache = new RedisDecisionCache(redis);
+    await cache.set("user:a*b:1", 1);
+    await cache.set("user:axxb:1", 1);
+    await cache.set("user:a?c:1", 1);
+    await cache.set("user:abc:1", 1);
+    await cache.set("user:[ab]:1", 1);
+    await cache.set("user:a:1", 1);
+    await cache.set("user:a\\b:1", 1);
+    await cache.set("user:ab:1", 1);
+
+    expect(await cache.deleteByPrefix("user:a*b")).toBe(1);
+    expect(await cache.deleteByPrefix("user:a?c")).toBe(1);
+    expect(await cache.deleteByPrefix("user:[ab]")).toBe(1);
+    expect(await cache.deleteByPrefix("user:a\\b")).toBe(1);
+    expect(redis.scans.map((scan) => scan.pattern)).toEqual([
+      "zanzibar:user:a\\*b*",
+      "zanzibar:user:a\\?c*",
+      "zanzibar:user:\\[ab\\]*",
+      "zanzibar:user:a\\\\b*",
+    ]);
+    expect(redis.keys()).toEqual([
+      "zanzibar:user:axxb:1",
+      "zanzibar:user:abc:1",
+      "zanzibar:user:a:1",
+      "zanzibar:user:ab:1",
+    ]);
+  });
+
+  it("only touches keys under its own key prefix", async () => {
+    const redis = new MemoryRedis();
+    const first = new RedisDecisionCache(redis, { keyPrefix: "app1:" });
+    const second = new RedisDecisionCache(redis, { keyPrefix: "app2:" });
+    await first.set("user:alice", "first");
+    await second.set("user:alice", "second");
+
+    expect(await first.get("user:alice")).toBe("first");
+    expect(await first.deleteByPrefix("user:")).toBe(1);
+    expect(redis.keys()).toEqual(["app2:user:alice"]);
+    expect(await second.get("user:alice")).toBe("second");
+  });
+
+  it("shares decisions and invalidations between engines", async () => {
+    const policies = createAccessControl({ doc: ["read"] })
+      .resourceRoles({ doc: [{ name: "viewer", actions: ["read"] }] })
+      .roleConditions({ doc: { viewer: thisRelation() } });
+    const redis = new MemoryRedis();
+    const adapter = createAdapter();
+    const [first, second] = [1, 2].map(() =>
+      createEngine(
+        policies,
+        { cache: new RedisDecisionCache(redis) },
+        true,
+        adapter
+      )
+    );
+
+    expect(
+      (await first.hasPermission("alice", "read", "doc", "d1")).allowed
+    ).toBe(false);
+    await second.relationships.write([tuple("doc:d1", "viewer", "user:alice")]);
+    const cached = await second.hasPermission("alice", "read", "doc", "d1", {
+      explain: true,
+    });
+    await second.invalidateUser("alice");
+
+    expect(cached).toMatchObject({ allowed: false, trace: { cache: "hit" } });
+    expect(
+      (await first.hasPermission("alice", "read", "doc", "d1")).allowed
+    ).toBe(true);
+  });
+});
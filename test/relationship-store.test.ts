@@ -0,0 +1,232 @@
+import type { TransactionAdapter } from "better-auth";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { RelationshipStore } from "../src";
+import { createAdapter, createEngine, tuple } from "./helpers";
+
+/**
+ * An adapter without transactions whose tuple inserts for `objectId` wait until `release`
+ * is called, to hold a write open while others start.
+ */
+function blockingAdapter(objectId: string) {
+  const { transaction: _transaction, ...adapter } = createAdapter();
+  let release!: () => void;
+  const gate = new Promise<void>((resolve) => (release = resolve));
+  const blocking: TransactionAdapter = {
+    ...adapter,
+    create: (async (options) => {
+      if (options.data.objectId === objectId) await gate;
+      return adapter.create(options);
+    }) as TransactionAdapter["create"],
+  };
+  return { adapter: blocking, release };
+}
+
+const tick = (ms = 10) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("tuples", () => {
+  it("are written idempotently and read back by filter", async () => {
+    const store = new RelationshipStore(createAdapter());
+
+    const first = await store.write([
+      tuple("doc:d1", "viewer", "user:alice"),
+      tuple("doc:d1", "viewer", "team:eng#member"),
+      tuple("doc:d2", "editor", "user:alice"),
+    ]);
+    const again = await store.write([tuple("doc:d1", "viewer", "user:alice")]);
+
+    expect(first.written).toHaveLength(3);
+    expect(again.written).toEqual([]);
+    expect(await store.read({ objectType: "doc", objectId: "d1" })).toEqual([
+      tuple("doc:d1", "viewer", "user:alice"),
+      tuple("doc:d1", "viewer", "team:eng#member"),
+    ]);
+    expect(
+      await store.read({ subjectType: "user", subjectId: "alice" })
+    ).toEqual([
+      tuple("doc:d1", "viewer", "user:alice"),
+      tuple("doc:d2", "editor", "user:alice"),
+    ]);
+    // `null` only matches tuples without a subject relation
+    expect(await store.read({ objectId: "d1", subjectRelation: null })).toEqual(
+      [tuple("doc:d1", "viewer", "user:alice")]
+    );
+    expect(await store.read({ subjectRelation: "member" })).toEqual([
+      tuple("doc:d1", "viewer", "team:eng#member"),
+    ]);
+    expect(await store.read()).toHaveLength(3);
+    expect(
+      await store.exists(tuple("doc:d1", "viewer", "team:eng#member"))
+    ).toBe(true);
+    expect(await store.exists(tuple("doc:d1", "viewer", "team:eng"))).toBe(
+      false
+    );
+  });
+
+  it("replace the caveat of an existing tuple", async () => {
+    const store = new RelationshipStore(createAdapter());
+    const caveated = tuple("doc:d1", "viewer", "user:alice", {
+      caveatName: "office",
+      caveatContext: { cidrs: ["10.0.0.0/8"] },
+    });
+
+    await store.write([tuple("doc:d1", "viewer", "user:alice")]);
+    const { written } = await store.write([caveated]);
+
+    expect(written).toEqual([caveated]);
+    expect(await store.read()).toEqual([caveated]);
+  });
+
+  it("are deleted by filter", async () => {
+    const store = new RelationshipStore(createAdapter());
+    await store.write(
+      Array.from({ length: 250 }, (_, i) =>
+        tuple(`doc:d${i}`, "viewer", "user:alice")
+      )
+    );
+    await store.write([tuple("doc:d1", "viewer", "user:bob")]);
+
+    expect(
+      await store.delete({ objectType: "doc", subjectId: "alice" })
+    ).toMatchObject({ deleted: 250 });
+    expect(await store.read()).toEqual([tuple("doc:d1", "viewer", "user:bob")]);
+    expect(await store.delete({ objectId: "missing" })).toMatchObject({
+      deleted: 0,
+    });
+    await expect(store.delete({})).rejects.toThrow(
+      "Refusing to delete relationship tuples with an empty filter"
+    );
+  });
+});
+
+describe("change log", () => {
+  it("gives interleaved writes revisions in commit order", async () => {
+    const { adapter, release } = blockingAdapter("slow");
+    const store = new RelationshipStore(adapter);
+
+    const slow = store.write([tuple("doc:slow", "viewer", "user:alice")]);
+    const fast = store.write([tuple("doc:fast", "viewer", "user:bob")]);
+    await tick();
+    // The later write must not commit ahead of the one still open
+    expect(await store.readChanges(0)).toEqual([]);
+
+    release();
+    const [first, second] = await Promise.all([slow, fast]);
+    const changes = await store.readChanges(0);
+
+    expect(changes.map((change) => change.tuple.objectId)).toEqual([
+      "slow",
+      "fast",
+    ]);
+    expect(changes[0].revision).toBeLessThan(changes[1].revision);
+    expect([changes[0].token, changes[1].token]).toEqual([
+      first.token,
+      second.token,
+    ]);
+    expect(store.token).toBe(second.token);
+  });
+
+  it("lets watchers see every interleaved write", async () => {
+    const { adapter, release } = blockingAdapter("slow");
+    const engine = createEngine({}, {}, false, adapter);
+    const controller = new AbortController();
+    const seen: string[] = [];
+    const watching = (async () => {
+      for await (const change of engine.watch(0, {
+        signal: controller.signal,
+        pollIntervalMs: 10,
+      })) {
+        seen.push(change.tuple.objectId);
+      }
+    })();
+
+    const slow = engine.relationships.write([
+      tuple("doc:slow", "viewer", "user:alice"),
+    ]);
+    const fast = engine.relationships.write([
+      tuple("doc:fast", "viewer", "user:bob"),
+    ]);
+    await tick();
+    release();
+    await Promise.all([slow, fast]);
+    await tick(50);
+    controller.abort();
+    await watching;
+
+    expect(seen).toEqual(["slow", "fast"]);
+  });
+
+  it("keeps the revision when a write fails", async () => {
+    const { transaction: _transaction, ...adapter } = createAdapter();
+    const store = new RelationshipStore({
+      ...adapter,
+      create: (async () => {
+        throw new Error("connection lost");
+      }) as TransactionAdapter["create"],
+    });
+
+    await expect(
+      store.write([tuple("doc:d1", "viewer", "user:alice")])
+    ).rejects.toThrow("connection lost");
+    expect(store.revision).toBe(0);
+    // The queue moves on after a failure
+    await expect(store.delete({ objectType: "doc" })).resolves.toMatchObject({
+      deleted: 0,
+    });
+  });
+
+  it("pages reads without splitting a revision", async () => {
+    const store = new RelationshipStore(createAdapter());
+    await store.write([
+      tuple("doc:a1", "viewer", "user:alice"),
+      tuple("doc:a2", "viewer", "user:alice"),
+    ]);
+    await store.write([
+      tuple("doc:b1", "viewer", "user:alice"),
+      tuple("doc:b2", "viewer", "user:alice"),
+      tuple("doc:b3", "viewer", "user:alice"),
+    ]);
+    await store.write([tuple("doc:c1", "viewer", "user:alice")]);
+    const read = async (sinceRevision: number, limit: number) =>
+      (await store.readChanges(sinceRevision, limit)).map(
+        (change) => change.tuple.objectId
+      );
+    const [a, b] = [
+      ...new Set((await store.readChanges(0)).map((change) => change.revision)),
+    ];
+
+    // The limit ends inside the second revision, which is left for the next read
+    expect(await read(0, 3)).toEqual(["a1", "a2"]);
+    // A revision larger than the limit is read whole
+    expect(await read(a, 2)).toEqual(["b1", "b2", "b3"]);
+    expect(await read(b, 2)).toEqual(["c1"]);
+    expect(await read(store.revision, 2)).toEqual([]);
+  });
+
+  describe("pruneChanges", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("deletes the entries recorded before a time", async () => {
+      vi.useFakeTimers({
+        now: new Date("2030-01-01T00:00:00Z"),
+        toFake: ["Date"],
+      });
+      const store = new RelationshipStore(createAdapter());
+      await store.write([tuple("doc:d1", "viewer", "user:alice")]);
+      await store.delete({ objectId: "d1" });
+      vi.setSystemTime(new Date("2030-01-02T00:00:00Z"));
+      await store.write([tuple("doc:d2", "viewer", "user:alice")]);
+
+      expect(await store.pruneChanges(new Date("2030-01-02T00:00:00Z"))).toBe(
+        2
+      );
+      expect(await store.readChanges(0)).toMatchObject([
+        { operation: "write", tuple: { objectId: "d2" } },
+      ]);
+      expect(await store.pruneChanges(new Date("2030-01-02T00:00:00Z"))).toBe(
+        0
+      );
+    });
+  });
+});
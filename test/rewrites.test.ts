@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import {
+  computedUserset,
+  createAccessControl,
+  exclusion,
+  intersection,
+  relation,
+  thisRelation,
+  tupleToUserset,
+  union,
+} from "../src";
+import { createEngine, tuple } from "./helpers";
+
+const resources = {
+  folder: ["read"],
+  doc: ["read", "edit", "approve", "comment"],
+} as const;
+
+const policies = createAccessControl(resources)
+  .resourceRoles({
+    folder: [{ name: "viewer", actions: ["read"] }],
+    doc: [
+      { name: "owner", actions: ["edit"] },
+      { name: "editor", actions: ["edit"] },
+      { name: "viewer", actions: ["read"] },
+      { name: "approver", actions: ["approve"] },
+      { name: "commenter", actions: ["comment"] },
+    ],
+  })
+  .roleConditions({
+    folder: { viewer: thisRelation() },
+    doc: {
+      owner: thisRelation(),
+      editor: union(thisRelation(), computedUserset("owner")),
+      viewer: union(
+        thisRelation(),
+        computedUserset("editor"),
+        tupleToUserset("parent", "viewer")
+      ),
+      approver: intersection(computedUserset("editor"), relation("reviewed")),
+      commenter: exclusion(computedUserset("viewer"), relation("muted")),
+    },
+  });
+
+describe("userset rewrites", () => {
+  const setUp = async () => {
+    const engine = createEngine(policies);
+    await engine.relationships.write([
+      tuple("doc:d1", "owner", "user:olive"),
+      tuple("doc:d1", "editor", "user:eve"),
+      tuple("doc:d1", "viewer", "user:vic"),
+      tuple("doc:d1", "parent", "folder:f1"),
+      tuple("folder:f1", "viewer", "user:fay"),
+      tuple("doc:d1", "reviewed", "user:eve"),
+      tuple("doc:d1", "reviewed", "user:vic"),
+      tuple("doc:d1", "muted", "user:fay"),
+    ]);
+    return engine;
+  };
+
+  const allowed = async (
+    engine: Awaited<ReturnType<typeof setUp>>,
+    user: string,
+    action: string
+  ) => (await engine.hasPermission(user, action, "doc", "d1")).allowed;
+
+  it("follow computed usersets and parents", async () => {
+    const engine = await setUp();
+
+    expect(await allowed(engine, "olive", "edit")).toBe(true);
+    expect(await allowed(engine, "olive", "read")).toBe(true);
+    expect(await allowed(engine, "eve", "read")).toBe(true);
+    expect(await allowed(engine, "vic", "edit")).toBe(false);
+    expect(await allowed(engine, "fay", "read")).toBe(true);
+    expect(await allowed(engine, "fay", "edit")).toBe(false);
+    expect(await allowed(engine, "nobody", "read")).toBe(false);
+  });
+
+  it("intersect and exclude", async () => {
+    const engine = await setUp();
+
+    // Approvers are editors who also reviewed
+    expect(await allowed(engine, "eve", "approve")).toBe(true);
+    expect(await allowed(engine, "vic", "approve")).toBe(false);
+    expect(await allowed(engine, "olive", "approve")).toBe(false);
+    // Commenters are viewers who are not muted
+    expect(await allowed(engine, "vic", "comment")).toBe(true);
+    expect(await allowed(engine, "fay", "comment")).toBe(false);
+  });
+
+  it("report the role that granted access", async () => {
+    const engine = await setUp();
+
+    expect(
+      await engine.hasPermission("olive", "read", "doc", "d1")
+    ).toMatchObject({
+      allowed: true,
+      decidingRule: { type: "role", name: "viewer" },
+    });
+    expect(await engine.hasRole("doc", "editor", "olive", "d1")).toMatchObject({
+      allowed: true,
+    });
+  });
+
+  it("are validated when the policies are built", () => {
+    const roles = {
+      folder: [{ name: "viewer", actions: ["read"] }],
+      doc: [
+        { name: "editor", actions: ["edit"] },
+        { name: "viewer", actions: ["read"] },
+      ],
+    } as const;
+    const build = (doc: Record<string, unknown>) => () =>
+      createAccessControl(resources)
+        .resourceRoles(roles)
+        .roleConditions({ doc } as never);
+
+    expect(build({ viewer: computedUserset("owner") })).toThrow(
+      "Unknown role 'owner' in computed userset of role 'viewer' for resource 'doc'"
+    );
+    expect(build({ viewer: tupleToUserset("parent", "reader") })).toThrow(
+      "Unknown role 'reader' in tuple-to-userset of role 'viewer' for resource 'doc'"
+    );
+    expect(
+      build({
+        viewer: computedUserset("editor"),
+        editor: union(thisRelation(), computedUserset("viewer")),
+      })
+    ).toThrow(/^Cyclic .* for resource 'doc'$/);
+  });
+});
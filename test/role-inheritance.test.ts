@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import {
+  computedUserset,
+  createAccessControl,
+  thisRelation,
+  union,
+} from "../src";
+import { createEngine, tuple } from "./helpers";
+
+/** Users the `viewer` condition grants on every document, standing in for a lookup */
+const everyoneCanView = new Set(["carol"]);
+
+const policies = createAccessControl({ doc: ["read", "write", "delete"] })
+  .resourceRoles({
+    doc: [
+      { name: "viewer", actions: ["read"] },
+      { name: "editor", actions: ["write"], inherits: ["viewer"] },
+      { name: "admin", actions: ["delete"], inherits: ["editor"] },
+    ],
+  })
+  .roleConditions({
+    doc: {
+      viewer: {
+        condition: async (userId: string) => everyoneCanView.has(userId),
+        batch: async (userId, docIds) =>
+          new Set(everyoneCanView.has(userId) ? docIds : []),
+      },
+      editor: thisRelation(),
+      admin: thisRelation(),
+    },
+  });
+
+const setUp = async () => {
+  const engine = createEngine(policies);
+  await engine.relationships.write([
+    tuple("doc:d1", "admin", "user:alice"),
+    tuple("doc:d1", "editor", "user:bob"),
+  ]);
+  return engine;
+};
+
+describe("role inheritance", () => {
+  it("builds full actions and computed usersets", () => {
+    const [viewer, editor, admin] = policies.doc.roles;
+
+    expect(policies.doc.roles.map((role) => role.actions)).toEqual([
+      ["read"],
+      ["write", "read"],
+      ["delete", "write", "read"],
+    ]);
+    expect(viewer.condition).toEqual(
+      union(expect.any(Function) as never, computedUserset("editor"))
+    );
+    expect(editor.condition).toEqual(
+      union(thisRelation(), computedUserset("admin"))
+    );
+    expect(admin.condition).toEqual(thisRelation());
+  });
+
+  it("grants inherited roles and their actions transitively", async () => {
+    const engine = await setUp();
+    const roles = async (user: string) => {
+      const held: string[] = [];
+      for (const role of ["viewer", "editor", "admin"]) {
+        if ((await engine.hasRole("doc", role, user, "d1")).allowed) {
+          held.push(role);
+        }
+      }
+      return held;
+    };
+
+    expect(await roles("alice")).toEqual(["viewer", "editor", "admin"]);
+    expect(await roles("bob")).toEqual(["viewer", "editor"]);
+    // The inherited role's own condition still grants it alone
+    expect(await roles("carol")).toEqual(["viewer"]);
+    expect(await roles("dave")).toEqual([]);
+    expect(
+      (await engine.hasPermission("alice", "read", "doc", "d1")).allowed
+    ).toBe(true);
+    expect(
+      (await engine.hasPermission("bob", "delete", "doc", "d1")).allowed
+    ).toBe(false);
+  });
+
+  it("grants inheritors of a batched role in bulk checks", async () => {
+    const engine = await setUp();
+
+    for (const user of ["alice", "bob", "carol", "dave"]) {
+      const bulk = await engine.checkBulk(user, "read", "doc", ["d1", "d2"]);
+      expect(bulk).toEqual({
+        d1: user !== "dave",
+        d2: user === "carol",
+      });
+    }
+  });
+
+  it("rejects unknown and cyclic inheritance", () => {
+    const builder = createAccessControl({ doc: ["read"] });
+
+    expect(() =>
+      builder.resourceRoles({
+        // @ts-expect-error inherited roles must be declared on the resource
+        doc: [{ name: "viewer", actions: ["read"], inherits: ["reader"] }],
+      })
+    ).toThrow(
+      "Unknown role 'reader' inherited by role 'viewer' for resource 'doc'"
+    );
+    expect(() =>
+      builder.resourceRoles({
+        doc: [
+          { name: "viewer", actions: ["read"], inherits: ["admin"] },
+          { name: "editor", actions: ["read"], inherits: ["viewer"] },
+          { name: "admin", actions: ["read"], inherits: ["editor"] },
+        ],
+      })
+    ).toThrow(
+      "Cyclic role inheritance 'viewer -> admin -> editor -> viewer' for resource 'doc'"
+    );
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import {
+  createAccessControl,
+  parseSchema,
+  printSchema,
+  SchemaParseError,
+  type Policies,
+} from "../src";
+
+const SCHEMA = `
+caveat not_expired(expires_at timestamp) {
+  now < expires_at
+}
+
+definition user {}
+
+definition team {
+  relation member: user | team#member
+}
+
+definition folder {
+  relation viewer: user | team#member
+  permission read = viewer
+}
+
+definition project {
+  relation owner: user
+  relation editor: user | team#member
+  relation viewer: user | user:* | anonymous:* | team#member
+  relation parent: folder
+  relation banned: user
+
+  permission read = viewer + editor + owner + parent->read
+  permission update = editor + owner
+  permission approve = editor & owner
+  permission comment = read - banned
+  permission delete = owner
+
+  deny suspended on read, update = banned
+}
+`;
+
+describe("parseSchema", () => {
+  it("builds roles, actions, deny rules and caveats", () => {
+    const policies = parseSchema(SCHEMA);
+    const project = policies.project;
+
+    expect(project.actions).toEqual([
+      "read",
+      "update",
+      "approve",
+      "comment",
+      "delete",
+    ]);
+    expect(
+      Object.fromEntries(project.roles.map((role) => [role.name, role.actions]))
+    ).toEqual({
+      // `read` is referenced by `comment`, so it becomes a role over the relations
+      read: ["read"],
+      owner: ["update", "delete"],
+      editor: ["update"],
+      viewer: [],
+      parent: [],
+      banned: [],
+      approve: ["approve"],
+      comment: ["comment"],
+    });
+    expect(project.roles.find((r) => r.name === "read")?.condition).toEqual({
+      type: "union",
+      children: [
+        { type: "computedUserset", role: "viewer" },
+        { type: "computedUserset", role: "editor" },
+        { type: "computedUserset", role: "owner" },
+        { type: "tupleToUserset", tupleset: "parent", computedUserset: "read" },
+      ],
+    });
+    expect(
+      project.roles.find((r) => r.name === "viewer")?.subjectTypes
+    ).toEqual(["user", "user:*", "anonymous:*", "team#member"]);
+    expect(project.denyRules).toEqual([
+      {
+        name: "suspended",
+        actions: ["read", "update"],
+        condition: { type: "computedUserset", role: "banned" },
+      },
+    ]);
+    expect(project.caveats?.not_expired).toEqual({
+      parameters: { expires_at: "timestamp" },
+      expression: "now < expires_at",
+    });
+  });
+
+  it("locates errors in the source", () => {
+    const source = `definition project {
+  relation editor: user
+  permission update = editr
+}`;
+
+    expect(() => parseSchema(source)).toThrow(SchemaParseError);
+    expect(() => parseSchema(source)).toThrow(
+      expect.objectContaining({ line: 3, column: 23 })
+    );
+  });
+
+  it("rejects relations on wildcard subjects", () => {
+    expect(() =>
+      parseSchema(`definition doc {
+  relation viewer: user:*#member
+}`)
+    ).toThrow(SchemaParseError);
+  });
+});
+
+describe("printSchema", () => {
+  it("round-trips parsed schemas", () => {
+    const policies = parseSchema(SCHEMA);
+    const printed = printSchema(policies);
+
+    // Permissions that are also roles are printed along with the roles, so only the order
+    // of the actions may differ
+    const sortActions = (p: Policies) =>
+      Object.fromEntries(
+        Object.entries(p).map(([type, definition]) => [
+          type,
+          { ...definition, actions: [...definition.actions].sort() },
+        ])
+      );
+    expect(sortActions(parseSchema(printed))).toEqual(sortActions(policies));
+    expect(printSchema(parseSchema(printed))).toBe(printed);
+  });
+
+  it("refuses policies with function conditions", () => {
+    const policies = createAccessControl({ doc: ["read"] })
+      .resourceRoles({ doc: [{ name: "viewer", actions: ["read"] }] })
+      .roleConditions({ doc: { viewer: async () => true } });
+
+    expect(() => printSchema(policies)).toThrow();
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import {
+  createAccessControl,
+  thisRelation,
+  tupleToUserset,
+  union,
+} from "../src";
+import { createEngine, tuple } from "./helpers";
+
+const policies = createAccessControl({ folder: ["read"], doc: ["read"] })
+  .resourceRoles({
+    folder: [{ name: "viewer", actions: ["read"] }],
+    doc: [{ name: "viewer", actions: ["read"] }],
+  })
+  .roleConditions({
+    folder: {
+      viewer: union(thisRelation(), tupleToUserset("parent", "viewer")),
+    },
+    doc: { viewer: thisRelation() },
+  });
+
+describe("userset subjects", () => {
+  it("expand nested groups", async () => {
+    const engine = createEngine(policies);
+    await engine.relationships.write([
+      tuple("doc:d1", "viewer", "team:eng#member"),
+      tuple("team:eng", "member", "team:backend#member"),
+      tuple("team:backend", "member", "team:db#member"),
+      tuple("team:db", "member", "user:dana"),
+      tuple("team:eng", "member", "user:erin"),
+    ]);
+
+    for (const user of ["dana", "erin"]) {
+      expect(
+        (await engine.hasPermission(user, "read", "doc", "d1")).allowed
+      ).toBe(true);
+    }
+    expect(
+      (await engine.hasPermission("mallory", "read", "doc", "d1")).allowed
+    ).toBe(false);
+    expect(await engine.isSubjectMember("dana", "team:eng#member")).toBe(true);
+    expect(await engine.isSubjectMember("dana", "team:db#member")).toBe(true);
+    expect(await engine.isSubjectMember("erin", "team:db#member")).toBe(false);
+  });
+
+  it("can be checked as subjects themselves", async () => {
+    const engine = createEngine(policies);
+    await engine.relationships.write([
+      tuple("doc:d1", "viewer", "team:eng#member"),
+      tuple("team:eng", "member", "team:backend#member"),
+    ]);
+
+    expect(
+      (await engine.hasPermission("team:eng#member", "read", "doc", "d1"))
+        .allowed
+    ).toBe(true);
+    expect(
+      (await engine.hasPermission("team:backend#member", "read", "doc", "d1"))
+        .allowed
+    ).toBe(true);
+    expect(
+      (await engine.hasPermission("team:ops#member", "read", "doc", "d1"))
+        .allowed
+    ).toBe(false);
+  });
+
+  it("terminate on cyclic groups and parents", async () => {
+    const engine = createEngine(policies);
+    await engine.relationships.write([
+      tuple("doc:d1", "viewer", "team:a#member"),
+      tuple("team:a", "member", "team:b#member"),
+      tuple("team:b", "member", "team:a#member"),
+      tuple("team:b", "member", "user:bea"),
+      tuple("folder:f1", "parent", "folder:f2"),
+      tuple("folder:f2", "parent", "folder:f1"),
+      tuple("folder:f2", "viewer", "user:fred"),
+    ]);
+
+    expect(
+      (await engine.hasPermission("bea", "read", "doc", "d1")).allowed
+    ).toBe(true);
+    expect(
+      (await engine.hasPermission("mallory", "read", "doc", "d1")).allowed
+    ).toBe(false);
+    expect(
+      (await engine.hasPermission("fred", "read", "folder", "f1")).allowed
+    ).toBe(true);
+    expect(
+      (await engine.hasPermission("mallory", "read", "folder", "f1")).allowed
+    ).toBe(false);
+
+    const tree = await engine.expand("folder", "f1", "viewer", "mallory");
+    expect(JSON.stringify(tree)).toContain('"type":"cycle"');
+  });
+
+  it("stop at the maximum depth", async () => {
+    const engine = createEngine(policies, { maxDepth: 3 });
+    await engine.relationships.write([
+      tuple("doc:d1", "viewer", "team:t1#member"),
+      tuple("team:t1", "member", "team:t2#member"),
+      tuple("team:t2", "member", "team:t3#member"),
+      tuple("team:t3", "member", "team:t4#member"),
+      tuple("team:t4", "member", "user:deep"),
+    ]);
+
+    await expect(
+      engine.hasPermission("deep", "read", "doc", "d1")
+    ).rejects.toThrow(/^Maximum evaluation depth \(3\) exceeded/);
+  });
+});
@@ -0,0 +1,80 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { createAccessControl, thisRelation, type PolicyEngine } from "../src";
+import { createServer, tuple } from "./helpers";
+
+const policies = createAccessControl({ doc: ["read"] })
+  .resourceRoles({ doc: [{ name: "viewer", actions: ["read"] }] })
+  .roleConditions({ doc: { viewer: thisRelation() } });
+
+/** Filled once the admin signs up; the plugin reads the list on every request */
+const adminUserIds: string[] = [];
+const server = createServer(policies, false, { adminUserIds });
+let admin: Awaited<ReturnType<typeof server.signUp>>;
+let user: Awaited<ReturnType<typeof server.signUp>>;
+let engine: PolicyEngine;
+
+beforeAll(async () => {
+  admin = await server.signUp("admin");
+  user = await server.signUp("user");
+  adminUserIds.push(admin.id);
+  engine = (await import("../src")).policyEngineInstance!;
+});
+
+describe("watch endpoint", () => {
+  it("returns the changes after a revision at once", async () => {
+    const { token } = await engine.relationships.write([
+      tuple("doc:d1", "viewer", "user:alice"),
+    ]);
+    const revision = engine.relationships.revision;
+
+    const { status, body } = await admin.post("watch", { sinceRevision: 0 });
+
+    expect(status).toBe(200);
+    expect(body).toEqual({
+      changes: [
+        {
+          revision,
+          token,
+          operation: "write",
+          tuple: tuple("doc:d1", "viewer", "user:alice"),
+        },
+      ],
+      revision,
+    });
+  });
+
+  it("waits for the next change", async () => {
+    const sinceRevision = engine.relationships.revision;
+
+    const watching = admin.post("watch", { sinceRevision, timeoutMs: 5000 });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await engine.relationships.delete({ objectId: "d1" });
+    const { body } = await watching;
+
+    expect(body).toMatchObject({
+      changes: [{ operation: "delete", tuple: { objectId: "d1" } }],
+      revision: engine.relationships.revision,
+    });
+  });
+
+  it("returns no changes once the timeout elapses", async () => {
+    const sinceRevision = engine.relationships.revision;
+
+    const { body } = await admin.post("watch", {
+      sinceRevision,
+      timeoutMs: 50,
+    });
+
+    expect(body).toEqual({ changes: [], revision: sinceRevision });
+  });
+
+  it("is restricted to admins", async () => {
+    expect(await user.post("watch", {})).toMatchObject({
+      status: 403,
+      body: {
+        message: "Watching relationship changes requires an admin session",
+      },
+    });
+    expect((await server.post("watch", {})).status).toBe(401);
+  });
+});
@@ -0,0 +1,287 @@
+import type { TransactionAdapter } from "better-auth";
+import { beforeAll, describe, expect, it } from "vitest";
+import {
+  createAccessControl,
+  RelationshipStore,
+  RelationshipWriteError,
+  thisRelation,
+} from "../src";
+import { createAdapter, createServer, tuple } from "./helpers";
+
+const alice = tuple("doc:d1", "owner", "user:alice");
+const bob = tuple("doc:d1", "owner", "user:bob");
+const carol = tuple("doc:d1", "viewer", "user:carol");
+
+const stores = {
+  "with transactions": () => new RelationshipStore(createAdapter()),
+  "without transactions": () => {
+    const { transaction: _transaction, ...adapter } = createAdapter();
+    return new RelationshipStore(adapter as TransactionAdapter);
+  },
+};
+
+describe.each(Object.entries(stores))(
+  "writeRelationships %s",
+  (_name, createStore) => {
+    const setUp = async () => {
+      const store = createStore();
+      await store.write([alice]);
+      return { store, revision: store.revision };
+    };
+
+    const rejection = (promise: Promise<unknown>) =>
+      promise.then(
+        () => undefined,
+        (error: RelationshipWriteError) => error.code
+      );
+
+    it("applies creates, touches and deletes in one revision", async () => {
+      const { store, revision } = await setUp();
+      const caveated = { ...carol, caveatName: "office" };
+
+      const result = await store.writeRelationships({
+        updates: [
+          { op: "delete", tuple: alice },
+          { op: "create", tuple: bob },
+          { op: "touch", tuple: caveated },
+          { op: "delete", tuple: tuple("doc:d9", "owner", "user:alice") },
+        ],
+        preconditions: [
+          { op: "must-exist", filter: { objectType: "doc", objectId: "d1" } },
+          {
+            op: "must-not-exist",
+            filter: { objectType: "doc", objectId: "d1", relation: "viewer" },
+          },
+        ],
+      });
+
+      expect(result).toEqual({
+        written: [bob, caveated],
+        deleted: 1,
+        token: store.token,
+      });
+      expect(await store.read()).toEqual([bob, caveated]);
+      const changes = await store.readChanges(revision);
+      expect(changes.map(({ operation, tuple }) => [operation, tuple])).toEqual(
+        [
+          ["delete", alice],
+          ["write", bob],
+          ["write", caveated],
+        ]
+      );
+      expect(new Set(changes.map((change) => change.revision)).size).toBe(1);
+    });
+
+    it("writes nothing when a precondition fails", async () => {
+      const { store, revision } = await setUp();
+      const updates = [
+        { op: "delete" as const, tuple: alice },
+        { op: "create" as const, tuple: bob },
+      ];
+
+      expect(
+        await rejection(
+          store.writeRelationships({
+            updates,
+            preconditions: [
+              {
+                op: "must-not-exist",
+                filter: {
+                  objectType: "doc",
+                  objectId: "d1",
+                  relation: "owner",
+                },
+              },
+            ],
+          })
+        )
+      ).toBe("precondition-failed");
+      expect(
+        await rejection(
+          store.writeRelationships({
+            updates,
+            preconditions: [
+              {
+                op: "must-exist",
+                filter: { objectType: "doc", objectId: "d2" },
+              },
+            ],
+          })
+        )
+      ).toBe("precondition-failed");
+
+      expect(await store.read()).toEqual([alice]);
+      expect(await store.readChanges(revision)).toEqual([]);
+      expect(store.revision).toBe(revision);
+    });
+
+    it("writes nothing when a created tuple already exists", async () => {
+      const { store, revision } = await setUp();
+
+      await expect(
+        store.writeRelationships({
+          updates: [
+            { op: "create", tuple: bob },
+            { op: "create", tuple: alice },
+          ],
+        })
+      ).rejects.toThrow(
+        "Relationship tuple doc:d1#owner@user:alice already exists"
+      );
+
+      expect(await store.read()).toEqual([alice]);
+      expect(await store.readChanges(revision)).toEqual([]);
+    });
+
+    it("rejects malformed batches", async () => {
+      const { store } = await setUp();
+
+      await expect(
+        store.writeRelationships({
+          updates: [
+            { op: "touch", tuple: bob },
+            { op: "delete", tuple: bob },
+          ],
+        })
+      ).rejects.toThrow(
+        "Relationship tuple doc:d1#owner@user:bob appears more than once in the batch"
+      );
+      expect(
+        await rejection(
+          store.writeRelationships({
+            updates: [
+              {
+                op: "create",
+                tuple: {
+                  ...bob,
+                  validFrom: new Date("2030-01-01"),
+                  validUntil: new Date("2020-01-01"),
+                },
+              },
+            ],
+          })
+        )
+      ).toBe("invalid");
+      expect(await store.read()).toEqual([alice]);
+    });
+  }
+);
+
+describe("write-relationships endpoint", () => {
+  const policies = createAccessControl({ doc: ["read", "manage"] })
+    .resourceRoles({
+      doc: [
+        { name: "owner", actions: ["read", "manage"] },
+        { name: "viewer", actions: ["read"] },
+      ],
+    })
+    .roleConditions({ doc: { owner: thisRelation(), viewer: thisRelation() } });
+  const server = createServer(policies, true);
+  let owner: Awaited<ReturnType<typeof server.signUp>>;
+  let guest: Awaited<ReturnType<typeof server.signUp>>;
+
+  beforeAll(async () => {
+    owner = await server.signUp("owner");
+    guest = await server.signUp("guest");
+    const { policyEngineInstance } = await import("../src");
+    await policyEngineInstance!.relationships.write([
+      tuple("doc:d1", "owner", `user:${owner.id}`),
+    ]);
+  });
+
+  const viewer = () => tuple("doc:d1", "viewer", `user:${guest.id}`);
+  const canRead = async () =>
+    (
+      await guest.post("has-permission", {
+        action: "read",
+        resourceType: "doc",
+        resourceId: "d1",
+      })
+    ).body.allowed;
+
+  it("applies the batch and invalidates its resources", async () => {
+    expect(await canRead()).toBe(false);
+
+    const { status, body } = await owner.post("write-relationships", {
+      updates: [{ op: "create", tuple: viewer() }],
+      preconditions: [
+        {
+          op: "must-exist",
+          filter: { objectType: "doc", objectId: "d1", relation: "owner" },
+        },
+      ],
+    });
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({
+      written: [viewer()],
+      deleted: 0,
+      token: expect.stringMatching(/^zk1\./),
+    });
+    expect(await canRead()).toBe(true);
+  });
+
+  it("maps write errors to HTTP statuses", async () => {
+    const write = (body: object) => owner.post("write-relationships", body);
+
+    expect(
+      await write({
+        updates: [{ op: "delete", tuple: viewer() }],
+        preconditions: [
+          {
+            op: "must-not-exist",
+            filter: { objectType: "doc", objectId: "d1", relation: "owner" },
+          },
+        ],
+      })
+    ).toMatchObject({ status: 412 });
+    expect(
+      await write({ updates: [{ op: "create", tuple: viewer() }] })
+    ).toMatchObject({
+      status: 409,
+      body: { message: expect.stringContaining("already exists") },
+    });
+    expect(
+      await write({
+        updates: [
+          { op: "touch", tuple: viewer() },
+          { op: "delete", tuple: viewer() },
+        ],
+      })
+    ).toMatchObject({ status: 400 });
+    expect(
+      await write({
+        updates: [
+          { op: "create", tuple: tuple("doc:d1", "viewer", "anonymous:bob") },
+        ],
+      })
+    ).toMatchObject({
+      status: 400,
+      body: {
+        message: "The anonymous subject must be written as 'anonymous:*'",
+      },
+    });
+    expect(await canRead()).toBe(true);
+  });
+
+  it("requires the manage permission on every resource", async () => {
+    expect(
+      await owner.post("write-relationships", {
+        updates: [
+          { op: "touch", tuple: tuple("doc:d1", "viewer", "user:x") },
+          { op: "touch", tuple: tuple("doc:d2", "viewer", "user:x") },
+        ],
+      })
+    ).toMatchObject({
+      status: 403,
+      body: { message: "Not allowed to manage doc 'd2'" },
+    });
+    expect(
+      (
+        await guest.post("write-relationships", {
+          updates: [{ op: "delete", tuple: viewer() }],
+        })
+      ).status
+    ).toBe(403);
+  });
+});